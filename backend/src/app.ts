@@ -3,7 +3,6 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { Server } from 'socket.io';
 import http from 'http';
-import path from 'path';
 
 
 // Config
@@ -11,6 +10,12 @@ import logger from './config/logger';
 import { initializeDatabase } from './models/database.schema';
 import { seedDatabase } from './seed-data';
 import { setupSwagger } from './config/swagger';
+import runQueueService from './services/run-queue.service';
+import schedulerService from './services/scheduler.service';
+import credentialService from './services/credential.service';
+import playwrightService from './services/playwright.service';
+import projectMemberService from './services/project-member.service';
+import sessionService from './services/session.service';
 
 // Routes
 import projectRoutes from './routes/project.routes';
@@ -19,9 +24,11 @@ import testRoutes from './routes/test.routes';
 import userRoutes from './routes/user.routes';
 import playwrightRoutes from './routes/playwright.routes';
 import testDiscoveryRoutes from './routes/test-discovery.routes';
+import hookRoutes from './routes/hook.routes';
 
 // Middleware
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import { AuthUser, verifyAccessToken } from './middleware/auth.middleware';
 
 // Load environment variables
 dotenv.config();
@@ -94,23 +101,15 @@ class App {
       allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
     }));
 
-    // Body parser
-    this.app.use(express.json());
+    // Body parser (keeps the raw body so webhook signatures can be verified)
+    this.app.use(express.json({
+      verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+      }
+    }));
     this.app.use(express.urlencoded({ extended: true }));
 
-    // Static files (for screenshots and videos)
-    this.app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
-
-    // Static files for Playwright HTML reports with CORS headers
-    this.app.use('/reports', (req, res, next) => {
-      // Set CORS headers for report files
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-      res.setHeader('X-Frame-Options', 'SAMEORIGIN'); // Allow iframe from same origin
-      res.setHeader('Content-Security-Policy', "frame-ancestors 'self' http://localhost:* https://localhost:*");
-      next();
-    }, express.static(path.join(__dirname, '../public/reports')));
+    // Playwright HTML reports are served by the executions API through signed URLs
 
     // Swagger documentation
     setupSwagger(this.app);
@@ -142,6 +141,7 @@ class App {
     this.app.use(`/api/${apiVersion}/users`, userRoutes);
     this.app.use(`/api/${apiVersion}/playwright`, playwrightRoutes);
     this.app.use(`/api/${apiVersion}/test-discovery`, testDiscoveryRoutes);
+    this.app.use(`/api/${apiVersion}/hooks`, hookRoutes);
 
 
     // Root route
@@ -166,17 +166,72 @@ class App {
   }
 
   private initializeSocketIO(): void {
+    // Clients connect with the same token as the API: io(url, { auth: { token } })
+    this.io.use((socket, next) => {
+      const token = socket.handshake.auth?.token;
+      if (typeof token !== 'string' || !token) {
+        next(new Error('Access token is required'));
+        return;
+      }
+
+      verifyAccessToken(token)
+        .then((user) => {
+          if (!user) {
+            next(new Error('Invalid or expired token'));
+            return;
+          }
+
+          socket.data.user = user;
+          socket.data.token = token;
+          next();
+        })
+        .catch((error) => {
+          logger.error('Error authenticating socket connection:', error);
+          next(new Error('Internal server error'));
+        });
+    });
+
     this.io.on('connection', (socket) => {
       logger.info(`Client connected: ${socket.id}`);
 
+      // Revoking the session (or deactivating the user) disconnects the socket through these rooms
+      const connectedUser: AuthUser = socket.data.user;
+      socket.join(sessionService.userSocketRoom(connectedUser.userId));
+      if (connectedUser.sessionId) {
+        socket.join(sessionService.socketRoom(connectedUser.sessionId));
+      }
+
       socket.on('disconnect', () => {
         logger.info(`Client disconnected: ${socket.id}`);
       });
 
-      // Join test execution room
-      socket.on('join-execution', (executionId: string) => {
-        socket.join(`execution-${executionId}`);
-        logger.info(`Client ${socket.id} joined execution room: ${executionId}`);
+      // Join test execution room; only users who can view the run's project may follow it
+      socket.on('join-execution', async (executionId: string) => {
+        try {
+          const user = await this.recheckSocketUser(socket.data.user, socket.data.token);
+          if (!user) {
+            logger.warn(`Client ${socket.id} is no longer authenticated, disconnecting`);
+            socket.disconnect(true);
+            return;
+          }
+          socket.data.user = user;
+
+          if (!(await projectMemberService.canViewRun(executionId, user))) {
+            logger.warn(`Client ${socket.id} (${user.username}) may not join execution room: ${executionId}`);
+            return;
+          }
+
+          socket.join(`execution-${executionId}`);
+          logger.info(`Client ${socket.id} joined execution room: ${executionId}`);
+        } catch (error: any) {
+          logger.warn(`Client ${socket.id} could not join execution room ${executionId}: ${error.message}`);
+        }
+      });
+
+      // Leave test execution room
+      socket.on('leave-execution', (executionId: string) => {
+        socket.leave(`execution-${executionId}`);
+        logger.info(`Client ${socket.id} left execution room: ${executionId}`);
       });
     });
 
@@ -184,6 +239,19 @@ class App {
     (global as any).io = this.io;
   }
 
+  /**
+   * The user behind a socket as of now, or null once their session or API token was revoked.
+   * Sessions are checked rather than the access token, which expires long before a socket disconnects.
+   */
+  private async recheckSocketUser(user: AuthUser, token: string): Promise<AuthUser | null> {
+    if (!user.sessionId) {
+      return verifyAccessToken(token);
+    }
+
+    const current = await sessionService.verify(user.sessionId);
+    return current && { ...user, username: current.username, role: current.role };
+  }
+
   private initializeErrorHandling(): void {
     this.app.use(notFoundHandler);
     this.app.use(errorHandler);
@@ -197,6 +265,21 @@ class App {
       // Seed database with sample data (only if empty)
       await seedDatabase();
 
+      // Repository URLs no longer carry tokens; move any left from older versions to the credential store
+      await credentialService.migrateEmbeddedCredentials();
+
+      // Checkouts used to be named after the project; they are keyed by its ID now
+      await playwrightService.migrateProjectDirectories();
+
+      // Reports used to be written to the publicly served public/reports
+      await playwrightService.migrateLegacyReports();
+
+      // Start the background worker that executes queued test runs
+      await runQueueService.start();
+
+      // Queue runs for project schedules as they come due
+      schedulerService.start();
+
       // Start server
       this.server.listen(this.port, () => {
         logger.info(`
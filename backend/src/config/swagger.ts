@@ -34,7 +34,13 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string', format: 'uuid' },
             name: { type: 'string', example: 'E-Commerce Test Suite' },
             description: { type: 'string', example: 'Tests for e-commerce platform' },
-            base_url: { type: 'string', format: 'uri', example: 'https://example.com' },
+            base_url: { type: 'string', format: 'uri', example: 'https://example.com', description: 'Application under test' },
+            repo_url: { type: 'string', example: 'https://github.com/org/repo.git' },
+            default_branch: { type: 'string', example: 'main' },
+            working_directory: { type: 'string', example: 'packages/e2e', description: 'Subdirectory the tests run in' },
+            playwright_config_path: { type: 'string', example: 'playwright.config.ts', description: 'Relative to the working directory' },
+            install_command: { type: 'string', example: 'npm ci' },
+            max_concurrent_runs: { type: 'integer', nullable: true, example: 2, description: 'Runs executed at once; server default when null' },
             created_by: { type: 'string', format: 'uuid' },
             created_at: { type: 'string', format: 'date-time' },
             updated_at: { type: 'string', format: 'date-time' }
@@ -155,6 +161,10 @@ const options: swaggerJsdoc.Options = {
         name: 'Execution',
         description: 'Test execution endpoints'
       },
+      {
+        name: 'Webhooks',
+        description: 'Inbound push webhooks from Git hosts and CI'
+      },
       {
         name: 'Health',
         description: 'System health checks'
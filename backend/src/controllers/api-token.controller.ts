@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import apiTokenService from '../services/api-token.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CreateApiTokenDTO } from '../models/types';
+
+export class ApiTokenController {
+  /**
+   * List the current user's API tokens (never the tokens themselves)
+   */
+  async getTokens(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user!.userId;
+
+      const tokens = await apiTokenService.list(userId);
+
+      res.json({
+        success: true,
+        data: tokens,
+        count: tokens.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching API tokens:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch API tokens',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Create an API token for the current user. The response is the only time the token is shown.
+   */
+  async createToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user!.userId;
+      const { name, scope, expires_at }: CreateApiTokenDTO = req.body;
+
+      const { token, apiToken } = await apiTokenService.create(userId, { name, scope, expires_at });
+
+      logger.info(`API token '${name}' (${scope}) created for user ${userId}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'API token created. Copy it now: it will not be shown again.',
+        data: { ...apiToken, token }
+      });
+    } catch (error: any) {
+      logger.error('Error creating API token:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create API token',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the current user's API tokens
+   */
+  async revokeToken(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user!.userId;
+      const { tokenId } = req.params;
+
+      const revoked = await apiTokenService.revoke(userId, tokenId);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'API token not found'
+        });
+        return;
+      }
+
+      logger.info(`API token ${tokenId} revoked by user ${userId}`);
+
+      res.json({
+        success: true,
+        message: 'API token revoked'
+      });
+    } catch (error: any) {
+      logger.error('Error revoking API token:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke API token',
+        error: error.message
+      });
+    }
+  }
+}
+
+export default new ApiTokenController();
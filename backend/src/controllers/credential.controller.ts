@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import credentialService from '../services/credential.service';
+import secretService from '../services/secret.service';
+import { SaveProjectCredentialDTO } from '../models/types';
+
+export class CredentialController {
+  /**
+   * Get the type and user name of a project's repository credential (never the secret)
+   */
+  async getCredential(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const credential = await credentialService.get(id);
+
+      res.json({
+        success: true,
+        data: credential ? credentialService.toResponse(credential) : null
+      });
+    } catch (error: any) {
+      logger.error('Error fetching repository credential:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch repository credential',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Create or replace a project's repository credential
+   */
+  async saveCredential(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { type, username, secret }: SaveProjectCredentialDTO = req.body;
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      if (!secretService.isConfigured()) {
+        res.status(503).json({
+          success: false,
+          message: 'Credentials cannot be stored: SECRETS_ENCRYPTION_KEY is not configured on the server'
+        });
+        return;
+      }
+
+      const credential = await credentialService.save(id, {
+        type,
+        // A deploy key authenticates as whatever user the SSH URL names
+        username: type === 'ssh_key' ? undefined : username,
+        secret
+      });
+
+      logger.info(`Repository credential (${type}) saved for project ${id}`);
+
+      res.json({
+        success: true,
+        message: 'Repository credential saved',
+        data: credentialService.toResponse(credential)
+      });
+    } catch (error: any) {
+      logger.error('Error saving repository credential:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save repository credential',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Remove a project's repository credential
+   */
+  async deleteCredential(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await pool.query(
+        'DELETE FROM project_credentials WHERE project_id = $1 RETURNING id',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Repository credential not found'
+        });
+        return;
+      }
+
+      logger.info(`Repository credential removed for project ${id}`);
+
+      res.json({
+        success: true,
+        message: 'Repository credential removed'
+      });
+    } catch (error: any) {
+      logger.error('Error removing repository credential:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove repository credential',
+        error: error.message
+      });
+    }
+  }
+}
+
+export default new CredentialController();
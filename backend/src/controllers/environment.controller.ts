@@ -0,0 +1,296 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import environmentService from '../services/environment.service';
+import secretService from '../services/secret.service';
+import { CreateProjectEnvironmentDTO } from '../models/types';
+
+export class EnvironmentController {
+  /**
+   * List a project's environments (secret names only)
+   */
+  async getEnvironments(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await pool.query(
+        `SELECT * FROM project_environments
+         WHERE project_id = $1
+         ORDER BY is_default DESC, name`,
+        [id]
+      );
+
+      res.json({
+        success: true,
+        data: result.rows.map(environment => environmentService.toResponse(environment)),
+        count: result.rows.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching environments:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch environments',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Create an environment for a project
+   */
+  async createEnvironment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const {
+        name,
+        description,
+        base_url,
+        variables = {},
+        secrets = {},
+        is_default = false
+      }: CreateProjectEnvironmentDTO = req.body;
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      if (!this.checkEncryption(secrets, res)) {
+        return;
+      }
+
+      const nameCheck = await pool.query(
+        'SELECT id FROM project_environments WHERE project_id = $1 AND name = $2',
+        [id, name]
+      );
+
+      if (nameCheck.rows.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: `An environment named '${name}' already exists`
+        });
+        return;
+      }
+
+      // The first environment becomes the default
+      const countResult = await pool.query(
+        'SELECT COUNT(*) as count FROM project_environments WHERE project_id = $1',
+        [id]
+      );
+      const makeDefault = is_default || parseInt(countResult.rows[0].count) === 0;
+
+      if (makeDefault) {
+        await this.clearDefault(id);
+      }
+
+      const result = await pool.query(
+        `INSERT INTO project_environments
+         (project_id, name, description, base_url, variables, secrets, is_default)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          id,
+          name,
+          description || null,
+          base_url || null,
+          JSON.stringify(variables),
+          JSON.stringify(this.encryptSecrets({}, secrets)),
+          makeDefault
+        ]
+      );
+
+      logger.info(`Environment created for project ${id}: ${name}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Environment created successfully',
+        data: environmentService.toResponse(result.rows[0])
+      });
+    } catch (error: any) {
+      logger.error('Error creating environment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create environment',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Update an environment. Variables are replaced; secrets are merged (null removes one).
+   */
+  async updateEnvironment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, environmentId } = req.params;
+      const updates: Partial<CreateProjectEnvironmentDTO> = req.body;
+
+      const existingResult = await pool.query(
+        'SELECT * FROM project_environments WHERE id = $1 AND project_id = $2',
+        [environmentId, id]
+      );
+
+      if (existingResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Environment not found'
+        });
+        return;
+      }
+
+      if (!this.checkEncryption(updates.secrets || {}, res)) {
+        return;
+      }
+
+      const existing = existingResult.rows[0];
+      const environment = { ...existing, ...updates };
+
+      if (updates.name && updates.name !== existing.name) {
+        const nameCheck = await pool.query(
+          'SELECT id FROM project_environments WHERE project_id = $1 AND name = $2 AND id != $3',
+          [id, updates.name, environmentId]
+        );
+
+        if (nameCheck.rows.length > 0) {
+          res.status(409).json({
+            success: false,
+            message: `An environment named '${updates.name}' already exists`
+          });
+          return;
+        }
+      }
+
+      if (updates.is_default && !existing.is_default) {
+        await this.clearDefault(id);
+      }
+
+      const result = await pool.query(
+        `UPDATE project_environments
+         SET name = $1,
+             description = $2,
+             base_url = $3,
+             variables = $4,
+             secrets = $5,
+             is_default = $6
+         WHERE id = $7
+         RETURNING *`,
+        [
+          environment.name,
+          environment.description || null,
+          environment.base_url || null,
+          JSON.stringify(environment.variables || {}),
+          JSON.stringify(this.encryptSecrets(existing.secrets || {}, updates.secrets || {})),
+          !!environment.is_default,
+          environmentId
+        ]
+      );
+
+      logger.info(`Environment updated: ${environmentId}`);
+
+      res.json({
+        success: true,
+        message: 'Environment updated successfully',
+        data: environmentService.toResponse(result.rows[0])
+      });
+    } catch (error: any) {
+      logger.error('Error updating environment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update environment',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Delete an environment (runs that used it keep its name)
+   */
+  async deleteEnvironment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, environmentId } = req.params;
+
+      const result = await pool.query(
+        'DELETE FROM project_environments WHERE id = $1 AND project_id = $2 RETURNING id',
+        [environmentId, id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Environment not found'
+        });
+        return;
+      }
+
+      logger.info(`Environment deleted: ${environmentId}`);
+
+      res.json({
+        success: true,
+        message: 'Environment deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error deleting environment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete environment',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Merge secret changes into the stored (encrypted) ones: new values are encrypted, null removes a secret
+   */
+  private encryptSecrets(
+    stored: Record<string, string>,
+    changes: Record<string, string | null>
+  ): Record<string, string> {
+    const secrets = { ...stored };
+
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete secrets[name];
+      } else {
+        secrets[name] = secretService.encrypt(value);
+      }
+    }
+
+    return secrets;
+  }
+
+  /**
+   * Secrets can only be saved when the server has an encryption key. Responds and returns false if not.
+   */
+  private checkEncryption(secrets: Record<string, string | null>, res: Response): boolean {
+    const settingSecrets = Object.values(secrets).some(value => value !== null);
+
+    if (settingSecrets && !secretService.isConfigured()) {
+      res.status(503).json({
+        success: false,
+        message: 'Secrets cannot be stored: SECRETS_ENCRYPTION_KEY is not configured on the server'
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * A project has at most one default environment
+   */
+  private async clearDefault(projectId: string): Promise<void> {
+    await pool.query(
+      'UPDATE project_environments SET is_default = false WHERE project_id = $1 AND is_default',
+      [projectId]
+    );
+  }
+}
+
+export default new EnvironmentController();
@@ -1,24 +1,33 @@
 import { Request, Response } from 'express';
 import playwrightService from '../services/playwright.service';
+import runQueueService from '../services/run-queue.service';
+import gitService from '../services/git.service';
+import credentialService from '../services/credential.service';
+import secretService from '../services/secret.service';
+import reportAccessService from '../services/report-access.service';
 import pool from '../config/database';
 import logger from '../config/logger';
 import { ExecuteTestDTO } from '../models/types';
+import { AuthRequest } from '../middleware/auth.middleware';
 
 export class TestExecutionController {
   /**
-   * Execute tests using Playwright
+   * Queue a test suite run using Playwright
    */
   async executeTestSuite(req: Request, res: Response): Promise<void> {
     try {
       const { suiteId } = req.params;
       const executeOptions: ExecuteTestDTO = {
         suite_id: suiteId,
+        test_case_ids: req.body.test_case_ids,
         browser: req.body.browser || 'chromium',
-        environment: req.body.environment || 'test',
+        browsers: req.body.browsers,
+        devices: req.body.devices,
+        environment_id: req.body.environment_id,
         headless: req.body.headless ?? true
       };
 
-      logger.info(`Executing test suite: ${suiteId}`);
+      logger.info(`Queueing test suite: ${suiteId}`);
 
       // Get suite details to find project
       const suiteResult = await pool.query(
@@ -36,98 +45,203 @@ export class TestExecutionController {
 
       const projectId = suiteResult.rows[0].project_id;
 
-      // Execute tests using Playwright service
-      const result = await playwrightService.runTests({
+      // Hand the run to the queue; the worker executes it in the background
+      const queuedRun = await runQueueService.enqueue({
         projectId,
         suiteId,
+        testCaseIds: executeOptions.test_case_ids,
         browser: executeOptions.browser,
+        browsers: executeOptions.browsers,
+        devices: executeOptions.devices,
+        environmentId: executeOptions.environment_id,
         headed: !executeOptions.headless,
-        workers: 1
+        workers: 1,
+        triggeredBy: (req as AuthRequest).user?.userId
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
-        message: 'Test suite execution completed',
-        data: result
+        message: 'Test suite run queued',
+        data: queuedRun
       });
     } catch (error: any) {
-      logger.error('Error executing test suite:', error);
+      logger.error('Error queueing test suite:', error);
       res.status(500).json({
         success: false,
-        message: 'Test suite execution failed',
+        message: 'Failed to queue test suite run',
         error: error.message
       });
     }
   }
 
   /**
-   * Execute tests for a project
+   * Queue a test run of a single test case, on one browser
    */
-  async executeProject(req: Request, res: Response): Promise<void> {
+  async executeTestCase(req: Request, res: Response): Promise<void> {
     try {
-      const { projectId } = req.params;
-      const { browser = 'chromium', headless = true, workers = 1 } = req.body;
+      const { testCaseId } = req.params;
+      const { browser = 'chromium', environment_id, headless = true } = req.body;
+
+      const testCaseResult = await pool.query(
+        `SELECT tc.suite_id, ts.project_id
+         FROM test_cases tc
+         JOIN test_suites ts ON tc.suite_id = ts.id
+         WHERE tc.id = $1`,
+        [testCaseId]
+      );
 
-      logger.info(`Executing tests for project: ${projectId}`);
+      if (testCaseResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Test case not found'
+        });
+        return;
+      }
 
-      // Execute tests using Playwright service
-      const result = await playwrightService.runTests({
+      const { suite_id: suiteId, project_id: projectId } = testCaseResult.rows[0];
+
+      logger.info(`Queueing test case: ${testCaseId}`);
+
+      // The run is limited to the case's file and line when the queue resolves the selection
+      const queuedRun = await runQueueService.enqueue({
         projectId,
+        suiteId,
+        testCaseIds: [testCaseId],
         browser,
+        environmentId: environment_id,
         headed: !headless,
-        workers
+        workers: 1,
+        triggeredBy: (req as AuthRequest).user?.userId
       });
 
-      // Return success even if some tests failed (as long as tests ran)
-      const message = result.status === 'completed'
-        ? 'All tests passed successfully'
-        : result.status === 'failed' && result.totalTests > 0
-        ? `Tests completed: ${result.passedTests} passed, ${result.failedTests} failed`
-        : 'Test execution completed';
-
-      res.json({
+      res.status(202).json({
         success: true,
-        message,
-        data: result
+        message: 'Test case run queued',
+        data: queuedRun
       });
     } catch (error: any) {
-      logger.error('Error executing project tests:', error);
+      logger.error('Error queueing test case:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to queue test case run',
+        error: error.message
+      });
+    }
+  }
 
-      // Check if error message indicates no tests found
-      if (error.message.includes('Project(s)') && error.message.includes('not found')) {
-        res.status(400).json({
-          success: false,
-          message: 'Browser configuration error',
-          error: error.message,
-          hint: 'The requested browser is not configured in your playwright.config file. Available browsers are defined in the config.'
-        });
-      } else {
-        res.status(500).json({
+  /**
+   * Queue a test run for a project
+   */
+  async executeProject(req: Request, res: Response): Promise<void> {
+    try {
+      const { projectId } = req.params;
+      const { browser = 'chromium', browsers, devices, environment_id, headless = true, workers = 1, test_case_ids } = req.body;
+
+      logger.info(`Queueing tests for project: ${projectId}`);
+
+      const projectResult = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [projectId]
+      );
+
+      if (projectResult.rows.length === 0) {
+        res.status(404).json({
           success: false,
-          message: 'Test execution failed',
-          error: error.message
+          message: 'Project not found'
         });
+        return;
       }
+
+      // Hand the run to the queue; the worker executes it in the background
+      const queuedRun = await runQueueService.enqueue({
+        projectId,
+        testCaseIds: test_case_ids,
+        browser,
+        browsers,
+        devices,
+        environmentId: environment_id,
+        headed: !headless,
+        workers,
+        triggeredBy: (req as AuthRequest).user?.userId
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Test run queued',
+        data: queuedRun
+      });
+    } catch (error: any) {
+      logger.error('Error queueing project tests:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to queue test run',
+        error: error.message
+      });
     }
   }
 
   /**
-   * Get test execution history
+   * Get a test case's results across test runs, newest first.
+   * Run results are matched to the discovered test case by file path and title.
    */
   async getExecutionHistory(req: Request, res: Response): Promise<void> {
     try {
       const { testCaseId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 10;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 200);
+
+      const caseResult = await pool.query(
+        `SELECT tc.id, tc.name, tc.file_path, ts.project_id
+         FROM test_cases tc
+         JOIN test_suites ts ON tc.suite_id = ts.id
+         WHERE tc.id = $1`,
+        [testCaseId]
+      );
 
+      if (caseResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Test case not found'
+        });
+        return;
+      }
+
+      const testCase = caseResult.rows[0];
+
+      // Test cases created by hand have no file to match run results against
+      if (!testCase.file_path) {
+        res.json({
+          success: true,
+          data: [],
+          count: 0
+        });
+        return;
+      }
+
+      // Report paths are relative to Playwright's testDir and discovered paths to the repository root,
+      // so either may be a suffix of the other. Reports name tests "describe › title".
       const result = await pool.query(
-        `SELECT te.*, tc.name as test_case_name, u.username as executed_by_username
-         FROM test_executions te
-         JOIN test_cases tc ON te.test_case_id = tc.id
-         LEFT JOIN users u ON te.executed_by = u.id
-         WHERE te.test_case_id = $1
-         ORDER BY te.created_at DESC
-         LIMIT $2`,
-        [testCaseId, limit]
+        `WITH target AS (
+           SELECT regexp_replace(replace($2::text, '\\', '/'), '^\\./', '') as file_path, $3::text as title
+         ),
+         cases AS (
+           SELECT trc.*, regexp_replace(replace(trc.file_path, '\\', '/'), '^\\./', '') as normalized_path
+           FROM test_run_cases trc
+           JOIN test_runs tr ON trc.test_run_id = tr.id
+           WHERE tr.project_id = $1 AND trc.file_path IS NOT NULL
+         )
+         SELECT c.id, c.test_run_id, c.test_name, c.status, c.duration_ms, c.error_message,
+                c.retry_count, c.quarantined, c.created_at,
+                tr.run_name, tr.run_number, COALESCE(c.browser, tr.browser) as browser, tr.branch, tr.commit_sha, tr.start_time
+         FROM cases c
+         CROSS JOIN target t
+         JOIN test_runs tr ON c.test_run_id = tr.id
+         WHERE (c.normalized_path = t.file_path
+                OR RIGHT(c.normalized_path, LENGTH(t.file_path) + 1) = '/' || t.file_path
+                OR RIGHT(t.file_path, LENGTH(c.normalized_path) + 1) = '/' || c.normalized_path)
+           AND (c.test_name = t.title OR RIGHT(c.test_name, LENGTH(t.title) + 3) = ' › ' || t.title)
+         ORDER BY tr.start_time DESC, c.created_at DESC
+         LIMIT $4`,
+        [testCase.project_id, testCase.file_path, testCase.name, limit]
       );
 
       res.json({
@@ -145,6 +259,49 @@ export class TestExecutionController {
     }
   }
 
+  /**
+   * Cancel a queued or running test run
+   */
+  async cancelTestRun(req: Request, res: Response): Promise<void> {
+    try {
+      const { runId } = req.params;
+
+      logger.info(`Cancelling test run: ${runId}`);
+
+      const status = await runQueueService.cancel(runId);
+
+      if (status === null) {
+        res.status(404).json({
+          success: false,
+          message: 'Test run not found'
+        });
+        return;
+      }
+
+      if (status !== 'cancelled' && status !== 'cancelling') {
+        res.status(409).json({
+          success: false,
+          message: `Test run has already finished (${status})`
+        });
+        return;
+      }
+
+      // Running tests are stopped in the background; the final status arrives on the run's socket room
+      res.status(status === 'cancelled' ? 200 : 202).json({
+        success: true,
+        message: status === 'cancelled' ? 'Test run cancelled' : 'Cancellation requested',
+        data: { testRunId: runId, status }
+      });
+    } catch (error: any) {
+      logger.error('Error cancelling test run:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to cancel test run',
+        error: error.message
+      });
+    }
+  }
+
   /**
    * Get test run details
    */
@@ -230,7 +387,26 @@ export class TestExecutionController {
   async cloneRepository(req: Request, res: Response): Promise<void> {
     try {
       const { projectId } = req.params;
-      const { repoUrl, branch = 'main' } = req.body;
+
+      // Get project details
+      const projectResult = await pool.query(
+        'SELECT name, repo_url, default_branch FROM projects WHERE id = $1',
+        [projectId]
+      );
+
+      if (projectResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      const project = projectResult.rows[0];
+      const projectName = project.name;
+      // Both default to the project's repository settings
+      const repoUrl: string | undefined = req.body.repoUrl || project.repo_url;
+      const branch: string = req.body.branch || project.default_branch || 'main';
 
       // Validate request body
       if (!repoUrl || !repoUrl.trim()) {
@@ -241,12 +417,16 @@ export class TestExecutionController {
         return;
       }
 
-      // Validate repoUrl format
+      // Credentials in the URL are moved to the credential store below, never kept in repo_url
+      const { url: cleanUrl, credential } = credentialService.extractCredentials(repoUrl);
+
+      // Validate repoUrl format (scp-like SSH URLs such as git@github.com:org/repo.git are accepted as is)
       try {
-        const url = new URL(repoUrl.replace(/^https:\/\/[^@]+@/, 'https://'));
+        const scpHost = cleanUrl.match(/^[\w.-]+@([\w.-]+):/)?.[1];
+        const hostname = scpHost || new URL(cleanUrl).hostname;
         const validHosts = ['github.com', 'gitlab.com', 'dev.azure.com', 'bitbucket.org'];
-        if (!validHosts.some(host => url.hostname.includes(host))) {
-          logger.warn(`Repository URL uses non-standard host: ${url.hostname}`);
+        if (!validHosts.some(host => hostname.includes(host))) {
+          logger.warn(`Repository URL uses non-standard host: ${hostname}`);
         }
       } catch (urlError) {
         res.status(400).json({
@@ -265,35 +445,28 @@ export class TestExecutionController {
         return;
       }
 
-      // Get project details
-      const projectResult = await pool.query(
-        'SELECT name FROM projects WHERE id = $1',
-        [projectId]
-      );
-
-      if (projectResult.rows.length === 0) {
-        res.status(404).json({
-          success: false,
-          message: 'Project not found'
-        });
-        return;
+      if (credential) {
+        if (!secretService.isConfigured()) {
+          res.status(503).json({
+            success: false,
+            message: 'The repository URL contains credentials, but they cannot be stored: SECRETS_ENCRYPTION_KEY is not configured on the server'
+          });
+          return;
+        }
+        await credentialService.save(projectId, credential);
       }
 
-      const projectName = projectResult.rows[0].name;
-
       logger.info(`Cloning repository for project: ${projectName}, branch: ${branch}`);
 
-      // Clone repository
-      const projectPath = await playwrightService.cloneRepository(
-        repoUrl,
-        projectName,
-        branch
-      );
+      // Clone repository with the project's stored credential
+      const projectPath = await playwrightService.cloneRepository(cleanUrl, projectId, branch);
 
-      // Update project with repo URL
+      // Remember the repository and branch as the project's settings, approved by the admin who cloned it
       await pool.query(
-        'UPDATE projects SET base_url = $1 WHERE id = $2',
-        [repoUrl, projectId]
+        `UPDATE projects
+         SET repo_url = $1, default_branch = $2, repo_approved_by = $4, repo_approved_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [cleanUrl, branch, projectId, (req as AuthRequest).user?.userId || null]
       );
 
       logger.info(`Repository cloned successfully to: ${projectPath}`);
@@ -535,19 +708,48 @@ export class TestExecutionController {
     }
   }
 
+  /**
+   * Serve a file of a test run's report directory (HTML report, trace viewer, attachments) to whoever
+   * holds a signed report URL; the URLs are only handed out to users who can view the run
+   */
+  async serveReportFile(req: Request, res: Response): Promise<void> {
+    const testRunId = reportAccessService.verify(req.params.token);
+
+    if (!testRunId) {
+      res.status(403).json({
+        success: false,
+        message: 'Report link is invalid or has expired'
+      });
+      return;
+    }
+
+    // The web app embeds reports in an iframe
+    res.setHeader('Content-Security-Policy', "frame-ancestors 'self' http://localhost:* https://localhost:*");
+
+    // root keeps the path inside the report directory
+    res.sendFile(req.params[0] || 'index.html', { root: playwrightService.getReportDir(testRunId), dotfiles: 'deny' }, (error: any) => {
+      if (error && !res.headersSent) {
+        res.status(error.status || 404).json({
+          success: false,
+          message: 'Report file not found'
+        });
+      }
+    });
+  }
+
   /**
    * Get all test runs for a project with pagination
    */
   async getProjectTestRunsDetailed(req: Request, res: Response): Promise<void> {
     try {
       const { projectId } = req.params;
-      const { limit = 10, offset = 0 } = req.query;
+      const { limit = 10, offset = 0, branch, commit, author } = req.query;
 
       logger.info(`Getting test runs for project: ${projectId}`);
 
       // Get project details
       const projectResult = await pool.query(
-        'SELECT name FROM projects WHERE id = $1',
+        'SELECT name, repo_url FROM projects WHERE id = $1',
         [projectId]
       );
 
@@ -559,10 +761,29 @@ export class TestExecutionController {
         return;
       }
 
+      // Optional filters: exact branch, commit SHA prefix, author name or email
+      const conditions = ['tr.project_id = $1'];
+      const filterParams: any[] = [projectId];
+
+      if (branch) {
+        filterParams.push(branch);
+        conditions.push(`tr.branch = $${filterParams.length}`);
+      }
+      if (commit) {
+        filterParams.push(`${(commit as string).toLowerCase()}%`);
+        conditions.push(`tr.commit_sha LIKE $${filterParams.length}`);
+      }
+      if (author) {
+        filterParams.push(`%${author}%`);
+        conditions.push(`(tr.commit_author_name ILIKE $${filterParams.length} OR tr.commit_author_email ILIKE $${filterParams.length})`);
+      }
+
+      const whereClause = conditions.join(' AND ');
+
       // Get total count
       const countResult = await pool.query(
-        'SELECT COUNT(*) as total FROM test_runs WHERE project_id = $1',
-        [projectId]
+        `SELECT COUNT(*) as total FROM test_runs tr WHERE ${whereClause}`,
+        filterParams
       );
 
       // Get test runs with pagination
@@ -577,21 +798,38 @@ export class TestExecutionController {
           tr.failed_tests,
           tr.skipped_tests,
           tr.flaky_tests,
+          tr.quarantined_tests,
           tr.duration_ms,
           tr.browser,
+          tr.browsers,
+          tr.environment,
           tr.report_path,
           tr.report_url,
           tr.exit_code,
+          tr.error_message,
+          tr.selected_test_case_ids,
+          tr.test_targets,
+          tr.test_grep,
+          tr.branch,
+          tr.commit_sha,
+          tr.commit_message,
+          tr.commit_author_name,
+          tr.commit_author_email,
+          tr.commit_date,
+          tr.working_copy_dirty,
+          tr.trigger_source,
           tr.start_time,
           tr.end_time,
           tr.created_at,
-          u.username as triggered_by_username
+          u.username as triggered_by_username,
+          sch.name as schedule_name
          FROM test_runs tr
          LEFT JOIN users u ON tr.triggered_by = u.id
-         WHERE tr.project_id = $1
+         LEFT JOIN test_schedules sch ON tr.schedule_id = sch.id
+         WHERE ${whereClause}
          ORDER BY tr.created_at DESC
-         LIMIT $2 OFFSET $3`,
-        [projectId, limit, offset]
+         LIMIT $${filterParams.length + 1} OFFSET $${filterParams.length + 2}`,
+        [...filterParams, limit, offset]
       );
 
       // Get suite and case counts for each run
@@ -609,6 +847,11 @@ export class TestExecutionController {
 
           return {
             ...run,
+            // Reports are only reachable through signed links, which expire
+            report_url: run.report_path
+              ? `http://localhost:${process.env.PORT || 5000}${reportAccessService.url(run.id)}`
+              : null,
+            commit_url: gitService.getCommitUrl(projectResult.rows[0].repo_url, run.commit_sha),
             suitesCount: parseInt(suitesCount.rows[0].count),
             casesCount: parseInt(casesCount.rows[0].count),
             passRate: run.total_tests > 0
@@ -655,6 +898,7 @@ export class TestExecutionController {
         `SELECT
           tr.*,
           p.name as project_name,
+          p.repo_url as project_repo_url,
           u.username as triggered_by_username
          FROM test_runs tr
          LEFT JOIN projects p ON tr.project_id = p.id
@@ -671,11 +915,18 @@ export class TestExecutionController {
         return;
       }
 
+      // The repository URL can carry credentials, so only the derived commit link is returned
+      const { project_repo_url, ...testRun } = runResult.rows[0];
+      testRun.commit_url = gitService.getCommitUrl(project_repo_url, testRun.commit_sha);
+      testRun.report_url = testRun.report_path
+        ? `http://localhost:${process.env.PORT || 5000}${reportAccessService.url(runId)}`
+        : null;
+
       // Get suite results
       const suitesResult = await pool.query(
         `SELECT * FROM test_run_suites
          WHERE test_run_id = $1
-         ORDER BY suite_name`,
+         ORDER BY suite_name, browser`,
         [runId]
       );
 
@@ -683,16 +934,16 @@ export class TestExecutionController {
       const casesResult = await pool.query(
         `SELECT * FROM test_run_cases
          WHERE test_run_id = $1
-         ORDER BY suite_name, test_name`,
+         ORDER BY suite_name, test_name, browser`,
         [runId]
       );
 
       res.json({
         success: true,
         data: {
-          testRun: runResult.rows[0],
+          testRun,
           suites: suitesResult.rows,
-          cases: casesResult.rows
+          cases: casesResult.rows.map(testCase => reportAccessService.signCaseArtifacts(testCase))
         }
       });
     } catch (error: any) {
@@ -705,6 +956,176 @@ export class TestExecutionController {
     }
   }
 
+  /**
+   * Compare a test run against another run of the same project (usually the last green one).
+   * Cases are matched by browser, file, suite and title; otherRunId is the baseline.
+   */
+  async compareTestRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { runId, otherRunId } = req.params;
+      // A test counts as slower when it takes this much longer (percent and absolute) than in the baseline
+      const slowerThreshold = parseInt(req.query.slowerThreshold as string) || 50;
+      const minDeltaMs = parseInt(req.query.minDeltaMs as string) || 1000;
+
+      const runsResult = await pool.query(
+        `SELECT tr.id, tr.project_id, tr.run_name, tr.run_number, tr.status, tr.browser, tr.browsers,
+                tr.total_tests, tr.passed_tests, tr.failed_tests, tr.skipped_tests, tr.flaky_tests,
+                tr.quarantined_tests, tr.duration_ms, tr.start_time, tr.branch, tr.commit_sha,
+                tr.commit_message, tr.commit_author_name, p.name as project_name, p.repo_url
+         FROM test_runs tr
+         JOIN projects p ON tr.project_id = p.id
+         WHERE tr.id = ANY($1::uuid[])`,
+        [[runId, otherRunId]]
+      );
+
+      const head = runsResult.rows.find(run => run.id === runId);
+      const base = runsResult.rows.find(run => run.id === otherRunId);
+
+      if (!head || !base) {
+        res.status(404).json({
+          success: false,
+          message: 'Test run not found'
+        });
+        return;
+      }
+
+      if (head.project_id !== base.project_id) {
+        res.status(400).json({
+          success: false,
+          message: 'Only runs of the same project can be compared'
+        });
+        return;
+      }
+
+      // One row per test and browser present in either run (the latest result if a title repeats within a run).
+      // Cases saved before results were kept per browser take the run's browser.
+      const casesResult = await pool.query(
+        `WITH run_cases AS (
+           SELECT trc.*, COALESCE(trc.browser, tr.browser, '') as case_browser
+           FROM test_run_cases trc
+           JOIN test_runs tr ON trc.test_run_id = tr.id
+           WHERE trc.test_run_id = ANY($3::uuid[])
+         ),
+         base AS (
+           SELECT DISTINCT ON (case_browser, COALESCE(file_path, ''), COALESCE(suite_name, ''), test_name) *
+           FROM run_cases
+           WHERE test_run_id = $1
+           ORDER BY case_browser, COALESCE(file_path, ''), COALESCE(suite_name, ''), test_name, created_at DESC
+         ),
+         head AS (
+           SELECT DISTINCT ON (case_browser, COALESCE(file_path, ''), COALESCE(suite_name, ''), test_name) *
+           FROM run_cases
+           WHERE test_run_id = $2
+           ORDER BY case_browser, COALESCE(file_path, ''), COALESCE(suite_name, ''), test_name, created_at DESC
+         )
+         SELECT COALESCE(h.file_path, b.file_path) as file_path,
+                COALESCE(h.suite_name, b.suite_name) as suite_name,
+                COALESCE(h.test_name, b.test_name) as test_name,
+                NULLIF(COALESCE(h.case_browser, b.case_browser), '') as browser,
+                b.id as base_case_id,
+                b.status as base_status,
+                b.duration_ms as base_duration_ms,
+                h.id as head_case_id,
+                h.status as head_status,
+                h.duration_ms as head_duration_ms,
+                h.quarantined as head_quarantined,
+                COALESCE(h.error_message, b.error_message) as error_message
+         FROM base b
+         FULL OUTER JOIN head h
+           ON b.case_browser = h.case_browser
+          AND COALESCE(b.file_path, '') = COALESCE(h.file_path, '')
+          AND COALESCE(b.suite_name, '') = COALESCE(h.suite_name, '')
+          AND b.test_name = h.test_name
+         ORDER BY 1, 2, 3, 4`,
+        [otherRunId, runId, [otherRunId, runId]]
+      );
+
+      const isFailing = (status: string) => status === 'failed';
+      const isPassing = (status: string) => status === 'passed' || status === 'flaky';
+
+      const newlyFailing: any[] = [];
+      const newlyPassing: any[] = [];
+      const stillFailing: any[] = [];
+      const added: any[] = [];
+      const removed: any[] = [];
+      const slower: any[] = [];
+
+      for (const row of casesResult.rows) {
+        if (!row.base_case_id) {
+          added.push(row);
+        } else if (!row.head_case_id) {
+          removed.push(row);
+        } else if (isFailing(row.head_status) && isFailing(row.base_status)) {
+          stillFailing.push(row);
+        } else if (isFailing(row.head_status)) {
+          newlyFailing.push(row);
+        } else if (isFailing(row.base_status) && isPassing(row.head_status)) {
+          newlyPassing.push(row);
+        }
+
+        if (isPassing(row.head_status) && isPassing(row.base_status) && row.base_duration_ms > 0) {
+          const deltaMs = row.head_duration_ms - row.base_duration_ms;
+          const deltaPercent = (deltaMs / row.base_duration_ms) * 100;
+
+          if (deltaMs >= minDeltaMs && deltaPercent >= slowerThreshold) {
+            slower.push({ ...row, duration_delta_ms: deltaMs, duration_delta_percent: Math.round(deltaPercent) });
+          }
+        }
+      }
+
+      slower.sort((a, b) => b.duration_delta_ms - a.duration_delta_ms);
+
+      // Commits between the two runs, from the local clone when both commits are in it
+      let commits = null;
+      if (base.commit_sha && head.commit_sha && base.commit_sha !== head.commit_sha) {
+        const projectPath = playwrightService.getProjectPath(head.project_id);
+        commits = {
+          base_sha: base.commit_sha,
+          head_sha: head.commit_sha,
+          compare_url: gitService.getCompareUrl(head.repo_url, base.commit_sha, head.commit_sha),
+          commits: await gitService.getCommitRange(projectPath, base.commit_sha, head.commit_sha)
+        };
+      }
+
+      const toRunSummary = ({ repo_url, project_id, project_name, ...run }: any) => ({
+        ...run,
+        commit_url: gitService.getCommitUrl(repo_url, run.commit_sha)
+      });
+
+      res.json({
+        success: true,
+        data: {
+          projectId: head.project_id,
+          projectName: head.project_name,
+          base: toRunSummary(base),
+          head: toRunSummary(head),
+          commits,
+          summary: {
+            newlyFailing: newlyFailing.length,
+            newlyPassing: newlyPassing.length,
+            stillFailing: stillFailing.length,
+            added: added.length,
+            removed: removed.length,
+            slower: slower.length
+          },
+          newlyFailing,
+          newlyPassing,
+          stillFailing,
+          added,
+          removed,
+          slower
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error comparing test runs:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to compare test runs',
+        error: error.message
+      });
+    }
+  }
+
   /**
    * Get suite results for a test run
    */
@@ -722,7 +1143,7 @@ export class TestExecutionController {
          FROM test_run_suites trs
          JOIN test_runs tr ON trs.test_run_id = tr.id
          WHERE trs.test_run_id = $1
-         ORDER BY trs.suite_name`,
+         ORDER BY trs.suite_name, trs.browser`,
         [runId]
       );
 
@@ -746,7 +1167,7 @@ export class TestExecutionController {
   async getTestRunCases(req: Request, res: Response): Promise<void> {
     try {
       const { runId } = req.params;
-      const { status, suiteName } = req.query;
+      const { status, suiteName, browser } = req.query;
 
       logger.info(`Getting cases for test run: ${runId}`);
 
@@ -772,13 +1193,18 @@ export class TestExecutionController {
         query += ` AND trc.suite_name = $${params.length}`;
       }
 
-      query += ` ORDER BY trc.suite_name, trc.test_name`;
+      if (browser) {
+        params.push(browser);
+        query += ` AND trc.browser = $${params.length}`;
+      }
+
+      query += ` ORDER BY trc.suite_name, trc.test_name, trc.browser`;
 
       const casesResult = await pool.query(query, params);
 
       res.json({
         success: true,
-        data: casesResult.rows
+        data: casesResult.rows.map(testCase => reportAccessService.signCaseArtifacts(testCase))
       });
     } catch (error: any) {
       logger.error('Error getting test run cases:', error);
@@ -0,0 +1,319 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import playwrightService from '../services/playwright.service';
+import testDiscoveryService from '../services/test-discovery.service';
+import runQueueService from '../services/run-queue.service';
+import webhookService, { WebhookPush } from '../services/webhook.service';
+import gitService from '../services/git.service';
+
+const BROWSERS = ['chromium', 'firefox', 'webkit'];
+
+export class HookController {
+  // Pull/sync/enqueue chain per project so overlapping pushes don't run git in the same checkout at once
+  private readonly pendingTriggers = new Map<string, Promise<void>>();
+
+  /**
+   * Trigger a run from a push webhook (GitHub, GitLab, Azure DevOps or a generic JSON payload).
+   * The request is verified and acknowledged right away; fetching, syncing and queueing happen afterwards.
+   */
+  async trigger(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rawBody: Buffer | undefined = (req as any).rawBody;
+
+      const projectResult = await pool.query(
+        'SELECT id, name, repo_url, default_branch, webhook_secret, repo_approved_at FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      const project = projectResult.rows[0];
+
+      if (!project.webhook_secret) {
+        res.status(403).json({
+          success: false,
+          message: 'Webhooks are not enabled for this project'
+        });
+        return;
+      }
+
+      // Pushes fetch from the repository, and the first one clones it and runs its install command,
+      // so only settings an admin approved are used
+      if (project.repo_url && !project.repo_approved_at) {
+        res.status(403).json({
+          success: false,
+          message: 'An admin must approve the repository settings before webhooks can trigger runs'
+        });
+        return;
+      }
+
+      if (!rawBody) {
+        res.status(415).json({
+          success: false,
+          message: 'Webhook payload must be sent as application/json'
+        });
+        return;
+      }
+
+      const provider = webhookService.detectProvider(req.headers, req.body);
+
+      if (!webhookService.verify(provider, req.headers, rawBody, project.webhook_secret)) {
+        logger.warn(`Rejected ${provider} webhook for project ${id}: invalid signature`);
+        res.status(401).json({
+          success: false,
+          message: 'Invalid webhook signature'
+        });
+        return;
+      }
+
+      const push = webhookService.parsePush(provider, req.headers, req.body);
+
+      if (push.ignoredReason) {
+        logger.info(`Webhook for project ${id}: ${push.ignoredReason}`);
+        res.json({
+          success: true,
+          message: push.ignoredReason,
+          data: { provider, triggered: false }
+        });
+        return;
+      }
+
+      if (push.branch && !gitService.isValidBranchName(push.branch)) {
+        logger.warn(`Rejected ${provider} webhook for project ${id}: invalid branch name ${JSON.stringify(push.branch)}`);
+        res.status(400).json({
+          success: false,
+          message: 'Invalid branch name'
+        });
+        return;
+      }
+
+      // Run options can be passed in the query string, or in the body of generic payloads
+      const options = { ...req.query, ...(provider === 'generic' ? req.body : {}) };
+      const browser = BROWSERS.includes(options.browser) ? options.browser : 'chromium';
+      const suiteId = typeof options.suite_id === 'string' ? options.suite_id : undefined;
+
+      if (suiteId) {
+        const suiteCheck = await pool.query(
+          'SELECT id FROM test_suites WHERE id = $1 AND project_id = $2',
+          [suiteId, id]
+        );
+
+        if (suiteCheck.rows.length === 0) {
+          res.status(400).json({
+            success: false,
+            message: 'Test suite does not belong to this project'
+          });
+          return;
+        }
+      }
+
+      logger.info(`Webhook from ${provider} for project ${id}: ${push.ref || 'no ref'} @ ${push.commitSha || 'HEAD'}`);
+
+      const previous = this.pendingTriggers.get(id) || Promise.resolve();
+      const next = previous
+        .then(() => this.fetchAndEnqueue(project, push, browser, suiteId))
+        .catch((error: any) => {
+          logger.error(`Webhook-triggered run failed for project ${id}:`, error);
+        })
+        .finally(() => {
+          if (this.pendingTriggers.get(id) === next) {
+            this.pendingTriggers.delete(id);
+          }
+        });
+      this.pendingTriggers.set(id, next);
+
+      res.status(202).json({
+        success: true,
+        message: 'Webhook accepted, a test run will be queued',
+        data: {
+          provider,
+          triggered: true,
+          ref: push.ref,
+          branch: push.branch,
+          commitSha: push.commitSha
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error handling webhook:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to handle webhook',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Get a project's webhook setup (never includes the secret itself)
+   */
+  async getWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await pool.query(
+        'SELECT webhook_secret FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          enabled: !!result.rows[0].webhook_secret,
+          url: this.webhookUrl(req, id)
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error fetching webhook:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch webhook',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Generate (or rotate) a project's webhook secret. The secret is only returned here.
+   */
+  async rotateSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const secret = webhookService.generateSecret();
+
+      const result = await pool.query(
+        'UPDATE projects SET webhook_secret = $1 WHERE id = $2 RETURNING id',
+        [secret, id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      logger.info(`Webhook secret rotated for project ${id}`);
+
+      res.json({
+        success: true,
+        message: 'Webhook secret generated. Store it now, it will not be shown again.',
+        data: {
+          enabled: true,
+          url: this.webhookUrl(req, id),
+          secret
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error rotating webhook secret:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate webhook secret',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Disable a project's webhook by removing its secret
+   */
+  async deleteWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await pool.query(
+        'UPDATE projects SET webhook_secret = NULL WHERE id = $1 RETURNING id',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      logger.info(`Webhook disabled for project ${id}`);
+
+      res.json({
+        success: true,
+        message: 'Webhook disabled successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error disabling webhook:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to disable webhook',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Fetch the pushed branch, re-sync the test catalogue from the pushed commit and queue a run pinned to it.
+   * The shared checkout's HEAD and working tree are left alone, so pushes to other branches don't change it.
+   */
+  private async fetchAndEnqueue(
+    project: { id: string; name: string; repo_url?: string; default_branch?: string },
+    push: WebhookPush,
+    browser: 'chromium' | 'firefox' | 'webkit',
+    suiteId?: string
+  ): Promise<void> {
+    if (!project.repo_url) {
+      logger.warn(`Project ${project.id} has no repository URL, running against the existing checkout`);
+    } else if (!(await playwrightService.hasCheckout(project.id))) {
+      // The first push clones the default branch; the pushed one is fetched below like any other
+      await playwrightService.cloneRepository(project.repo_url, project.id, project.default_branch || undefined);
+    }
+
+    let commitSha = push.commitSha;
+    if (push.branch) {
+      const tip = await playwrightService.fetchBranch(project.id, push.branch);
+      commitSha = commitSha || tip;
+    }
+
+    const syncResult = commitSha
+      ? await playwrightService.withCommitCheckout(project.id, commitSha, (checkoutPath) =>
+          testDiscoveryService.syncTestsToDatabase(project.id, project.name, checkoutPath)
+        )
+      : await testDiscoveryService.syncTestsToDatabase(project.id, project.name);
+    logger.info(
+      `Webhook sync for project ${project.id}: ${syncResult.suitesCreated} suites, ${syncResult.testsCreated} tests`
+    );
+
+    const queued = await runQueueService.enqueue({
+      projectId: project.id,
+      suiteId,
+      browser,
+      branch: push.branch || undefined,
+      commitSha: commitSha || undefined,
+      triggerSource: 'webhook'
+    });
+
+    logger.info(`Webhook queued ${queued.runName} for project ${project.id}`);
+  }
+
+  private webhookUrl(req: Request, projectId: string): string {
+    const apiVersion = process.env.API_VERSION || 'v1';
+    return `${req.protocol}://${req.get('host')}/api/${apiVersion}/hooks/projects/${projectId}/trigger`;
+  }
+}
+
+export default new HookController();
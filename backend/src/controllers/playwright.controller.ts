@@ -1,18 +1,20 @@
 import { Request, Response } from 'express';
 import playwrightService from '../services/playwright.service';
+import runQueueService from '../services/run-queue.service';
 import logger from '../config/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
 
 export class PlaywrightController {
   /**
-   * Clone a repository
+   * Clone a repository into a project's checkout
    */
   async cloneRepository(req: Request, res: Response): Promise<void> {
     try {
-      const { repoUrl, projectName, branch } = req.body;
+      const { repoUrl, projectId, branch } = req.body;
       
       const projectPath = await playwrightService.cloneRepository(
         repoUrl,
-        projectName,
+        projectId,
         branch || 'main'
       );
       
@@ -31,24 +33,27 @@ export class PlaywrightController {
   }
 
   /**
-   * Run Playwright tests
+   * Queue a Playwright test run
    */
   async runTests(req: Request, res: Response): Promise<void> {
     try {
-      const { projectId, suiteId, browser, headed, workers } = req.body;
+      const { projectId, suiteId, testCaseIds, browser, environmentId, headed, workers } = req.body;
       
-      const result = await playwrightService.runTests({
+      const queuedRun = await runQueueService.enqueue({
         projectId,
         suiteId,
+        testCaseIds,
         browser: browser || 'chromium',
+        environmentId,
         headed: headed || false,
-        workers: workers || 1
+        workers: workers || 1,
+        triggeredBy: (req as AuthRequest).user?.userId
       });
       
-      res.json({
+      res.status(202).json({
         success: true,
-        message: 'Tests executed successfully',
-        data: result
+        message: 'Test run queued',
+        data: queuedRun
       });
     } catch (error: any) {
       logger.error('Error running tests:', error);
@@ -0,0 +1,192 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import projectMemberService from '../services/project-member.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AddProjectMemberDTO, ProjectRole } from '../models/types';
+
+export class ProjectMemberController {
+  /**
+   * Get the members of a project and their roles
+   */
+  async getMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const members = await projectMemberService.list(id);
+
+      res.json({
+        success: true,
+        data: members,
+        count: members.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching project members:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch project members',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Add an existing user, found by username or email, to a project
+   */
+  async addMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { identifier, role }: AddProjectMemberDTO = req.body;
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      const userResult = await pool.query(
+        'SELECT id, username FROM users WHERE (username = $1 OR LOWER(email) = LOWER($1)) AND is_active = true',
+        [identifier]
+      );
+
+      if (userResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'No active user with that username or email'
+        });
+        return;
+      }
+
+      const user = userResult.rows[0];
+      const member = await projectMemberService.add(id, user.id, role, (req as AuthRequest).user?.userId);
+
+      if (!member) {
+        res.status(409).json({
+          success: false,
+          message: `${user.username} is already a member of this project`
+        });
+        return;
+      }
+
+      logger.info(`User ${user.username} added to project ${id} as ${role}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Member added successfully',
+        data: member
+      });
+    } catch (error: any) {
+      logger.error('Error adding project member:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to add project member',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Change a member's role in a project
+   */
+  async updateMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      const { role }: { role: ProjectRole } = req.body;
+
+      const current = await projectMemberService.getRole(id, userId);
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          message: 'Project member not found'
+        });
+        return;
+      }
+
+      if (current === 'owner' && role !== 'owner' && (await projectMemberService.countOwners(id)) <= 1) {
+        res.status(400).json({
+          success: false,
+          message: 'A project must keep at least one owner'
+        });
+        return;
+      }
+
+      const result = await pool.query(
+        `UPDATE project_members SET role = $1
+         WHERE project_id = $2 AND user_id = $3
+         RETURNING *`,
+        [role, id, userId]
+      );
+
+      logger.info(`Project member ${userId} of project ${id} is now ${role}`);
+
+      res.json({
+        success: true,
+        message: 'Member updated successfully',
+        data: result.rows[0]
+      });
+    } catch (error: any) {
+      logger.error('Error updating project member:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update project member',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Remove a member from a project
+   */
+  async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      const current = await projectMemberService.getRole(id, userId);
+
+      if (!current) {
+        res.status(404).json({
+          success: false,
+          message: 'Project member not found'
+        });
+        return;
+      }
+
+      if (current === 'owner' && (await projectMemberService.countOwners(id)) <= 1) {
+        res.status(400).json({
+          success: false,
+          message: 'A project must keep at least one owner'
+        });
+        return;
+      }
+
+      await pool.query(
+        'DELETE FROM project_members WHERE project_id = $1 AND user_id = $2',
+        [id, userId]
+      );
+
+      logger.info(`Project member ${userId} removed from project ${id}`);
+
+      res.json({
+        success: true,
+        message: 'Member removed successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error removing project member:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove project member',
+        error: error.message
+      });
+    }
+  }
+}
+
+export default new ProjectMemberController();
@@ -1,7 +1,16 @@
 import { Request, Response } from 'express';
 import pool from '../config/database';
 import logger from '../config/logger';
+import credentialService from '../services/credential.service';
+import projectMemberService from '../services/project-member.service';
+import secretService from '../services/secret.service';
+import playwrightService from '../services/playwright.service';
 import { CreateProjectDTO } from '../models/types';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+// Project fields returned by create and update (the webhook secret stays private)
+const PROJECT_COLUMNS = `id, name, description, base_url, repo_url, default_branch, working_directory,
+  playwright_config_path, install_command, max_concurrent_runs, repo_approved_at, created_by, created_at, updated_at`;
 
 export class ProjectController {
   /**
@@ -9,8 +18,12 @@ export class ProjectController {
    */
   async getAllProjects(req: Request, res: Response): Promise<void> {
     try {
+      const user = (req as AuthRequest).user;
+
+      // Admins see every project, everyone else the projects they are a member of
       const result = await pool.query(
         `SELECT p.*,
+                pm.role as member_role,
                 COUNT(DISTINCT ts.id) as suite_count,
                 COUNT(DISTINCT tc.id) as test_count,
                 u.username as created_by_username,
@@ -18,21 +31,25 @@ export class ProjectController {
                 lr.total_tests as last_run_total_tests,
                 lr.passed_tests as last_run_passed_tests,
                 lr.failed_tests as last_run_failed_tests,
+                lr.quarantined_tests as last_run_quarantined_tests,
                 lr.start_time as last_run_date,
                 lr.status as last_run_status
          FROM projects p
          LEFT JOIN test_suites ts ON p.id = ts.project_id
          LEFT JOIN test_cases tc ON ts.id = tc.suite_id
          LEFT JOIN users u ON p.created_by = u.id
+         LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = $1
          LEFT JOIN LATERAL (
-           SELECT id, total_tests, passed_tests, failed_tests, start_time, status
+           SELECT id, total_tests, passed_tests, failed_tests, quarantined_tests, start_time, status
            FROM test_runs
            WHERE project_id = p.id
            ORDER BY start_time DESC
            LIMIT 1
          ) lr ON true
-         GROUP BY p.id, u.username, lr.id, lr.total_tests, lr.passed_tests, lr.failed_tests, lr.start_time, lr.status
-         ORDER BY p.created_at DESC`
+         WHERE $2 OR pm.id IS NOT NULL
+         GROUP BY p.id, pm.role, u.username, lr.id, lr.total_tests, lr.passed_tests, lr.failed_tests, lr.quarantined_tests, lr.start_time, lr.status
+         ORDER BY p.created_at DESC`,
+        [user?.userId || null, user?.role === 'admin']
       );
 
       // Transform the data to match frontend expectations
@@ -41,16 +58,25 @@ export class ProjectController {
         name: row.name,
         description: row.description,
         base_url: row.base_url,
+        // Projects saved before the credential store existed may still have a token in the URL
+        repo_url: row.repo_url && credentialService.stripCredentials(row.repo_url),
+        default_branch: row.default_branch,
+        working_directory: row.working_directory,
+        playwright_config_path: row.playwright_config_path,
+        install_command: row.install_command,
+        max_concurrent_runs: row.max_concurrent_runs,
         created_by: row.created_by,
         created_at: row.created_at,
         updated_at: row.updated_at,
         suite_count: row.suite_count,
         test_count: row.test_count,
         created_by_username: row.created_by_username,
+        member_role: row.member_role,
         last_run: row.last_run_id ? {
           total_tests: parseInt(row.last_run_total_tests) || 0,
           passed_tests: parseInt(row.last_run_passed_tests) || 0,
           failed_tests: parseInt(row.last_run_failed_tests) || 0,
+          quarantined_tests: parseInt(row.last_run_quarantined_tests) || 0,
           run_date: row.last_run_date,
           status: row.last_run_status
         } : null
@@ -84,12 +110,13 @@ export class ProjectController {
                 lr.total_tests as last_run_total_tests,
                 lr.passed_tests as last_run_passed_tests,
                 lr.failed_tests as last_run_failed_tests,
+                lr.quarantined_tests as last_run_quarantined_tests,
                 lr.start_time as last_run_date,
                 lr.status as last_run_status
          FROM projects p
          LEFT JOIN users u ON p.created_by = u.id
          LEFT JOIN LATERAL (
-           SELECT id, total_tests, passed_tests, failed_tests, start_time, status
+           SELECT id, total_tests, passed_tests, failed_tests, quarantined_tests, start_time, status
            FROM test_runs
            WHERE project_id = p.id
            ORDER BY start_time DESC
@@ -121,11 +148,13 @@ export class ProjectController {
       const row = projectResult.rows[0];
       const project = {
         ...row,
+        repo_url: row.repo_url && credentialService.stripCredentials(row.repo_url),
         test_suites: suitesResult.rows,
         last_run: row.last_run_id ? {
           total_tests: parseInt(row.last_run_total_tests) || 0,
           passed_tests: parseInt(row.last_run_passed_tests) || 0,
           failed_tests: parseInt(row.last_run_failed_tests) || 0,
+          quarantined_tests: parseInt(row.last_run_quarantined_tests) || 0,
           run_date: row.last_run_date,
           status: row.last_run_status
         } : null
@@ -136,9 +165,14 @@ export class ProjectController {
       delete project.last_run_total_tests;
       delete project.last_run_passed_tests;
       delete project.last_run_failed_tests;
+      delete project.last_run_quarantined_tests;
       delete project.last_run_date;
       delete project.last_run_status;
 
+      // Only say whether webhooks are set up; the secret is shown once when it is generated
+      project.webhook_configured = !!project.webhook_secret;
+      delete project.webhook_secret;
+
       res.json({
         success: true,
         data: project
@@ -185,9 +219,10 @@ export class ProjectController {
           INNER JOIN project_suites ps ON tc.suite_id = ps.id
         ),
         project_executions AS (
-          SELECT te.*
-          FROM test_executions te
-          INNER JOIN project_cases pc ON te.test_case_id = pc.id
+          SELECT trc.status, trc.duration_ms
+          FROM test_run_cases trc
+          INNER JOIN test_runs tr ON trc.test_run_id = tr.id
+          WHERE tr.project_id = $1
         )
         SELECT
           (SELECT COUNT(*) FROM project_suites) as total_suites,
@@ -195,8 +230,13 @@ export class ProjectController {
           (SELECT COUNT(*) FROM project_executions) as total_executions,
           (SELECT COUNT(*) FROM project_executions WHERE status = 'passed') as passed_executions,
           (SELECT COUNT(*) FROM project_executions WHERE status = 'failed') as failed_executions,
-          (SELECT COUNT(*) FROM project_executions WHERE status = 'running') as running_executions,
-          (SELECT AVG(duration_ms) FROM project_executions WHERE status IN ('passed', 'failed')) as avg_duration
+          (SELECT COUNT(*) FROM test_runs WHERE project_id = $1 AND status = 'in_progress') as running_executions,
+          (SELECT AVG(duration_ms) FROM project_executions WHERE status IN ('passed', 'failed', 'flaky')) as avg_duration,
+          (SELECT COUNT(*) FROM test_quarantines
+           WHERE project_id = $1 AND (expires_at IS NULL OR expires_at > NOW())) as quarantined_tests,
+          (SELECT quarantined_tests FROM test_runs
+           WHERE project_id = $1 AND status IN ('completed', 'failed')
+           ORDER BY created_at DESC LIMIT 1) as last_run_quarantined_failures
       `;
 
       const statsResult = await pool.query(statsQuery, [id]);
@@ -216,7 +256,9 @@ export class ProjectController {
           failed_executions: parseInt(stats.failed_executions),
           running_executions: parseInt(stats.running_executions),
           pass_rate: parseFloat(passRate),
-          avg_duration: stats.avg_duration ? parseFloat(stats.avg_duration) : 0
+          avg_duration: stats.avg_duration ? parseFloat(stats.avg_duration) : 0,
+          quarantined_tests: parseInt(stats.quarantined_tests),
+          last_run_quarantined_failures: parseInt(stats.last_run_quarantined_failures) || 0
         }
       });
     } catch (error: any) {
@@ -229,21 +271,407 @@ export class ProjectController {
     }
   }
 
+  /**
+   * Rank tests by how often they flaked over the project's last N finished runs.
+   * A test counts as flaky in a run when it only passed on retry, and also when its
+   * result flipped between pass and fail on two runs of the same commit.
+   */
+  async getFlakyTests(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const runs = Math.min(parseInt(req.query.runs as string) || 20, 200);
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      const flakyQuery = `
+        WITH recent_runs AS (
+          SELECT id, run_name, commit_sha, created_at
+          FROM test_runs
+          WHERE project_id = $1 AND status IN ('completed', 'failed')
+          ORDER BY created_at DESC
+          LIMIT $2
+        ),
+        results AS (
+          SELECT
+            trc.suite_name,
+            trc.test_name,
+            trc.file_path,
+            trc.status,
+            trc.retry_count,
+            rr.id as run_id,
+            rr.run_name,
+            rr.commit_sha,
+            rr.created_at,
+            LAG(trc.status) OVER (
+              PARTITION BY trc.file_path, trc.suite_name, trc.test_name, rr.commit_sha
+              ORDER BY rr.created_at
+            ) as previous_status
+          FROM test_run_cases trc
+          INNER JOIN recent_runs rr ON trc.test_run_id = rr.id
+          WHERE trc.status != 'skipped'
+        ),
+        ranked AS (
+          SELECT
+            suite_name,
+            test_name,
+            file_path,
+            COUNT(*) as runs,
+            COUNT(*) FILTER (WHERE status = 'flaky') as flaky_runs,
+            COUNT(*) FILTER (WHERE status = 'failed') as failed_runs,
+            COUNT(*) FILTER (
+              WHERE commit_sha IS NOT NULL
+                AND previous_status IS NOT NULL
+                AND (status = 'failed') != (previous_status = 'failed')
+            ) as commit_flips,
+            MAX(retry_count) as max_retries,
+            JSON_AGG(
+              JSON_BUILD_OBJECT(
+                'run_id', run_id,
+                'run_name', run_name,
+                'status', status,
+                'retry_count', retry_count,
+                'commit_sha', commit_sha,
+                'created_at', created_at
+              ) ORDER BY created_at DESC
+            ) as history
+          FROM results
+          GROUP BY suite_name, test_name, file_path
+        )
+        SELECT *
+        FROM ranked
+        WHERE flaky_runs > 0 OR commit_flips > 0
+        ORDER BY LEAST(flaky_runs + commit_flips, runs)::float / runs DESC, flaky_runs DESC, test_name
+        LIMIT $3
+      `;
+
+      const result = await pool.query(flakyQuery, [id, runs, limit]);
+
+      const flakyTests = result.rows.map(row => {
+        const totalRuns = parseInt(row.runs);
+        const flakyRuns = parseInt(row.flaky_runs);
+        const commitFlips = parseInt(row.commit_flips);
+
+        return {
+          suite_name: row.suite_name,
+          test_name: row.test_name,
+          file_path: row.file_path,
+          runs: totalRuns,
+          flaky_runs: flakyRuns,
+          failed_runs: parseInt(row.failed_runs),
+          commit_flips: commitFlips,
+          max_retries: row.max_retries || 0,
+          flake_rate: parseFloat(((Math.min(flakyRuns + commitFlips, totalRuns) / totalRuns) * 100).toFixed(2)),
+          history: row.history
+        };
+      });
+
+      res.json({
+        success: true,
+        data: flakyTests,
+        count: flakyTests.length,
+        runs
+      });
+    } catch (error: any) {
+      logger.error('Error fetching flaky tests:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch flaky tests',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Pass rate, test counts and run durations bucketed by day or week, plus the slowest
+   * and most failing tests over the period. Flaky results don't count as passed.
+   */
+  async getProjectAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const interval = req.query.interval === 'week' ? 'week' : 'day';
+      const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const browser = (req.query.browser as string) || null;
+      const branch = (req.query.branch as string) || null;
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      // Finished runs in the period, shared by the queries below ($1-$4)
+      const runsCte = `
+        period_runs AS (
+          SELECT *
+          FROM test_runs
+          WHERE project_id = $1
+            AND status IN ('completed', 'failed')
+            AND start_time >= date_trunc('${interval}', NOW() - make_interval(days => $2))
+            AND ($3::text IS NULL OR browser = $3 OR $3 = ANY(browsers))
+            AND ($4::text IS NULL OR branch = $4)
+        )
+      `;
+      // Multi-browser runs keep results per browser; older cases take the run's browser
+      const caseBrowserFilter = `($3::text IS NULL OR COALESCE(trc.browser, r.browser) = $3)`;
+      const params = [id, days, browser, branch];
+
+      const trendQuery = `
+        WITH ${runsCte},
+        buckets AS (
+          SELECT generate_series(
+            date_trunc('${interval}', NOW() - make_interval(days => $2)),
+            date_trunc('${interval}', NOW()),
+            INTERVAL '1 ${interval}'
+          ) as bucket
+        )
+        SELECT
+          b.bucket,
+          COUNT(r.id) as runs,
+          COUNT(r.id) FILTER (WHERE r.status = 'failed') as failed_runs,
+          COALESCE(SUM(r.total_tests), 0) as total_tests,
+          COALESCE(SUM(r.passed_tests), 0) as passed_tests,
+          COALESCE(SUM(r.failed_tests), 0) as failed_tests,
+          COALESCE(SUM(r.flaky_tests), 0) as flaky_tests,
+          COALESCE(SUM(r.skipped_tests), 0) as skipped_tests,
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY r.duration_ms) as p50_duration_ms,
+          PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY r.duration_ms) as p95_duration_ms
+        FROM buckets b
+        LEFT JOIN period_runs r ON date_trunc('${interval}', r.start_time) = b.bucket
+        GROUP BY b.bucket
+        ORDER BY b.bucket
+      `;
+
+      const summaryQuery = `
+        WITH ${runsCte}
+        SELECT
+          COUNT(*) as runs,
+          COUNT(*) FILTER (WHERE status = 'failed') as failed_runs,
+          COALESCE(SUM(total_tests), 0) as total_tests,
+          COALESCE(SUM(passed_tests), 0) as passed_tests,
+          COALESCE(SUM(failed_tests), 0) as failed_tests,
+          COALESCE(SUM(flaky_tests), 0) as flaky_tests,
+          COALESCE(SUM(skipped_tests), 0) as skipped_tests,
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY duration_ms) as p50_duration_ms,
+          PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY duration_ms) as p95_duration_ms
+        FROM period_runs
+      `;
+
+      const slowestQuery = `
+        WITH ${runsCte}
+        SELECT
+          trc.file_path,
+          trc.suite_name,
+          trc.test_name,
+          COUNT(*) as runs,
+          ROUND(AVG(trc.duration_ms)) as avg_duration_ms,
+          PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY trc.duration_ms) as p95_duration_ms,
+          MAX(trc.duration_ms) as max_duration_ms
+        FROM test_run_cases trc
+        INNER JOIN period_runs r ON trc.test_run_id = r.id
+        WHERE trc.status != 'skipped' AND trc.duration_ms IS NOT NULL AND ${caseBrowserFilter}
+        GROUP BY trc.file_path, trc.suite_name, trc.test_name
+        ORDER BY avg_duration_ms DESC
+        LIMIT $5
+      `;
+
+      const failingQuery = `
+        WITH ${runsCte}
+        SELECT
+          trc.file_path,
+          trc.suite_name,
+          trc.test_name,
+          COUNT(*) as runs,
+          COUNT(*) FILTER (WHERE trc.status = 'failed') as failed_runs,
+          COUNT(*) FILTER (WHERE trc.status = 'flaky') as flaky_runs,
+          BOOL_OR(trc.quarantined) as quarantined,
+          MAX(r.start_time) FILTER (WHERE trc.status = 'failed') as last_failed_at
+        FROM test_run_cases trc
+        INNER JOIN period_runs r ON trc.test_run_id = r.id
+        WHERE trc.status != 'skipped' AND ${caseBrowserFilter}
+        GROUP BY trc.file_path, trc.suite_name, trc.test_name
+        HAVING COUNT(*) FILTER (WHERE trc.status = 'failed') > 0
+        ORDER BY failed_runs DESC, runs ASC
+        LIMIT $5
+      `;
+
+      // Values to offer in the browser/branch filters
+      const filtersQuery = `
+        SELECT
+          ARRAY(
+            SELECT DISTINCT name
+            FROM test_runs, unnest(COALESCE(browsers, ARRAY[browser]::text[])) as name
+            WHERE project_id = $1 AND name IS NOT NULL
+            ORDER BY name
+          ) as browsers,
+          ARRAY(SELECT DISTINCT branch FROM test_runs WHERE project_id = $1 AND branch IS NOT NULL ORDER BY branch) as branches
+      `;
+
+      const [trendResult, summaryResult, slowestResult, failingResult, filtersResult] = await Promise.all([
+        pool.query(trendQuery, params),
+        pool.query(summaryQuery, params),
+        pool.query(slowestQuery, [...params, limit]),
+        pool.query(failingQuery, [...params, limit]),
+        pool.query(filtersQuery, [id])
+      ]);
+
+      const toMetrics = (row: any) => {
+        const totalTests = parseInt(row.total_tests);
+        const passedTests = parseInt(row.passed_tests);
+        const skippedTests = parseInt(row.skipped_tests);
+        const executedTests = totalTests - skippedTests;
+
+        return {
+          runs: parseInt(row.runs),
+          failed_runs: parseInt(row.failed_runs),
+          total_tests: totalTests,
+          passed_tests: passedTests,
+          failed_tests: parseInt(row.failed_tests),
+          flaky_tests: parseInt(row.flaky_tests),
+          skipped_tests: skippedTests,
+          pass_rate: executedTests > 0 ? parseFloat(((passedTests / executedTests) * 100).toFixed(2)) : null,
+          p50_duration_ms: row.p50_duration_ms !== null ? Math.round(row.p50_duration_ms) : null,
+          p95_duration_ms: row.p95_duration_ms !== null ? Math.round(row.p95_duration_ms) : null
+        };
+      };
+
+      res.json({
+        success: true,
+        data: {
+          interval,
+          days,
+          filters: { browser, branch },
+          available_filters: filtersResult.rows[0],
+          summary: toMetrics(summaryResult.rows[0]),
+          trend: trendResult.rows.map(row => ({ bucket: row.bucket, ...toMetrics(row) })),
+          slowest_tests: slowestResult.rows.map(row => ({
+            file_path: row.file_path,
+            suite_name: row.suite_name,
+            test_name: row.test_name,
+            runs: parseInt(row.runs),
+            avg_duration_ms: parseInt(row.avg_duration_ms),
+            p95_duration_ms: Math.round(row.p95_duration_ms),
+            max_duration_ms: row.max_duration_ms
+          })),
+          most_failing_tests: failingResult.rows.map(row => {
+            const runs = parseInt(row.runs);
+            const failedRuns = parseInt(row.failed_runs);
+
+            return {
+              file_path: row.file_path,
+              suite_name: row.suite_name,
+              test_name: row.test_name,
+              runs,
+              failed_runs: failedRuns,
+              flaky_runs: parseInt(row.flaky_runs),
+              failure_rate: parseFloat(((failedRuns / runs) * 100).toFixed(1)),
+              quarantined: row.quarantined,
+              last_failed_at: row.last_failed_at
+            };
+          })
+        }
+      });
+    } catch (error: any) {
+      logger.error('Error fetching project analytics:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch project analytics',
+        error: error.message
+      });
+    }
+  }
+
   /**
    * Create a new project
    */
   async createProject(req: Request, res: Response): Promise<void> {
     try {
-      const { name, description, base_url }: CreateProjectDTO = req.body;
-      const userId = (req as any).user?.id;
+      const {
+        name,
+        description,
+        base_url,
+        repo_url,
+        default_branch,
+        working_directory,
+        playwright_config_path,
+        install_command,
+        max_concurrent_runs
+      }: CreateProjectDTO = req.body;
+      const userId = (req as AuthRequest).user?.userId;
+      const isAdmin = (req as AuthRequest).user?.role === 'admin';
+
+      // The repository and install command decide what the server clones and runs in a shell
+      if (!isAdmin && (repo_url || install_command)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only admins can set the repository URL or install command'
+        });
+        return;
+      }
+
+      // Credentials in the URL go to the credential store, never into repo_url
+      const { url: repoUrl, credential } = repo_url
+        ? credentialService.extractCredentials(repo_url)
+        : { url: null, credential: null };
+
+      if (credential && !secretService.isConfigured()) {
+        res.status(503).json({
+          success: false,
+          message: 'The repository URL contains credentials, but they cannot be stored: SECRETS_ENCRYPTION_KEY is not configured on the server'
+        });
+        return;
+      }
 
       const result = await pool.query(
-        `INSERT INTO projects (name, description, base_url, created_by)
-         VALUES ($1, $2, $3, $4)
-         RETURNING *`,
-        [name, description, base_url, userId]
+        `INSERT INTO projects
+         (name, description, base_url, repo_url, default_branch, working_directory,
+          playwright_config_path, install_command, max_concurrent_runs, created_by,
+          repo_approved_by, repo_approved_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CASE WHEN $11::uuid IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END)
+         RETURNING ${PROJECT_COLUMNS}`,
+        [
+          name,
+          description,
+          base_url || null,
+          repoUrl,
+          default_branch || 'main',
+          working_directory || null,
+          playwright_config_path || null,
+          install_command || null,
+          max_concurrent_runs || null,
+          userId,
+          repoUrl || install_command ? userId : null
+        ]
       );
 
+      if (credential) {
+        await credentialService.save(result.rows[0].id, credential);
+      }
+
+      // The creator owns the project and can invite everyone else
+      if (userId) {
+        await projectMemberService.add(result.rows[0].id, userId, 'owner', userId);
+      }
+
       logger.info(`Project created: ${name}`);
 
       res.status(201).json({
@@ -262,25 +690,18 @@ export class ProjectController {
   }
 
   /**
-   * Update a project
+   * Update a project. Fields left out are unchanged; an empty string clears an optional one.
    */
   async updateProject(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { name, description, base_url } = req.body;
+      const updates: Partial<CreateProjectDTO> = req.body;
+      const userId = (req as AuthRequest).user?.userId;
+      const isAdmin = (req as AuthRequest).user?.role === 'admin';
 
-      const result = await pool.query(
-        `UPDATE projects
-         SET name = COALESCE($1, name),
-             description = COALESCE($2, description),
-             base_url = COALESCE($3, base_url),
-             updated_at = CURRENT_TIMESTAMP
-         WHERE id = $4
-         RETURNING *`,
-        [name, description, base_url, id]
-      );
+      const existingResult = await pool.query('SELECT * FROM projects WHERE id = $1', [id]);
 
-      if (result.rows.length === 0) {
+      if (existingResult.rows.length === 0) {
         res.status(404).json({
           success: false,
           message: 'Project not found'
@@ -288,6 +709,78 @@ export class ProjectController {
         return;
       }
 
+      const project = { ...existingResult.rows[0] };
+      for (const [field, value] of Object.entries(updates)) {
+        if (value !== undefined) {
+          project[field] = value === '' ? null : value;
+        }
+      }
+
+      // Credentials in the URL go to the credential store, never into repo_url
+      const { url: repoUrl, credential } = project.repo_url
+        ? credentialService.extractCredentials(project.repo_url)
+        : { url: null, credential: null };
+
+      const existing = existingResult.rows[0];
+      const repositoryChanged =
+        (repoUrl || null) !== (existing.repo_url ? credentialService.stripCredentials(existing.repo_url) : null) ||
+        (project.install_command || null) !== (existing.install_command || null);
+
+      // The repository and install command decide what the server clones and runs in a shell
+      if (!isAdmin && repositoryChanged) {
+        res.status(403).json({
+          success: false,
+          message: 'Only admins can change the repository URL or install command'
+        });
+        return;
+      }
+
+      if (credential && !secretService.isConfigured()) {
+        res.status(503).json({
+          success: false,
+          message: 'The repository URL contains credentials, but they cannot be stored: SECRETS_ENCRYPTION_KEY is not configured on the server'
+        });
+        return;
+      }
+
+      if (credential) {
+        await credentialService.save(id, credential);
+      }
+
+      // An admin saving the repository settings approves them, including ones set before approval existed
+      const approve = isAdmin && (updates.repo_url !== undefined || updates.install_command !== undefined);
+
+      const result = await pool.query(
+        `UPDATE projects
+         SET name = $1,
+             description = $2,
+             base_url = $3,
+             repo_url = $4,
+             default_branch = $5,
+             working_directory = $6,
+             playwright_config_path = $7,
+             install_command = $8,
+             max_concurrent_runs = $9,
+             repo_approved_by = CASE WHEN $11::uuid IS NULL THEN repo_approved_by ELSE $11 END,
+             repo_approved_at = CASE WHEN $11::uuid IS NULL THEN repo_approved_at ELSE CURRENT_TIMESTAMP END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $10
+         RETURNING ${PROJECT_COLUMNS}`,
+        [
+          project.name,
+          project.description,
+          project.base_url,
+          repoUrl,
+          project.default_branch || 'main',
+          project.working_directory,
+          project.playwright_config_path,
+          project.install_command,
+          project.max_concurrent_runs || null,
+          id,
+          approve ? userId : null
+        ]
+      );
+
       logger.info(`Project updated: ${id}`);
 
       res.json({
@@ -325,6 +818,9 @@ export class ProjectController {
         return;
       }
 
+      // The checkout goes with the project
+      await playwrightService.deleteProject(id);
+
       logger.info(`Project deleted: ${id}`);
 
       res.json({
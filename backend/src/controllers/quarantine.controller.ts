@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import { CreateTestQuarantineDTO } from '../models/types';
+
+export class QuarantineController {
+  /**
+   * List a project's quarantined tests (expired entries only with ?includeExpired=true)
+   */
+  async getQuarantines(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const includeExpired = req.query.includeExpired === 'true';
+
+      const result = await pool.query(
+        `SELECT q.*,
+                tc.name as test_case_name,
+                tc.file_path as test_case_file_path,
+                (q.expires_at IS NOT NULL AND q.expires_at <= NOW()) as expired
+         FROM test_quarantines q
+         LEFT JOIN test_cases tc ON q.test_case_id = tc.id
+         WHERE q.project_id = $1
+           AND ($2 OR q.expires_at IS NULL OR q.expires_at > NOW())
+         ORDER BY q.created_at DESC`,
+        [id, includeExpired]
+      );
+
+      res.json({
+        success: true,
+        data: result.rows,
+        count: result.rows.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching quarantined tests:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch quarantined tests',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Quarantine a test by test case id, or by file and title
+   */
+  async createQuarantine(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { test_case_id, file_path, test_title, reason, owner, expires_at }: CreateTestQuarantineDTO = req.body;
+
+      if (!test_case_id && !(file_path && test_title)) {
+        res.status(400).json({
+          success: false,
+          message: 'Either test_case_id or both file_path and test_title are required'
+        });
+        return;
+      }
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      if (test_case_id) {
+        const caseCheck = await pool.query(
+          `SELECT tc.id
+           FROM test_cases tc
+           INNER JOIN test_suites ts ON tc.suite_id = ts.id
+           WHERE tc.id = $1 AND ts.project_id = $2`,
+          [test_case_id, id]
+        );
+
+        if (caseCheck.rows.length === 0) {
+          res.status(400).json({
+            success: false,
+            message: 'Test case does not belong to this project'
+          });
+          return;
+        }
+      }
+
+      const result = await pool.query(
+        `INSERT INTO test_quarantines (project_id, test_case_id, file_path, test_title, reason, owner, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [id, test_case_id || null, file_path || null, test_title || null, reason, owner || null, expires_at || null]
+      );
+
+      logger.info(`Test quarantined in project ${id}: ${test_case_id || `${file_path} › ${test_title}`}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Test quarantined successfully',
+        data: result.rows[0]
+      });
+    } catch (error: any) {
+      logger.error('Error quarantining test:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to quarantine test',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Update the reason, owner or expiry of a quarantine entry
+   */
+  async updateQuarantine(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, quarantineId } = req.params;
+      const { reason, owner, expires_at } = req.body;
+
+      // expires_at may be set to null to keep the test quarantined indefinitely
+      const result = await pool.query(
+        `UPDATE test_quarantines
+         SET reason = COALESCE($1, reason),
+             owner = COALESCE($2, owner),
+             expires_at = CASE WHEN $3 THEN $4::timestamp ELSE expires_at END
+         WHERE id = $5 AND project_id = $6
+         RETURNING *`,
+        [reason, owner, expires_at !== undefined, expires_at || null, quarantineId, id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Quarantine entry not found'
+        });
+        return;
+      }
+
+      logger.info(`Quarantine updated: ${quarantineId}`);
+
+      res.json({
+        success: true,
+        message: 'Quarantine updated successfully',
+        data: result.rows[0]
+      });
+    } catch (error: any) {
+      logger.error('Error updating quarantine:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update quarantine',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Release a test from quarantine
+   */
+  async deleteQuarantine(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, quarantineId } = req.params;
+
+      const result = await pool.query(
+        'DELETE FROM test_quarantines WHERE id = $1 AND project_id = $2 RETURNING id',
+        [quarantineId, id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Quarantine entry not found'
+        });
+        return;
+      }
+
+      logger.info(`Quarantine removed: ${quarantineId}`);
+
+      res.json({
+        success: true,
+        message: 'Test released from quarantine'
+      });
+    } catch (error: any) {
+      logger.error('Error removing quarantine:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove quarantine',
+        error: error.message
+      });
+    }
+  }
+}
+
+export default new QuarantineController();
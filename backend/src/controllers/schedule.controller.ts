@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import pool from '../config/database';
+import logger from '../config/logger';
+import schedulerService from '../services/scheduler.service';
+import { CreateTestScheduleDTO } from '../models/types';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class ScheduleController {
+  /**
+   * List a project's schedules
+   */
+  async getSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await pool.query(
+        `SELECT s.*, ts.name as suite_name, tr.run_name as last_run_name, tr.status as last_run_status,
+                pe.name as environment_name
+         FROM test_schedules s
+         LEFT JOIN test_suites ts ON s.suite_id = ts.id
+         LEFT JOIN project_environments pe ON s.environment_id = pe.id
+         LEFT JOIN test_runs tr ON s.last_test_run_id = tr.id
+         WHERE s.project_id = $1
+         ORDER BY s.created_at`,
+        [id]
+      );
+
+      res.json({
+        success: true,
+        data: result.rows,
+        count: result.rows.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching schedules:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch schedules',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Create a schedule for a project
+   */
+  async createSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const {
+        name,
+        cron_expression,
+        timezone = 'UTC',
+        browser = 'chromium',
+        workers = 1,
+        suite_id,
+        branch,
+        environment_id,
+        missed_run_policy = 'skip',
+        enabled = true
+      }: CreateTestScheduleDTO = req.body;
+      const userId = (req as AuthRequest).user?.userId;
+
+      const projectCheck = await pool.query(
+        'SELECT id FROM projects WHERE id = $1',
+        [id]
+      );
+
+      if (projectCheck.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        });
+        return;
+      }
+
+      const validationError = await this.validateSchedule(id, cron_expression, timezone, suite_id, environment_id);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const nextRunAt = enabled ? schedulerService.getNextRun(cron_expression, timezone) : null;
+
+      const result = await pool.query(
+        `INSERT INTO test_schedules
+         (project_id, suite_id, name, cron_expression, timezone, browser, workers, branch,
+          missed_run_policy, enabled, next_run_at, created_by, environment_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         RETURNING *`,
+        [
+          id,
+          suite_id || null,
+          name,
+          cron_expression,
+          timezone,
+          browser,
+          workers,
+          branch || null,
+          missed_run_policy,
+          enabled,
+          nextRunAt,
+          userId || null,
+          environment_id || null
+        ]
+      );
+
+      logger.info(`Schedule created for project ${id}: ${name} (${cron_expression} ${timezone})`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Schedule created successfully',
+        data: result.rows[0]
+      });
+    } catch (error: any) {
+      logger.error('Error creating schedule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create schedule',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Update a schedule. The next run is recalculated from now.
+   */
+  async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, scheduleId } = req.params;
+
+      const existingResult = await pool.query(
+        'SELECT * FROM test_schedules WHERE id = $1 AND project_id = $2',
+        [scheduleId, id]
+      );
+
+      if (existingResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule not found'
+        });
+        return;
+      }
+
+      const schedule = { ...existingResult.rows[0], ...req.body };
+
+      const validationError = await this.validateSchedule(
+        id,
+        schedule.cron_expression,
+        schedule.timezone,
+        schedule.suite_id,
+        schedule.environment_id
+      );
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const nextRunAt = schedule.enabled
+        ? schedulerService.getNextRun(schedule.cron_expression, schedule.timezone)
+        : null;
+
+      const result = await pool.query(
+        `UPDATE test_schedules
+         SET name = $1,
+             cron_expression = $2,
+             timezone = $3,
+             browser = $4,
+             workers = $5,
+             suite_id = $6,
+             branch = $7,
+             missed_run_policy = $8,
+             enabled = $9,
+             next_run_at = $10,
+             environment_id = $11
+         WHERE id = $12
+         RETURNING *`,
+        [
+          schedule.name,
+          schedule.cron_expression,
+          schedule.timezone,
+          schedule.browser,
+          schedule.workers,
+          schedule.suite_id || null,
+          schedule.branch || null,
+          schedule.missed_run_policy,
+          schedule.enabled,
+          nextRunAt,
+          schedule.environment_id || null,
+          scheduleId
+        ]
+      );
+
+      logger.info(`Schedule updated: ${scheduleId}`);
+
+      res.json({
+        success: true,
+        message: 'Schedule updated successfully',
+        data: result.rows[0]
+      });
+    } catch (error: any) {
+      logger.error('Error updating schedule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update schedule',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Delete a schedule (runs it already queued are kept)
+   */
+  async deleteSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, scheduleId } = req.params;
+
+      const result = await pool.query(
+        'DELETE FROM test_schedules WHERE id = $1 AND project_id = $2 RETURNING id',
+        [scheduleId, id]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule not found'
+        });
+        return;
+      }
+
+      logger.info(`Schedule deleted: ${scheduleId}`);
+
+      res.json({
+        success: true,
+        message: 'Schedule deleted successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error deleting schedule:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete schedule',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Returns a message describing what's wrong with a schedule, or null if it's valid
+   */
+  private async validateSchedule(
+    projectId: string,
+    cronExpression: string,
+    timezone: string,
+    suiteId?: string | null,
+    environmentId?: string | null
+  ): Promise<string | null> {
+    const cronError = schedulerService.validate(cronExpression, timezone);
+    if (cronError) {
+      return cronError;
+    }
+
+    if (suiteId) {
+      const suiteCheck = await pool.query(
+        'SELECT id FROM test_suites WHERE id = $1 AND project_id = $2',
+        [suiteId, projectId]
+      );
+
+      if (suiteCheck.rows.length === 0) {
+        return 'Test suite does not belong to this project';
+      }
+    }
+
+    if (environmentId) {
+      const environmentCheck = await pool.query(
+        'SELECT id FROM project_environments WHERE id = $1 AND project_id = $2',
+        [environmentId, projectId]
+      );
+
+      if (environmentCheck.rows.length === 0) {
+        return 'Environment does not belong to this project';
+      }
+    }
+
+    return null;
+  }
+}
+
+export default new ScheduleController();
@@ -61,7 +61,7 @@ export class TestDiscoveryController {
       // Get project name from database
       const pool = require('../config/database').default;
       const projectResult = await pool.query(
-        'SELECT name FROM projects WHERE id = $1',
+        'SELECT name, working_directory FROM projects WHERE id = $1',
         [projectId]
       );
 
@@ -76,7 +76,10 @@ export class TestDiscoveryController {
       const projectName = projectResult.rows[0].name;
 
       // Discover test files
-      const testFiles = await testDiscoveryService.discoverTestFiles(projectName);
+      const testFiles = await testDiscoveryService.discoverTestFiles(
+        projectId,
+        projectResult.rows[0].working_directory
+      );
 
       res.json({
         success: true,
@@ -135,10 +138,10 @@ export class TestDiscoveryController {
         return;
       }
 
-      // Get project name from database
+      // Get the project's working directory from database
       const pool = require('../config/database').default;
       const projectResult = await pool.query(
-        'SELECT name FROM projects WHERE id = $1',
+        'SELECT working_directory FROM projects WHERE id = $1',
         [projectId]
       );
 
@@ -150,10 +153,12 @@ export class TestDiscoveryController {
         return;
       }
 
-      const projectName = projectResult.rows[0].name;
-
       // Parse the test file
-      const suite = await testDiscoveryService.parseTestFile(projectName, filePath);
+      const suite = await testDiscoveryService.parseTestFile(
+        projectId,
+        filePath,
+        projectResult.rows[0].working_directory
+      );
 
       res.json({
         success: true,
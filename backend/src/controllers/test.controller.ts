@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import pool from '../config/database';
 import logger from '../config/logger';
 import { CreateTestSuiteDTO, CreateTestCaseDTO } from '../models/types';
+import { AuthRequest } from '../middleware/auth.middleware';
 
 export class TestController {
   /**
@@ -102,7 +103,7 @@ export class TestController {
   async createTestSuite(req: Request, res: Response): Promise<void> {
     try {
       const { project_id, name, description }: CreateTestSuiteDTO = req.body;
-      const userId = (req as any).user?.id;
+      const userId = (req as AuthRequest).user?.userId;
 
       const result = await pool.query(
         `INSERT INTO test_suites (project_id, name, description, created_by)
@@ -1,14 +1,18 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import pool from '../config/database';
 import logger from '../config/logger';
+import sessionService, { SessionClient } from '../services/session.service';
+import { AuthRequest } from '../middleware/auth.middleware';
 import { CreateUserDTO, UpdateUserDTO, LoginDTO } from '../models/types';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
 const SALT_ROUNDS = 10;
 
+const sessionClient = (req: Request): SessionClient => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
 export class UserController {
   /**
    * Register a new user
@@ -44,12 +48,8 @@ export class UserController {
 
       const user = result.rows[0];
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, username: user.username, role: user.role },
-        JWT_SECRET as jwt.Secret,
-        { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
-      );
+      // Start a session: a short-lived access token and a refresh token
+      const { token, refreshToken } = await sessionService.create(user, sessionClient(req));
 
       logger.info(`User registered: ${username}`);
 
@@ -58,7 +58,8 @@ export class UserController {
         message: 'User registered successfully',
         data: {
           user,
-          token
+          token,
+          refreshToken
         }
       });
     } catch (error: any) {
@@ -116,12 +117,8 @@ export class UserController {
         return;
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, username: user.username, role: user.role },
-        JWT_SECRET as jwt.Secret,
-        { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
-      );
+      // Start a session: a short-lived access token and a refresh token
+      const { token, refreshToken } = await sessionService.create(user, sessionClient(req));
 
       // Remove password_hash from response
       const { password_hash, ...userWithoutPassword } = user;
@@ -133,7 +130,8 @@ export class UserController {
         message: 'Login successful',
         data: {
           user: userWithoutPassword,
-          token
+          token,
+          refreshToken
         }
       });
     } catch (error: any) {
@@ -146,6 +144,116 @@ export class UserController {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refreshSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      const tokens = await sessionService.refresh(refreshToken);
+
+      if (!tokens) {
+        res.status(401).json({
+          success: false,
+          message: 'Session has expired or been revoked'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: tokens
+      });
+    } catch (error: any) {
+      logger.error('Error refreshing session:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to refresh session',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Logout: revoke the session the refresh token belongs to, so neither token works any more
+   */
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      // Logging out twice, or with an expired session, is not an error
+      await sessionService.revokeByRefreshToken(refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error logging out:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to logout',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Get all active login sessions (Admin only)
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await sessionService.listActive();
+
+      res.json({
+        success: true,
+        data: sessions,
+        count: sessions.length
+      });
+    } catch (error: any) {
+      logger.error('Error fetching sessions:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch sessions',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Revoke a login session (Admin only)
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+
+      const revoked = await sessionService.revoke(sessionId);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found'
+        });
+        return;
+      }
+
+      logger.info(`Session revoked: ${sessionId}`);
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error: any) {
+      logger.error('Error revoking session:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke session',
+        error: error.message
+      });
+    }
+  }
+
   /**
    * Get all users
    */
@@ -363,6 +471,11 @@ export class UserController {
         return;
       }
 
+      // A deactivated user is signed out everywhere at once
+      if (is_active === false) {
+        await sessionService.revokeAllForUser(id);
+      }
+
       logger.info(`User updated: ${id}`);
 
       res.json({
@@ -387,6 +500,7 @@ export class UserController {
     try {
       const { id } = req.params;
 
+      // The user's sessions and API tokens are deleted with them, ending any access at once
       const result = await pool.query(
         'DELETE FROM users WHERE id = $1 RETURNING id, username',
         [id]
@@ -460,6 +574,10 @@ export class UserController {
         [new_password_hash, id]
       );
 
+      // Sign out every other session, keeping the one that changed the password
+      const currentUser = (req as AuthRequest).user;
+      await sessionService.revokeAllForUser(id, currentUser?.userId === id ? currentUser.sessionId : undefined);
+
       logger.info(`Password changed for user: ${id}`);
 
       res.json({
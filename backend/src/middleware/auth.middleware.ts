@@ -1,59 +1,98 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import logger from '../config/logger';
+import apiTokenService, { API_TOKEN_PREFIX } from '../services/api-token.service';
+import sessionService from '../services/session.service';
+import { ApiTokenScope } from '../models/types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
+export interface AuthUser {
+  userId: string;
+  username: string;
+  role: string;
+  // Set when authenticated with an API token rather than a login session
+  scope?: ApiTokenScope;
+  // Login session the access token belongs to
+  sessionId?: string;
+}
+
 export interface AuthRequest extends Request {
-  user?: {
-    userId: string;
-    username: string;
-    role: string;
-  };
+  user?: AuthUser;
 }
 
 /**
- * Middleware to verify JWT token
+ * The user behind an access token or personal API token; null if it is invalid or expired, or its session
+ * was revoked. Socket.IO connections are authenticated with it too.
  */
-export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+export const verifyAccessToken = async (token: string): Promise<AuthUser | null> => {
+  if (token.startsWith(API_TOKEN_PREFIX)) {
+    return apiTokenService.authenticate(token);
+  }
 
-    if (!token) {
-      res.status(401).json({
-        success: false,
-        message: 'Access token is required'
-      });
-      return;
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET);
+  } catch (err: any) {
+    // Access tokens are short-lived, so expiry is routine
+    if (err.name !== 'TokenExpiredError') {
+      logger.error('JWT verification failed:', err);
     }
+    return null;
+  }
+
+  // Tokens issued before login sessions existed have no session (sid) and must log in again
+  if (!decoded.sid) {
+    return null;
+  }
 
-    jwt.verify(token, JWT_SECRET, (err: any, decoded: any) => {
-      if (err) {
-        logger.error('JWT verification failed:', err);
-        res.status(403).json({
+  // The session is checked on every request so logout and deactivation take effect immediately
+  const user = await sessionService.verify(decoded.sid);
+  return user && {
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    sessionId: decoded.sid
+  };
+};
+
+/**
+ * Middleware to verify JWT token or personal API token.
+ * Responds 401 when the token has expired or its session was revoked, so clients know to refresh or log in again.
+ */
+export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      message: 'Access token is required'
+    });
+    return;
+  }
+
+  verifyAccessToken(token)
+    .then((user) => {
+      if (!user) {
+        res.status(401).json({
           success: false,
           message: 'Invalid or expired token'
         });
         return;
       }
 
-      (req as AuthRequest).user = {
-        userId: decoded.userId,
-        username: decoded.username,
-        role: decoded.role
-      };
-
+      (req as AuthRequest).user = user;
       next();
+    })
+    .catch((error) => {
+      logger.error('Error in authentication middleware:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error.message
+      });
     });
-  } catch (error: any) {
-    logger.error('Error in authentication middleware:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error',
-      error: error.message
-    });
-  }
 };
 
 /**
@@ -84,30 +123,40 @@ export const requireRole = (...roles: string[]) => {
 };
 
 /**
- * Optional authentication - sets user if token is valid but doesn't require it
+ * Middleware to check an API token has the required scope. Login sessions always pass.
  */
-export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+export const requireScope = (scope: ApiTokenScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthRequest).user;
 
-    if (!token) {
-      next();
+    if (user?.scope && !apiTokenService.satisfies(user.scope, scope)) {
+      res.status(403).json({
+        success: false,
+        message: `This API token needs the ${scope} scope`
+      });
       return;
     }
 
-    jwt.verify(token, JWT_SECRET, (err: any, decoded: any) => {
-      if (!err && decoded) {
-        (req as AuthRequest).user = {
-          userId: decoded.userId,
-          username: decoded.username,
-          role: decoded.role
-        };
-      }
-      next();
-    });
-  } catch (error) {
-    // Silent fail - just proceed without user
     next();
+  };
+};
+
+/**
+ * Optional authentication - sets user if token is valid but doesn't require it
+ */
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  try {
+    // Same checks as authenticateToken, so a revoked session or API token sets no user
+    const user = token ? await verifyAccessToken(token) : null;
+    if (user) {
+      (req as AuthRequest).user = user;
+    }
+  } catch {
+    // Silent fail - just proceed without user
   }
+
+  next();
 };
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import projectMemberService from '../services/project-member.service';
+import { AuthRequest } from './auth.middleware';
+import { ProjectRole } from '../models/types';
+
+// Finds the project a request is about; null or undefined if the resource doesn't exist.
+// Throws InvalidIdError if the request's id isn't a UUID.
+export type ProjectResolver = (req: Request) => Promise<string | null | undefined>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// An id that can't exist; passing it to a uuid column would make Postgres fail the query
+class InvalidIdError extends Error {}
+
+const checkId = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+    throw new InvalidIdError(`Invalid id: ${String(value)}`);
+  }
+  return value;
+};
+
+const projectOf = (value: unknown, lookup: (id: string) => Promise<string | null>) => {
+  const id = checkId(value);
+  return id ? lookup(id) : Promise.resolve(undefined);
+};
+
+export const projectParam = (name: string): ProjectResolver => async (req) => checkId(req.params[name]);
+export const projectBody = (name: string): ProjectResolver => async (req) => checkId(req.body?.[name]);
+export const suiteParam = (name: string): ProjectResolver => async (req) => projectOf(req.params[name], id => projectMemberService.projectOfSuite(id));
+export const suiteBody = (name: string): ProjectResolver => async (req) => projectOf(req.body?.[name], id => projectMemberService.projectOfSuite(id));
+export const testCaseParam = (name: string): ProjectResolver => async (req) => projectOf(req.params[name], id => projectMemberService.projectOfTestCase(id));
+export const runParam = (name: string): ProjectResolver => async (req) => projectOf(req.params[name], id => projectMemberService.projectOfRun(id));
+
+/**
+ * Middleware to check the user has at least the given role in the request's project.
+ * Admins pass for every project. Requests for an id that isn't a UUID get a 404.
+ * Must run after authenticateToken.
+ */
+export const requireProjectRole = (role: ProjectRole, resolveProject: ProjectResolver = projectParam('id')) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const user = (req as AuthRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const projectId = await resolveProject(req);
+
+      // Admins pass for every project; unknown resources are left to the controller's 404
+      if (!projectId || user.role === 'admin') {
+        next();
+        return;
+      }
+
+      const memberRole = await projectMemberService.getRole(projectId, user.userId);
+
+      if (!memberRole) {
+        res.status(403).json({
+          success: false,
+          message: 'You are not a member of this project'
+        });
+        return;
+      }
+
+      if (!projectMemberService.satisfies(memberRole, role)) {
+        res.status(403).json({
+          success: false,
+          message: `This requires the ${role} role in the project`
+        });
+        return;
+      }
+
+      next();
+    } catch (error: any) {
+      if (error instanceof InvalidIdError) {
+        res.status(404).json({
+          success: false,
+          message: 'Not found'
+        });
+        return;
+      }
+
+      logger.error('Error checking project access:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error.message
+      });
+    }
+  };
+};
@@ -18,6 +18,37 @@ export const initializeDatabase = async (): Promise<void> => {
       );
     `);
 
+    // Personal API tokens for CI and scripts; only a SHA-256 hash of each token is stored
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        token_hash VARCHAR(64) NOT NULL UNIQUE,
+        token_prefix VARCHAR(12) NOT NULL,
+        scope VARCHAR(10) NOT NULL CHECK (scope IN ('read', 'run', 'admin')),
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Login sessions: each holds a rotating refresh token (hashed) and is checked on every request
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+        user_agent VARCHAR(255),
+        ip_address VARCHAR(64),
+        expires_at TIMESTAMP NOT NULL,
+        last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
     // Projects table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS projects (
@@ -31,6 +62,50 @@ export const initializeDatabase = async (): Promise<void> => {
       );
     `);
 
+    // Secret used to verify inbound push webhooks
+    await pool.query(`
+      ALTER TABLE projects
+      ADD COLUMN IF NOT EXISTS webhook_secret VARCHAR(128);
+    `);
+
+    // Repository settings, separate from base_url (the application under test)
+    await pool.query(`
+      ALTER TABLE projects
+      ADD COLUMN IF NOT EXISTS repo_url VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS default_branch VARCHAR(255) DEFAULT 'main',
+      ADD COLUMN IF NOT EXISTS working_directory VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS playwright_config_path VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS install_command VARCHAR(500);
+    `);
+
+    // The admin who last set repo_url and install_command, which decide what the server clones and runs;
+    // webhooks don't pull a project until they are approved
+    await pool.query(`
+      ALTER TABLE projects
+      ADD COLUMN IF NOT EXISTS repo_approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS repo_approved_at TIMESTAMP;
+    `);
+
+    // Per-project run concurrency; NULL uses RUN_QUEUE_PROJECT_CONCURRENCY
+    await pool.query(`
+      ALTER TABLE projects
+      ADD COLUMN IF NOT EXISTS max_concurrent_runs INTEGER CHECK (max_concurrent_runs > 0);
+    `);
+
+    // Cloning used to store the repository URL in base_url; move those to repo_url
+    await pool.query(`
+      UPDATE projects
+      SET repo_url = base_url, base_url = NULL
+      WHERE repo_url IS NULL
+        AND base_url IS NOT NULL
+        AND (
+          base_url ~ '\\.git/?$'
+          OR base_url ~ '^(ssh|git)://'
+          OR base_url ~ '^[\\w.-]+@[\\w.-]+:'
+          OR base_url ~ '^https?://([^/@]*@)?(github\\.com|gitlab\\.com|bitbucket\\.org|dev\\.azure\\.com|[^/]*\\.visualstudio\\.com)/'
+        );
+    `);
+
     // Test suites table
     await pool.query(`
       CREATE TABLE IF NOT EXISTS test_suites (
@@ -101,12 +176,13 @@ export const initializeDatabase = async (): Promise<void> => {
         suite_id UUID REFERENCES test_suites(id) ON DELETE CASCADE,
         run_name VARCHAR(100),
         run_number INTEGER,
-        status VARCHAR(20) DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed', 'cancelled')),
+        status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'in_progress', 'completed', 'failed', 'cancelled', 'interrupted')),
         total_tests INTEGER DEFAULT 0,
         passed_tests INTEGER DEFAULT 0,
         failed_tests INTEGER DEFAULT 0,
         skipped_tests INTEGER DEFAULT 0,
         flaky_tests INTEGER DEFAULT 0,
+        quarantined_tests INTEGER DEFAULT 0,
         start_time TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         end_time TIMESTAMP,
         duration_ms INTEGER,
@@ -116,6 +192,14 @@ export const initializeDatabase = async (): Promise<void> => {
         report_path VARCHAR(500),
         report_url VARCHAR(500),
         exit_code INTEGER,
+        error_message TEXT,
+        selected_test_case_ids UUID[],
+        test_targets TEXT[],
+        test_grep TEXT,
+        commit_sha VARCHAR(40),
+        branch VARCHAR(255),
+        trigger_source VARCHAR(20) DEFAULT 'manual',
+        schedule_id UUID,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
@@ -127,7 +211,153 @@ export const initializeDatabase = async (): Promise<void> => {
       ADD COLUMN IF NOT EXISTS report_path VARCHAR(500),
       ADD COLUMN IF NOT EXISTS report_url VARCHAR(500),
       ADD COLUMN IF NOT EXISTS exit_code INTEGER,
-      ADD COLUMN IF NOT EXISTS run_number INTEGER;
+      ADD COLUMN IF NOT EXISTS run_number INTEGER,
+      ADD COLUMN IF NOT EXISTS error_message TEXT,
+      ADD COLUMN IF NOT EXISTS selected_test_case_ids UUID[],
+      ADD COLUMN IF NOT EXISTS test_targets TEXT[],
+      ADD COLUMN IF NOT EXISTS test_grep TEXT,
+      ADD COLUMN IF NOT EXISTS commit_sha VARCHAR(40),
+      ADD COLUMN IF NOT EXISTS quarantined_tests INTEGER DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS branch VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS trigger_source VARCHAR(20) DEFAULT 'manual',
+      ADD COLUMN IF NOT EXISTS schedule_id UUID,
+      ADD COLUMN IF NOT EXISTS commit_message TEXT,
+      ADD COLUMN IF NOT EXISTS commit_author_name VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS commit_author_email VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS commit_date TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS working_copy_dirty BOOLEAN,
+      ADD COLUMN IF NOT EXISTS browsers TEXT[];
+    `);
+
+    // Playwright project and device names are longer than the built-in browser names
+    await pool.query(`
+      ALTER TABLE test_runs ALTER COLUMN browser TYPE VARCHAR(100);
+    `);
+
+    // Widen the test_runs status check for queued and interrupted runs (for existing databases)
+    await pool.query(`
+      ALTER TABLE test_runs DROP CONSTRAINT IF EXISTS test_runs_status_check;
+      ALTER TABLE test_runs ADD CONSTRAINT test_runs_status_check
+        CHECK (status IN ('queued', 'in_progress', 'completed', 'failed', 'cancelled', 'interrupted'));
+    `);
+
+    // Scheduled (cron) runs per project
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS test_schedules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        suite_id UUID REFERENCES test_suites(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        cron_expression VARCHAR(100) NOT NULL,
+        timezone VARCHAR(64) DEFAULT 'UTC',
+        browser VARCHAR(20) DEFAULT 'chromium',
+        workers INTEGER DEFAULT 1,
+        branch VARCHAR(255),
+        missed_run_policy VARCHAR(20) DEFAULT 'skip' CHECK (missed_run_policy IN ('skip', 'catch_up')),
+        enabled BOOLEAN DEFAULT true,
+        next_run_at TIMESTAMP,
+        last_run_at TIMESTAMP,
+        last_test_run_id UUID REFERENCES test_runs(id) ON DELETE SET NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Named environments per project (base URL, variables and encrypted secrets injected into runs)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS project_environments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(50) NOT NULL,
+        description TEXT,
+        base_url VARCHAR(500),
+        variables JSONB DEFAULT '{}',
+        secrets JSONB DEFAULT '{}',
+        is_default BOOLEAN DEFAULT false,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (project_id, name)
+      );
+    `);
+
+    // Runs and schedules remember their environment
+    await pool.query(`
+      ALTER TABLE test_runs
+      ADD COLUMN IF NOT EXISTS environment_id UUID REFERENCES project_environments(id) ON DELETE SET NULL;
+      ALTER TABLE test_schedules
+      ADD COLUMN IF NOT EXISTS environment_id UUID REFERENCES project_environments(id) ON DELETE SET NULL;
+    `);
+
+    // Repository credentials (one per project); the secret is encrypted with SECRETS_ENCRYPTION_KEY
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS project_credentials (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('token', 'basic', 'ssh_key')),
+        username VARCHAR(255),
+        secret TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Project membership: what each user may do in a project (admins can do everything everywhere)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS project_members (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'maintainer', 'runner', 'viewer')),
+        added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (project_id, user_id)
+      );
+    `);
+
+    // Projects created before membership existed are owned by their creator
+    await pool.query(`
+      INSERT INTO project_members (project_id, user_id, role)
+      SELECT id, created_by, 'owner' FROM projects WHERE created_by IS NOT NULL
+      ON CONFLICT (project_id, user_id) DO NOTHING;
+    `);
+
+    // Runs remember the schedule that queued them
+    await pool.query(`
+      ALTER TABLE test_runs DROP CONSTRAINT IF EXISTS test_runs_schedule_id_fkey;
+      ALTER TABLE test_runs ADD CONSTRAINT test_runs_schedule_id_fkey
+        FOREIGN KEY (schedule_id) REFERENCES test_schedules(id) ON DELETE SET NULL;
+    `);
+
+    // Test run jobs table (persistent queue of runs waiting to be executed)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS test_run_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        test_run_id UUID UNIQUE REFERENCES test_runs(id) ON DELETE CASCADE,
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        config JSONB NOT NULL,
+        status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted')),
+        attempts INTEGER DEFAULT 0,
+        error_message TEXT,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Allow cancelled jobs (for existing databases)
+    await pool.query(`
+      ALTER TABLE test_run_jobs DROP CONSTRAINT IF EXISTS test_run_jobs_status_check;
+      ALTER TABLE test_run_jobs ADD CONSTRAINT test_run_jobs_status_check
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted'));
+    `);
+
+    // Which instance runs a job, and until when it counts as alive without renewing (for existing databases)
+    await pool.query(`
+      ALTER TABLE test_run_jobs
+      ADD COLUMN IF NOT EXISTS worker_id VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
     `);
 
     // Test run suites table (suite-level results for each run)
@@ -142,11 +372,24 @@ export const initializeDatabase = async (): Promise<void> => {
         failed_tests INTEGER DEFAULT 0,
         skipped_tests INTEGER DEFAULT 0,
         flaky_tests INTEGER DEFAULT 0,
+        quarantined_tests INTEGER DEFAULT 0,
         duration_ms INTEGER,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
+    // Count quarantined failures per suite (for existing databases)
+    await pool.query(`
+      ALTER TABLE test_run_suites
+      ADD COLUMN IF NOT EXISTS quarantined_tests INTEGER DEFAULT 0;
+    `);
+
+    // Results of multi-browser runs are kept per browser (Playwright project)
+    await pool.query(`
+      ALTER TABLE test_run_suites
+      ADD COLUMN IF NOT EXISTS browser VARCHAR(100);
+    `);
+
     // Test run cases table (individual test case results for each run)
     await pool.query(`
       CREATE TABLE IF NOT EXISTS test_run_cases (
@@ -160,10 +403,45 @@ export const initializeDatabase = async (): Promise<void> => {
         duration_ms INTEGER,
         error_message TEXT,
         stack_trace TEXT,
+        retry_count INTEGER DEFAULT 0,
+        attachments JSONB DEFAULT '[]',
+        screenshot_path VARCHAR(500),
+        video_path VARCHAR(500),
+        trace_path VARCHAR(500),
+        quarantined BOOLEAN DEFAULT false,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
+    // Add retry, attachment and failure artifact details (for existing databases)
+    await pool.query(`
+      ALTER TABLE test_run_cases
+      ADD COLUMN IF NOT EXISTS retry_count INTEGER DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]',
+      ADD COLUMN IF NOT EXISTS screenshot_path VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS video_path VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS trace_path VARCHAR(500),
+      ADD COLUMN IF NOT EXISTS quarantined BOOLEAN DEFAULT false,
+      ADD COLUMN IF NOT EXISTS browser VARCHAR(100);
+    `);
+
+    // Quarantined tests (still run, but their failures don't fail the run)
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS test_quarantines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        test_case_id UUID REFERENCES test_cases(id) ON DELETE CASCADE,
+        file_path VARCHAR(500),
+        test_title VARCHAR(300),
+        reason TEXT NOT NULL,
+        owner VARCHAR(100),
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (test_case_id IS NOT NULL OR (file_path IS NOT NULL AND test_title IS NOT NULL))
+      );
+    `);
+
     // Create indexes for better query performance
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_test_cases_suite_id ON test_cases(suite_id);
@@ -174,6 +452,14 @@ export const initializeDatabase = async (): Promise<void> => {
       CREATE INDEX IF NOT EXISTS idx_test_run_suites_test_run_id ON test_run_suites(test_run_id);
       CREATE INDEX IF NOT EXISTS idx_test_run_cases_test_run_id ON test_run_cases(test_run_id);
       CREATE INDEX IF NOT EXISTS idx_test_runs_created_at ON test_runs(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_test_run_jobs_status ON test_run_jobs(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_test_quarantines_project_id ON test_quarantines(project_id);
+      CREATE INDEX IF NOT EXISTS idx_test_schedules_next_run ON test_schedules(next_run_at) WHERE enabled;
+      CREATE INDEX IF NOT EXISTS idx_test_runs_project_commit ON test_runs(project_id, commit_sha);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_project_environments_default ON project_environments(project_id) WHERE is_default;
+      CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
+      CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
+      CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
     `);
 
     // Create trigger to update 'updated_at' timestamp
@@ -188,7 +474,7 @@ export const initializeDatabase = async (): Promise<void> => {
     `);
 
     // Apply trigger to tables
-    const tables = ['users', 'projects', 'test_suites', 'test_cases'];
+    const tables = ['users', 'projects', 'test_suites', 'test_cases', 'test_quarantines', 'test_schedules', 'project_environments', 'project_credentials', 'project_members'];
     for (const table of tables) {
       await pool.query(`
         DROP TRIGGER IF EXISTS update_${table}_updated_at ON ${table};
@@ -14,7 +14,18 @@ export interface Project {
   id: string;
   name: string;
   description?: string;
+  // URL of the application under test
   base_url?: string;
+  repo_url?: string;
+  default_branch?: string;
+  // Subdirectory of the repository the tests live in (monorepos); runs and discovery happen there
+  working_directory?: string;
+  // Playwright config, relative to the working directory; found automatically if not set
+  playwright_config_path?: string;
+  // Runs after clone and pull; defaults to npm install when there is a package.json
+  install_command?: string;
+  // Runs of the project executed at once; RUN_QUEUE_PROJECT_CONCURRENCY when not set
+  max_concurrent_runs?: number | null;
   created_by?: string;
   created_at: Date;
   updated_at: Date;
@@ -69,17 +80,157 @@ export interface TestRun {
   project_id: string;
   suite_id?: string;
   run_name?: string;
-  status: 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  run_number?: number;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   total_tests: number;
   passed_tests: number;
   failed_tests: number;
   skipped_tests: number;
+  quarantined_tests?: number;
   start_time: Date;
   end_time?: Date;
   duration_ms?: number;
   triggered_by?: string;
+  // Name of the environment profile the run used
   environment?: string;
+  environment_id?: string;
   browser?: string;
+  // Every browser/device the run executed (set for single-browser runs too)
+  browsers?: string[];
+  error_message?: string;
+  selected_test_case_ids?: string[];
+  test_targets?: string[];
+  test_grep?: string;
+  commit_sha?: string;
+  commit_message?: string;
+  commit_author_name?: string;
+  commit_author_email?: string;
+  commit_date?: Date;
+  working_copy_dirty?: boolean;
+  branch?: string;
+  trigger_source?: 'manual' | 'schedule' | 'webhook';
+  schedule_id?: string;
+  created_at: Date;
+}
+
+export interface TestRunJob {
+  id: string;
+  test_run_id: string;
+  project_id: string;
+  config: Record<string, any>;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+  attempts: number;
+  error_message?: string;
+  worker_id?: string;
+  lease_expires_at?: Date;
+  started_at?: Date;
+  finished_at?: Date;
+  created_at: Date;
+}
+
+export interface TestQuarantine {
+  id: string;
+  project_id: string;
+  test_case_id?: string;
+  file_path?: string;
+  test_title?: string;
+  reason: string;
+  owner?: string;
+  expires_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TestSchedule {
+  id: string;
+  project_id: string;
+  suite_id?: string;
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  browser: 'chromium' | 'firefox' | 'webkit';
+  workers: number;
+  branch?: string;
+  // What to do with runs that were due while the server was down
+  missed_run_policy: 'skip' | 'catch_up';
+  enabled: boolean;
+  next_run_at?: Date;
+  last_run_at?: Date;
+  last_test_run_id?: string;
+  environment_id?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProjectEnvironment {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  base_url?: string;
+  variables: Record<string, string>;
+  // Secret name -> encrypted value (see secret.service)
+  secrets: Record<string, string>;
+  is_default: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ProjectCredentialType = 'token' | 'basic' | 'ssh_key';
+
+export interface ProjectCredential {
+  id: string;
+  project_id: string;
+  type: ProjectCredentialType;
+  username?: string;
+  // Token, password or SSH private key, encrypted (see secret.service)
+  secret: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Highest first: each role can do everything the ones after it can
+export type ProjectRole = 'owner' | 'maintainer' | 'runner' | 'viewer';
+
+export interface ProjectMember {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  added_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Each scope includes the ones before it: read < run (start and cancel runs) < admin (everything the user can do)
+export type ApiTokenScope = 'read' | 'run' | 'admin';
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  // SHA-256 of the token; the token itself is only shown once, when it is created
+  token_hash: string;
+  // Start of the token, to tell tokens apart in lists
+  token_prefix: string;
+  scope: ApiTokenScope;
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  // SHA-256 of the current refresh token; replaced every time it is used
+  refresh_token_hash: string;
+  user_agent?: string;
+  ip_address?: string;
+  expires_at: Date;
+  last_used_at: Date;
+  revoked_at?: Date | null;
   created_at: Date;
 }
 
@@ -88,6 +239,31 @@ export interface CreateProjectDTO {
   name: string;
   description?: string;
   base_url?: string;
+  repo_url?: string;
+  default_branch?: string;
+  working_directory?: string;
+  playwright_config_path?: string;
+  install_command?: string;
+  max_concurrent_runs?: number | null;
+}
+
+export interface SaveProjectCredentialDTO {
+  type: ProjectCredentialType;
+  username?: string;
+  secret: string;
+}
+
+export interface CreateApiTokenDTO {
+  name: string;
+  scope: ApiTokenScope;
+  // Never expires when not set
+  expires_at?: string;
+}
+
+export interface AddProjectMemberDTO {
+  // Username or email of an existing user
+  identifier: string;
+  role: ProjectRole;
 }
 
 export interface CreateTestSuiteDTO {
@@ -107,11 +283,47 @@ export interface CreateTestCaseDTO {
   tags?: string[];
 }
 
+export interface CreateTestQuarantineDTO {
+  test_case_id?: string;
+  file_path?: string;
+  test_title?: string;
+  reason: string;
+  owner?: string;
+  expires_at?: string;
+}
+
+export interface CreateProjectEnvironmentDTO {
+  name: string;
+  description?: string;
+  base_url?: string;
+  variables?: Record<string, string>;
+  // Plain values to encrypt; on update a null value removes the secret and omitted ones are kept
+  secrets?: Record<string, string | null>;
+  is_default?: boolean;
+}
+
+export interface CreateTestScheduleDTO {
+  name: string;
+  cron_expression: string;
+  timezone?: string;
+  browser?: TestSchedule['browser'];
+  workers?: number;
+  suite_id?: string;
+  branch?: string;
+  environment_id?: string;
+  missed_run_policy?: TestSchedule['missed_run_policy'];
+  enabled?: boolean;
+}
+
 export interface ExecuteTestDTO {
   test_case_ids?: string[];
   suite_id?: string;
   browser?: 'chromium' | 'firefox' | 'webkit';
+  browsers?: string[];
+  devices?: string[];
   environment?: string;
+  // Environment profile to run against; the project's default one when omitted
+  environment_id?: string;
   headless?: boolean;
 }
 
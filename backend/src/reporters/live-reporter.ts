@@ -0,0 +1,62 @@
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+
+/**
+ * Playwright reporter that prints one machine-readable line per event to stdout.
+ * The backend passes it to `npx playwright test --reporter` and turns each line
+ * into a Socket.IO update for the run's room.
+ *
+ * This file is loaded by the Playwright installation of the cloned project,
+ * so it must only use type imports.
+ */
+export const LIVE_EVENT_PREFIX = '@@testrunner-event@@';
+
+class LiveReporter implements Reporter {
+  private emit(event: Record<string, unknown>): void {
+    process.stdout.write(`${LIVE_EVENT_PREFIX}${JSON.stringify(event)}\n`);
+  }
+
+  private describe(test: TestCase): Record<string, unknown> {
+    // titlePath() is ['', project, file, ...describes, title]
+    const titlePath = test.titlePath().filter(Boolean);
+    return {
+      testId: test.id,
+      title: test.title,
+      titlePath,
+      file: test.location.file,
+      line: test.location.line,
+      project: test.parent.project()?.name
+    };
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.emit({ type: 'run-begin', totalTests: suite.allTests().length, workers: config.workers });
+  }
+
+  onTestBegin(test: TestCase, result: TestResult): void {
+    this.emit({ type: 'test-begin', ...this.describe(test), retry: result.retry });
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    this.emit({
+      type: 'test-end',
+      ...this.describe(test),
+      retry: result.retry,
+      status: result.status,
+      outcome: test.outcome(),
+      duration: result.duration,
+      // Strip terminal colours so the message renders cleanly in the browser
+      error: result.error?.message?.replace(/\u001b\[[0-9;]*m/g, '')
+    });
+  }
+
+  onEnd(result: FullResult): void {
+    this.emit({ type: 'run-end', status: result.status, duration: result.duration });
+  }
+
+  printsToStdio(): boolean {
+    // The list reporter still prints the human-readable output
+    return false;
+  }
+}
+
+export default LiveReporter;
@@ -1,14 +1,39 @@
 import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { devices } from 'playwright';
 import executionController from '../controllers/execution.controller';
+import { validateRequest } from '../middleware/validate.middleware';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
+import { requireProjectRole, projectParam, suiteParam, testCaseParam, runParam } from '../middleware/project-access.middleware';
 
 const router = Router();
 
+const executeValidation = [
+  body('test_case_ids').optional().isArray({ min: 1 }).withMessage('test_case_ids must be a non-empty array'),
+  body('test_case_ids.*').isUUID().withMessage('Each test case ID must be a valid UUID'),
+  body('browsers').optional().isArray({ min: 1, max: 10 }).withMessage('browsers must be an array of 1 to 10 Playwright projects'),
+  body('browsers.*').isString().matches(/^[\w .()-]{1,100}$/).withMessage('Each browser must be a Playwright project name'),
+  body('devices').optional().isArray({ max: 10 }).withMessage('devices must be an array of at most 10 device profiles'),
+  body('devices.*').isIn(Object.keys(devices)).withMessage('Unknown device profile'),
+  body('environment_id').optional().isUUID().withMessage('environment_id must be a valid UUID')
+];
+
+const executeTestCaseValidation = [
+  param('testCaseId').isUUID().withMessage('Valid test case ID is required'),
+  body('browser').optional().isIn(['chromium', 'firefox', 'webkit']).withMessage('browser must be chromium, firefox or webkit'),
+  body('environment_id').optional().isUUID().withMessage('environment_id must be a valid UUID'),
+  body('headless').optional().isBoolean()
+];
+
 /**
  * @swagger
  * /api/v1/executions/project/{projectId}/execute:
  *   post:
- *     summary: Execute all tests for a project using Playwright
+ *     summary: Queue a Playwright run of all tests in a project
+ *     description: Creates a queued test run and returns its ID immediately. A background worker executes it; poll GET /api/v1/executions/run/{runId} or join the run's Socket.IO room for progress.
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -26,24 +51,73 @@ const router = Router();
  *                 type: string
  *                 enum: [chromium, firefox, webkit]
  *                 default: chromium
+ *               browsers:
+ *                 type: array
+ *                 description: Run several browsers (Playwright projects) in one run, overriding `browser`. Results are kept per browser.
+ *                 items:
+ *                   type: string
+ *                 example: [chromium, firefox, webkit]
+ *               devices:
+ *                 type: array
+ *                 description: Device profiles from Playwright's registry to add to the run, each as its own project
+ *                 items:
+ *                   type: string
+ *                 example: [iPhone 13, Pixel 7]
+ *               environment_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Environment profile whose variables and secrets are injected into the run; defaults to the project's default environment
  *               headless:
  *                 type: boolean
  *                 default: true
  *               workers:
  *                 type: integer
  *                 default: 1
+ *               test_case_ids:
+ *                 type: array
+ *                 description: Only run these test cases (by file:line, or by title when the location is unknown)
+ *                 items:
+ *                   type: string
+ *                   format: uuid
  *     responses:
- *       200:
- *         description: Project test execution completed
+ *       202:
+ *         description: Test run queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     testRunId:
+ *                       type: string
+ *                       format: uuid
+ *                     runName:
+ *                       type: string
+ *                     runNumber:
+ *                       type: integer
+ *                     status:
+ *                       type: string
+ *                       example: queued
+ *       404:
+ *         description: Project not found
  */
-router.post('/project/:projectId/execute', executionController.executeProject.bind(executionController));
+router.post('/project/:projectId/execute', authenticateToken, requireRole('admin', 'user'), requireScope('run'), executeValidation, validateRequest, requireProjectRole('runner', projectParam('projectId')), executionController.executeProject.bind(executionController));
 
 /**
  * @swagger
  * /api/v1/executions/suite/{suiteId}/execute:
  *   post:
- *     summary: Execute test suite using Playwright
+ *     summary: Queue a Playwright run of a test suite
+ *     description: Creates a queued test run and returns its ID immediately.
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: suiteId
@@ -60,15 +134,77 @@ router.post('/project/:projectId/execute', executionController.executeProject.bi
  *               browser:
  *                 type: string
  *                 enum: [chromium, firefox, webkit]
- *               environment:
+ *               browsers:
+ *                 type: array
+ *                 description: Run several browsers (Playwright projects) in one run, overriding `browser`
+ *                 items:
+ *                   type: string
+ *               devices:
+ *                 type: array
+ *                 description: Device profiles from Playwright's registry to add to the run
+ *                 items:
+ *                   type: string
+ *               environment_id:
  *                 type: string
+ *                 format: uuid
+ *                 description: Environment profile whose variables and secrets are injected into the run; defaults to the project's default environment
  *               headless:
  *                 type: boolean
+ *               test_case_ids:
+ *                 type: array
+ *                 description: Only run these test cases from the suite; defaults to every test in the suite's files
+ *                 items:
+ *                   type: string
+ *                   format: uuid
  *     responses:
- *       200:
- *         description: Suite execution completed
+ *       202:
+ *         description: Test suite run queued
+ *       404:
+ *         description: Test suite not found
  */
-router.post('/suite/:suiteId/execute', executionController.executeTestSuite.bind(executionController));
+router.post('/suite/:suiteId/execute', authenticateToken, requireRole('admin', 'user'), requireScope('run'), executeValidation, validateRequest, requireProjectRole('runner', suiteParam('suiteId')), executionController.executeTestSuite.bind(executionController));
+
+/**
+ * @swagger
+ * /api/v1/executions/test-case/{testCaseId}/execute:
+ *   post:
+ *     summary: Queue a Playwright run of a single test case
+ *     description: |
+ *       Runs just the test at the case's file and line (or matching its title when it has no location)
+ *       on one browser. Creates a normal queued test run and returns its ID immediately.
+ *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: testCaseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               browser:
+ *                 type: string
+ *                 enum: [chromium, firefox, webkit]
+ *                 default: chromium
+ *               environment_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Environment profile whose variables and secrets are injected into the run; defaults to the project's default environment
+ *               headless:
+ *                 type: boolean
+ *     responses:
+ *       202:
+ *         description: Test case run queued
+ *       404:
+ *         description: Test case not found
+ */
+router.post('/test-case/:testCaseId/execute', authenticateToken, requireRole('admin', 'user'), requireScope('run'), executeTestCaseValidation, validateRequest, requireProjectRole('runner', testCaseParam('testCaseId')), executionController.executeTestCase.bind(executionController));
 
 /**
  * @swagger
@@ -76,6 +212,8 @@ router.post('/suite/:suiteId/execute', executionController.executeTestSuite.bind
  *   post:
  *     summary: Clone repository for a project (GitHub, GitLab, Azure DevOps)
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -84,25 +222,24 @@ router.post('/suite/:suiteId/execute', executionController.executeTestSuite.bind
  *           type: string
  *           format: uuid
  *     requestBody:
- *       required: true
+ *       required: false
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - repoUrl
  *             properties:
  *               repoUrl:
  *                 type: string
- *                 example: https://token@dev.azure.com/org/project/_git/repo
+ *                 description: HTTPS or SSH URL, defaulting to the project's repo_url. Credentials embedded in an HTTPS URL are moved to the project's credential store (PUT /api/v1/projects/{id}/credentials) and removed from the URL. The URL is saved as the project's repo_url.
+ *                 example: https://dev.azure.com/org/project/_git/repo
  *               branch:
  *                 type: string
- *                 default: main
+ *                 description: Defaults to the project's default_branch, and is saved as it
  *     responses:
  *       200:
  *         description: Repository cloned successfully
  */
-router.post('/project/:projectId/clone', executionController.cloneRepository.bind(executionController));
+router.post('/project/:projectId/clone', authenticateToken, requireRole('admin'), requireScope('admin'), executionController.cloneRepository.bind(executionController));
 
 /**
  * @swagger
@@ -110,6 +247,8 @@ router.post('/project/:projectId/clone', executionController.cloneRepository.bin
  *   get:
  *     summary: Get Playwright HTML report for a test run
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -123,15 +262,51 @@ router.post('/project/:projectId/clone', executionController.cloneRepository.bin
  *       404:
  *         description: Report not found
  */
-router.get('/run/:runId/report', executionController.getTestReport.bind(executionController));
+router.get('/run/:runId/report', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.getTestReport.bind(executionController));
+
+/**
+ * @swagger
+ * /api/v1/executions/reports/{token}/{file}:
+ *   get:
+ *     summary: Get a file of a test run's HTML report or failure attachments
+ *     description: |
+ *       Signed, short-lived URLs to these files are returned by the report and run endpoints to users who can
+ *       view the run. The token is part of the path so the files a report loads by relative URL are signed too.
+ *       Links expire after REPORT_URL_EXPIRES_IN (1h by default).
+ *     tags: [Execution]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: file
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: index.html
+ *     responses:
+ *       200:
+ *         description: The file
+ *       403:
+ *         description: Report link is invalid or has expired
+ *       404:
+ *         description: Report file not found
+ */
+router.get('/reports/:token/*', executionController.serveReportFile.bind(executionController));
 
 /**
  * @swagger
  * /api/v1/executions/run/{runId}/view-report:
  *   get:
- *     summary: View Playwright HTML report directly (for embedding in iframe)
- *     description: Returns the HTML report that can be embedded in an iframe or viewed directly in the browser
+ *     summary: View Playwright HTML report directly
+ *     description: |
+ *       Redirects to a signed URL of the HTML report. Iframes and new tabs can't send the Authorization header,
+ *       so the web app opens the signed reportUrl returned by /run/{runId}/report instead.
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -140,23 +315,24 @@ router.get('/run/:runId/report', executionController.getTestReport.bind(executio
  *           type: string
  *           format: uuid
  *     responses:
- *       200:
- *         description: Report HTML rendered
- *         content:
- *           text/html:
- *             schema:
- *               type: string
+ *       302:
+ *         description: Redirect to the signed report URL
  *       404:
  *         description: Report not found
  */
-router.get('/run/:runId/view-report', executionController.viewReport.bind(executionController));
+router.get('/run/:runId/view-report', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.viewReport.bind(executionController));
 
 /**
  * @swagger
  * /api/v1/executions/test-case/{testCaseId}/history:
  *   get:
- *     summary: Get test execution history
+ *     summary: Get a test case's results across test runs
+ *     description: |
+ *       Results from test runs matched to the test case by file path and title, newest first,
+ *       with status, duration, browser, commit and error message per run.
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: testCaseId
@@ -168,12 +344,15 @@ router.get('/run/:runId/view-report', executionController.viewReport.bind(execut
  *         name: limit
  *         schema:
  *           type: integer
- *           default: 10
+ *           default: 20
+ *           maximum: 200
  *     responses:
  *       200:
  *         description: Execution history retrieved
+ *       404:
+ *         description: Test case not found
  */
-router.get('/test-case/:testCaseId/history', executionController.getExecutionHistory.bind(executionController));
+router.get('/test-case/:testCaseId/history', authenticateToken, requireProjectRole('viewer', testCaseParam('testCaseId')), executionController.getExecutionHistory.bind(executionController));
 
 /**
  * @swagger
@@ -181,6 +360,8 @@ router.get('/test-case/:testCaseId/history', executionController.getExecutionHis
  *   get:
  *     summary: Get test run details
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -192,7 +373,35 @@ router.get('/test-case/:testCaseId/history', executionController.getExecutionHis
  *       200:
  *         description: Test run details
  */
-router.get('/run/:runId', executionController.getTestRun.bind(executionController));
+router.get('/run/:runId', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.getTestRun.bind(executionController));
+
+/**
+ * @swagger
+ * /api/v1/executions/run/{runId}/cancel:
+ *   post:
+ *     summary: Cancel a queued or running test run
+ *     description: Queued runs are cancelled immediately. Running runs have their Playwright process tree stopped; partial results are saved and the run is marked cancelled once it exits.
+ *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Test run cancelled
+ *       202:
+ *         description: Cancellation requested for a running test run
+ *       404:
+ *         description: Test run not found
+ *       409:
+ *         description: Test run has already finished
+ */
+router.post('/run/:runId/cancel', authenticateToken, requireRole('admin', 'user'), requireScope('run'), requireProjectRole('runner', runParam('runId')), executionController.cancelTestRun.bind(executionController));
 
 /**
  * @swagger
@@ -200,6 +409,8 @@ router.get('/run/:runId', executionController.getTestRun.bind(executionControlle
  *   get:
  *     summary: Get all test runs for a project
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -216,7 +427,7 @@ router.get('/run/:runId', executionController.getTestRun.bind(executionControlle
  *       200:
  *         description: Project test runs retrieved
  */
-router.get('/project/:projectId/runs', executionController.getProjectTestRuns.bind(executionController));
+router.get('/project/:projectId/runs', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), executionController.getProjectTestRuns.bind(executionController));
 
 /**
  * @swagger
@@ -224,6 +435,8 @@ router.get('/project/:projectId/runs', executionController.getProjectTestRuns.bi
  *   get:
  *     summary: Get the latest test run and report for a project
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -276,15 +489,20 @@ router.get('/project/:projectId/runs', executionController.getProjectTestRuns.bi
  *       404:
  *         description: Project not found or no test runs available
  */
-router.get('/project/:projectId/latest-report', executionController.getLatestReport.bind(executionController));
+router.get('/project/:projectId/latest-report', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), executionController.getLatestReport.bind(executionController));
 
 /**
  * @swagger
  * /api/v1/executions/project/{projectId}/runs/detailed:
  *   get:
  *     summary: Get all test runs for a project with detailed information
- *     description: Returns test runs with suite counts, case counts, and pass rates. Supports pagination.
+ *     description: |
+ *       Returns test runs with suite counts, case counts, pass rates and the commit each run tested
+ *       (with a link to the commit on the hosting provider). Supports pagination and filtering by
+ *       branch, commit SHA prefix or commit author.
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -302,11 +520,25 @@ router.get('/project/:projectId/latest-report', executionController.getLatestRep
  *         schema:
  *           type: integer
  *           default: 0
+ *       - in: query
+ *         name: branch
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: commit
+ *         description: Full or abbreviated commit SHA
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: author
+ *         description: Part of the commit author's name or email
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Detailed test runs retrieved successfully
  */
-router.get('/project/:projectId/runs/detailed', executionController.getProjectTestRunsDetailed.bind(executionController));
+router.get('/project/:projectId/runs/detailed', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), executionController.getProjectTestRunsDetailed.bind(executionController));
 
 /**
  * @swagger
@@ -315,6 +547,8 @@ router.get('/project/:projectId/runs/detailed', executionController.getProjectTe
  *     summary: Get detailed information for a specific test run
  *     description: Returns test run details including all suites and test cases with their results
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -328,7 +562,55 @@ router.get('/project/:projectId/runs/detailed', executionController.getProjectTe
  *       404:
  *         description: Test run not found
  */
-router.get('/run/:runId/detailed', executionController.getTestRunDetailed.bind(executionController));
+router.get('/run/:runId/detailed', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.getTestRunDetailed.bind(executionController));
+
+/**
+ * @swagger
+ * /api/v1/executions/run/{runId}/compare/{otherRunId}:
+ *   get:
+ *     summary: Compare a test run with another run of the same project
+ *     description: |
+ *       Matches test cases by file, suite and title, using otherRunId as the baseline, and returns
+ *       the tests that newly fail, newly pass, still fail, were added, were removed or got
+ *       significantly slower. When both runs recorded a commit, the commits between them are included.
+ *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: otherRunId
+ *         required: true
+ *         description: Baseline run, e.g. the last green run
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: slowerThreshold
+ *         description: Minimum slowdown in percent for a test to count as slower
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: minDeltaMs
+ *         description: Minimum slowdown in milliseconds for a test to count as slower
+ *         schema:
+ *           type: integer
+ *           default: 1000
+ *     responses:
+ *       200:
+ *         description: Run comparison
+ *       400:
+ *         description: The runs belong to different projects
+ *       404:
+ *         description: Test run not found
+ */
+router.get('/run/:runId/compare/:otherRunId', authenticateToken, requireProjectRole('viewer', runParam('runId')), requireProjectRole('viewer', runParam('otherRunId')), executionController.compareTestRuns.bind(executionController));
 
 /**
  * @swagger
@@ -336,6 +618,8 @@ router.get('/run/:runId/detailed', executionController.getTestRunDetailed.bind(e
  *   get:
  *     summary: Get suite results for a test run
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -347,7 +631,7 @@ router.get('/run/:runId/detailed', executionController.getTestRunDetailed.bind(e
  *       200:
  *         description: Suite results retrieved
  */
-router.get('/run/:runId/suites', executionController.getTestRunSuites.bind(executionController));
+router.get('/run/:runId/suites', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.getTestRunSuites.bind(executionController));
 
 /**
  * @swagger
@@ -355,6 +639,8 @@ router.get('/run/:runId/suites', executionController.getTestRunSuites.bind(execu
  *   get:
  *     summary: Get test case results for a test run
  *     tags: [Execution]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: runId
@@ -371,10 +657,15 @@ router.get('/run/:runId/suites', executionController.getTestRunSuites.bind(execu
  *         name: suiteName
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: browser
+ *         description: Only results from this browser (Playwright project) of a multi-browser run
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Test case results retrieved
  */
-router.get('/run/:runId/cases', executionController.getTestRunCases.bind(executionController));
+router.get('/run/:runId/cases', authenticateToken, requireProjectRole('viewer', runParam('runId')), executionController.getTestRunCases.bind(executionController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import hookController from '../controllers/hook.controller';
+import { validateRequest } from '../middleware/validate.middleware';
+
+const router = Router();
+
+// Checked before anything is looked up; suite_id can also come in the body of generic payloads
+const triggerValidation = [
+  param('id').isUUID().withMessage('Valid project ID is required'),
+  query('suite_id').optional().isUUID().withMessage('suite_id must be a valid UUID'),
+  body('suite_id').optional().isUUID().withMessage('suite_id must be a valid UUID')
+];
+
+/**
+ * @swagger
+ * /api/v1/hooks/projects/{id}/trigger:
+ *   post:
+ *     summary: Trigger a test run from a push webhook
+ *     description: |
+ *       Pulls the pushed branch, re-syncs the project's tests and queues a run pinned to the
+ *       pushed commit. The payload must be JSON and is authenticated with the project's webhook
+ *       secret the way each provider sends it:
+ *
+ *       - GitHub: `X-Hub-Signature-256` HMAC-SHA256 signature of the body
+ *       - GitLab: `X-Gitlab-Token` set to the secret
+ *       - Azure DevOps: basic authentication with the secret as the password
+ *       - Generic: `X-Signature-256: sha256=<hex HMAC-SHA256 of the body>`, or `Authorization: Bearer <secret>`
+ *
+ *       Tag pushes, branch deletions and non-push events are acknowledged without starting a run.
+ *       `suite_id` and `browser` can be passed as query parameters (or in a generic payload).
+ *     tags: [Webhooks]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: suite_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: browser
+ *         schema:
+ *           type: string
+ *           enum: [chromium, firefox, webkit]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             description: A GitHub, GitLab or Azure DevOps push event, or a generic payload
+ *             type: object
+ *             properties:
+ *               ref:
+ *                 type: string
+ *                 example: refs/heads/main
+ *               branch:
+ *                 type: string
+ *                 example: main
+ *               commit:
+ *                 type: string
+ *                 example: 9fceb02d0ae598e95dc970b74767f19372d61af8
+ *     responses:
+ *       200:
+ *         description: Event verified but ignored (not a branch push)
+ *       202:
+ *         description: Webhook accepted, a run will be queued
+ *       400:
+ *         description: Invalid project ID, suite_id or branch name
+ *       401:
+ *         description: Missing or invalid signature
+ *       403:
+ *         description: Webhooks are not enabled for this project, or an admin hasn't approved its repository settings
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/projects/:id/trigger', triggerValidation, validateRequest, hookController.trigger.bind(hookController));
+
+export default router;
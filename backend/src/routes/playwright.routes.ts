@@ -2,25 +2,30 @@ import { Router } from 'express';
 import playwrightController from '../controllers/playwright.controller';
 import { body } from 'express-validator';
 import { validateRequest } from '../middleware/validate.middleware';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
+import { requireProjectRole, projectBody, runParam } from '../middleware/project-access.middleware';
 
 const router = Router();
 
 const cloneRepoValidation = [
   body('repoUrl').isURL().withMessage('Valid repository URL is required'),
-  body('projectName').trim().notEmpty().withMessage('Project name is required'),
+  body('projectId').isUUID().withMessage('Valid project ID is required'),
   body('branch').optional().trim()
 ];
 
 const runTestsValidation = [
   body('projectId').isUUID().withMessage('Valid project ID is required'),
   body('suiteId').optional().isUUID(),
+  body('testCaseIds').optional().isArray({ min: 1 }).withMessage('testCaseIds must be a non-empty array'),
+  body('testCaseIds.*').isUUID().withMessage('Each test case ID must be a valid UUID'),
   body('browser').optional().isIn(['chromium', 'firefox', 'webkit']),
+  body('environmentId').optional().isUUID().withMessage('environmentId must be a valid UUID'),
   body('headed').optional().isBoolean(),
   body('workers').optional().isInt({ min: 1, max: 10 })
 ];
 
-router.post('/clone', cloneRepoValidation, validateRequest, playwrightController.cloneRepository.bind(playwrightController));
-router.post('/run', runTestsValidation, validateRequest, playwrightController.runTests.bind(playwrightController));
-router.get('/report/:testRunId', playwrightController.getReport.bind(playwrightController));
+router.post('/clone', authenticateToken, requireRole('admin'), requireScope('admin'), cloneRepoValidation, validateRequest, playwrightController.cloneRepository.bind(playwrightController));
+router.post('/run', authenticateToken, requireRole('admin', 'user'), requireScope('run'), runTestsValidation, validateRequest, requireProjectRole('runner', projectBody('projectId')), playwrightController.runTests.bind(playwrightController));
+router.get('/report/:testRunId', authenticateToken, requireProjectRole('viewer', runParam('testRunId')), playwrightController.getReport.bind(playwrightController));
 
 export default router;
\ No newline at end of file
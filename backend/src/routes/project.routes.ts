@@ -1,21 +1,148 @@
 import { Router } from 'express';
 import projectController from '../controllers/project.controller';
+import quarantineController from '../controllers/quarantine.controller';
+import scheduleController from '../controllers/schedule.controller';
+import hookController from '../controllers/hook.controller';
+import environmentController from '../controllers/environment.controller';
+import credentialController from '../controllers/credential.controller';
+import projectMemberController from '../controllers/project-member.controller';
 import { body } from 'express-validator';
 import { validateRequest } from '../middleware/validate.middleware';
+import { PROJECT_ROLES } from '../services/project-member.service';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
+import { requireProjectRole } from '../middleware/project-access.middleware';
 
 const router = Router();
 
+// Repository URLs: http(s), ssh:// or git:// URLs, or scp-like SSH (git@github.com:org/repo.git)
+const isRepositoryUrl = (value: string) => {
+  if (/^[\w.-]+@[\w.-]+:[^\s]+$/.test(value)) {
+    return true;
+  }
+  try {
+    return ['http:', 'https:', 'ssh:', 'git:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Paths inside the repository: relative, and never climbing out of it
+const isRepositoryPath = (value: string) =>
+  !/^([\\/]|[A-Za-z]:)/.test(value) && !value.split(/[\\/]/).includes('..');
+
+const projectFieldValidation = [
+  body('description').optional().trim(),
+  body('base_url').optional({ values: 'falsy' }).isURL({ require_tld: false }).withMessage('Base URL must be a valid URL'),
+  body('repo_url').optional({ values: 'falsy' }).trim().custom(isRepositoryUrl).withMessage('Repository URL must be a valid Git URL'),
+  body('default_branch').optional({ values: 'falsy' }).trim().matches(/^[\w./-]+$/).withMessage('Invalid branch name'),
+  body('working_directory').optional({ values: 'falsy' }).trim().custom(isRepositoryPath)
+    .withMessage('Working directory must be a path inside the repository'),
+  body('playwright_config_path').optional({ values: 'falsy' }).trim().custom(isRepositoryPath)
+    .withMessage('Playwright config path must be a path inside the working directory'),
+  body('install_command').optional({ values: 'falsy' }).trim().isLength({ max: 500 }),
+  body('max_concurrent_runs').optional({ values: 'falsy' }).isInt({ min: 1, max: 32 }).toInt()
+    .withMessage('Concurrent runs must be between 1 and 32'),
+];
+
 // Validation rules
 const createProjectValidation = [
   body('name').trim().notEmpty().withMessage('Project name is required'),
-  body('description').optional().trim(),
-  body('base_url').optional().isURL().withMessage('Base URL must be a valid URL'),
+  ...projectFieldValidation,
 ];
 
 const updateProjectValidation = [
   body('name').optional().trim().notEmpty(),
-  body('description').optional().trim(),
-  body('base_url').optional().isURL(),
+  ...projectFieldValidation,
+];
+
+const saveCredentialValidation = [
+  body('type').isIn(['token', 'basic', 'ssh_key']).withMessage('type must be token, basic or ssh_key'),
+  body('username').if(body('type').equals('basic')).trim().notEmpty().withMessage('A username is required'),
+  body('username').optional().trim().isLength({ max: 255 }),
+  body('secret').isString().notEmpty().withMessage('A token, password or private key is required'),
+  body('secret').if(body('type').equals('ssh_key')).matches(/-----BEGIN [A-Z ]*PRIVATE KEY-----/)
+    .withMessage('The SSH key must be a private key in PEM or OpenSSH format'),
+];
+
+const addMemberValidation = [
+  body('identifier').trim().notEmpty().withMessage('A username or email is required'),
+  body('role').isIn(PROJECT_ROLES).withMessage(`role must be one of ${PROJECT_ROLES.join(', ')}`)
+];
+
+const updateMemberValidation = [
+  body('role').isIn(PROJECT_ROLES).withMessage(`role must be one of ${PROJECT_ROLES.join(', ')}`)
+];
+
+const createQuarantineValidation = [
+  body('test_case_id').optional().isUUID().withMessage('test_case_id must be a valid UUID'),
+  body('file_path').optional().trim().notEmpty(),
+  body('test_title').optional().trim().notEmpty(),
+  body('reason').trim().notEmpty().withMessage('A reason is required'),
+  body('owner').optional().trim(),
+  body('expires_at').optional({ nullable: true }).isISO8601().withMessage('expires_at must be an ISO 8601 date'),
+];
+
+const scheduleFieldValidation = [
+  body('timezone').optional().trim().notEmpty(),
+  body('browser').optional().isIn(['chromium', 'firefox', 'webkit']).withMessage('Browser must be chromium, firefox or webkit'),
+  body('workers').optional().isInt({ min: 1, max: 16 }).withMessage('Workers must be between 1 and 16').toInt(),
+  body('suite_id').optional({ values: 'falsy' }).isUUID().withMessage('suite_id must be a valid UUID'),
+  body('branch').optional({ values: 'falsy' }).trim().matches(/^[\w./-]+$/).withMessage('Invalid branch name'),
+  body('environment_id').optional({ values: 'falsy' }).isUUID().withMessage('environment_id must be a valid UUID'),
+  body('missed_run_policy').optional().isIn(['skip', 'catch_up']).withMessage('missed_run_policy must be skip or catch_up'),
+  body('enabled').optional().isBoolean().toBoolean(),
+];
+
+const createScheduleValidation = [
+  body('name').trim().notEmpty().withMessage('Schedule name is required'),
+  body('cron_expression').trim().notEmpty().withMessage('A cron expression is required'),
+  ...scheduleFieldValidation,
+];
+
+const updateScheduleValidation = [
+  body('name').optional().trim().notEmpty(),
+  body('cron_expression').optional().trim().notEmpty(),
+  ...scheduleFieldValidation,
+];
+
+// Variables and secrets are injected as environment variables, so their names must be valid ones
+const isEnvironmentMap = (allowNull: boolean) => (value: unknown) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Must be an object of NAME: value pairs');
+  }
+  for (const [name, entry] of Object.entries(value)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`'${name}' is not a valid environment variable name`);
+    }
+    if (typeof entry !== 'string' && !(allowNull && entry === null)) {
+      throw new Error(`The value of '${name}' must be a string`);
+    }
+  }
+  return true;
+};
+
+const environmentFieldValidation = [
+  body('description').optional({ values: 'null' }).trim(),
+  body('base_url').optional({ values: 'falsy' }).isURL({ require_tld: false }).withMessage('Base URL must be a valid URL'),
+  body('variables').optional().custom(isEnvironmentMap(false)),
+  body('secrets').optional().custom(isEnvironmentMap(true)),
+  body('is_default').optional().isBoolean().toBoolean(),
+];
+
+const createEnvironmentValidation = [
+  body('name').trim().notEmpty().withMessage('Environment name is required').isLength({ max: 50 }),
+  ...environmentFieldValidation,
+];
+
+const updateEnvironmentValidation = [
+  body('name').optional().trim().notEmpty().isLength({ max: 50 }),
+  ...environmentFieldValidation,
+];
+
+const updateQuarantineValidation = [
+  body('reason').optional().trim().notEmpty(),
+  body('owner').optional().trim(),
+  body('expires_at').optional({ nullable: true }).isISO8601().withMessage('expires_at must be an ISO 8601 date'),
 ];
 
 /**
@@ -23,7 +150,10 @@ const updateProjectValidation = [
  * /api/v1/projects:
  *   get:
  *     summary: Get all projects
+ *     description: Admins get every project; other users the projects they are a member of, with their member_role.
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: List of all projects
@@ -41,7 +171,7 @@ const updateProjectValidation = [
  *                 count:
  *                   type: integer
  */
-router.get('/', projectController.getAllProjects.bind(projectController));
+router.get('/', authenticateToken, projectController.getAllProjects.bind(projectController));
 
 /**
  * @swagger
@@ -49,6 +179,8 @@ router.get('/', projectController.getAllProjects.bind(projectController));
  *   get:
  *     summary: Get project by ID
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -71,7 +203,7 @@ router.get('/', projectController.getAllProjects.bind(projectController));
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.get('/:id', projectController.getProjectById.bind(projectController));
+router.get('/:id', authenticateToken, requireProjectRole('viewer'), projectController.getProjectById.bind(projectController));
 
 /**
  * @swagger
@@ -79,6 +211,8 @@ router.get('/:id', projectController.getProjectById.bind(projectController));
  *   get:
  *     summary: Get project statistics
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -90,14 +224,147 @@ router.get('/:id', projectController.getProjectById.bind(projectController));
  *       200:
  *         description: Project statistics
  */
-router.get('/:id/stats', projectController.getProjectStats.bind(projectController));
+router.get('/:id/stats', authenticateToken, requireProjectRole('viewer'), projectController.getProjectStats.bind(projectController));
 
 /**
  * @swagger
- * /api/v1/projects:
+ * /api/v1/projects/{id}/analytics:
+ *   get:
+ *     summary: Pass rate, duration and failure trends over time
+ *     description: |
+ *       Buckets the project's finished runs by day or week and returns pass rate, test counts and
+ *       p50/p95 run duration per bucket, plus the slowest and most failing tests over the period.
+ *       Flaky results don't count as passed.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week]
+ *           default: day
+ *       - in: query
+ *         name: days
+ *         description: How far back to look
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *           maximum: 365
+ *       - in: query
+ *         name: browser
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: branch
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         description: Number of slowest and most failing tests to return
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Project analytics
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/analytics', authenticateToken, requireProjectRole('viewer'), projectController.getProjectAnalytics.bind(projectController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/flaky-tests:
+ *   get:
+ *     summary: Rank flaky tests over the project's recent runs
+ *     description: |
+ *       A test is counted as flaky in a run when it passed only after a retry, or when its
+ *       result flipped between passed and failed on runs of the same commit.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: runs
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 200
+ *         description: Number of most recent finished runs to look at
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Flaky tests ordered by flake rate, with their status in each run
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/flaky-tests', authenticateToken, requireProjectRole('viewer'), projectController.getFlakyTests.bind(projectController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/quarantine:
+ *   get:
+ *     summary: List the project's quarantined tests
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeExpired
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Quarantined tests
+ */
+router.get('/:id/quarantine', authenticateToken, requireProjectRole('viewer'), quarantineController.getQuarantines.bind(quarantineController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/quarantine:
  *   post:
- *     summary: Create a new project
+ *     summary: Quarantine a test
+ *     description: |
+ *       Quarantined tests still run, but their failures are counted as quarantined
+ *       instead of failed and don't fail the run. Identify the test either by
+ *       test_case_id or by file_path and test_title.
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
  *     requestBody:
  *       required: true
  *       content:
@@ -105,43 +372,141 @@ router.get('/:id/stats', projectController.getProjectStats.bind(projectControlle
  *           schema:
  *             type: object
  *             required:
- *               - name
+ *               - reason
  *             properties:
- *               name:
+ *               test_case_id:
  *                 type: string
- *                 example: E-Commerce Test Suite
- *               description:
+ *                 format: uuid
+ *               file_path:
  *                 type: string
- *                 example: Automated tests for e-commerce platform
- *               base_url:
+ *                 example: tests/checkout.spec.ts
+ *               test_title:
  *                 type: string
- *                 format: uri
- *                 example: https://example.com
+ *                 example: applies discount code
+ *               reason:
+ *                 type: string
+ *                 example: Payment sandbox is down
+ *               owner:
+ *                 type: string
+ *                 example: jane
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
  *     responses:
  *       201:
- *         description: Project created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 message:
- *                   type: string
- *                 data:
- *                   $ref: '#/components/schemas/Project'
+ *         description: Test quarantined
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
  */
-router.post('/', createProjectValidation, validateRequest, projectController.createProject.bind(projectController));
+router.post('/:id/quarantine', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createQuarantineValidation, validateRequest, requireProjectRole('maintainer'), quarantineController.createQuarantine.bind(quarantineController));
 
 /**
  * @swagger
- * /api/v1/projects/{id}:
+ * /api/v1/projects/{id}/quarantine/{quarantineId}:
  *   put:
- *     summary: Update a project
+ *     summary: Update a quarantine's reason, owner or expiry
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: quarantineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               owner:
+ *                 type: string
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Quarantine updated
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id/quarantine/:quarantineId', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateQuarantineValidation, validateRequest, requireProjectRole('maintainer'), quarantineController.updateQuarantine.bind(quarantineController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/quarantine/{quarantineId}:
+ *   delete:
+ *     summary: Release a test from quarantine
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: quarantineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Test released from quarantine
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/quarantine/:quarantineId', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer'), quarantineController.deleteQuarantine.bind(quarantineController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/schedules:
+ *   get:
+ *     summary: List the project's scheduled runs
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Schedules with their next and last run
+ */
+router.get('/:id/schedules', authenticateToken, requireProjectRole('viewer'), scheduleController.getSchedules.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/schedules:
+ *   post:
+ *     summary: Schedule recurring test runs for a project
+ *     description: |
+ *       Runs are queued like a manual project run when the cron expression fires in the
+ *       given time zone. Runs that came due while the server was down are either run once
+ *       on startup (catch_up) or dropped (skip).
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -150,25 +515,702 @@ router.post('/', createProjectValidation, validateRequest, projectController.cre
  *           type: string
  *           format: uuid
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required:
+ *               - name
+ *               - cron_expression
  *             properties:
  *               name:
  *                 type: string
- *               description:
+ *                 example: Nightly regression
+ *               cron_expression:
  *                 type: string
- *               base_url:
+ *                 example: 0 7 * * 1-5
+ *               timezone:
  *                 type: string
- *                 format: uri
+ *                 example: Europe/Berlin
+ *                 default: UTC
+ *               browser:
+ *                 type: string
+ *                 enum: [chromium, firefox, webkit]
+ *               workers:
+ *                 type: integer
+ *                 default: 1
+ *               suite_id:
+ *                 type: string
+ *                 format: uuid
+ *               branch:
+ *                 type: string
+ *                 example: develop
+ *               environment_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Environment to run against; the project's default when omitted
+ *               missed_run_policy:
+ *                 type: string
+ *                 enum: [skip, catch_up]
+ *                 default: skip
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Schedule created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/schedules', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createScheduleValidation, validateRequest, requireProjectRole('maintainer'), scheduleController.createSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/schedules/{scheduleId}:
+ *   put:
+ *     summary: Update a schedule
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id/schedules/:scheduleId', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateScheduleValidation, validateRequest, requireProjectRole('maintainer'), scheduleController.updateSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/schedules/{scheduleId}:
+ *   delete:
+ *     summary: Delete a schedule
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Schedule deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/schedules/:scheduleId', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer'), scheduleController.deleteSchedule.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/environments:
+ *   get:
+ *     summary: List the project's environments
+ *     description: Secret values are never returned, only their names (secret_keys).
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Environments, default first
+ */
+router.get('/:id/environments', authenticateToken, requireProjectRole('viewer'), environmentController.getEnvironments.bind(environmentController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/environments:
+ *   post:
+ *     summary: Create an environment (staging, QA, ...) to run the project's tests against
+ *     description: |
+ *       The selected environment's variables and secrets are passed to Playwright as environment
+ *       variables, with the base URL as BASE_URL and the name as TEST_ENVIRONMENT. Secrets are
+ *       encrypted with the server key (SECRETS_ENCRYPTION_KEY) and masked in stored and streamed output.
+ *       The first environment of a project becomes its default, used when a run doesn't pick one.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: staging
+ *               description:
+ *                 type: string
+ *               base_url:
+ *                 type: string
+ *                 example: https://staging.example.com
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { LOCALE: en-GB }
+ *               secrets:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: { ADMIN_PASSWORD: s3cret }
+ *               is_default:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Environment created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: An environment with this name already exists
+ *       503:
+ *         description: Secrets were given but no encryption key is configured
+ */
+router.post('/:id/environments', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createEnvironmentValidation, validateRequest, requireProjectRole('maintainer'), environmentController.createEnvironment.bind(environmentController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/environments/{environmentId}:
+ *   put:
+ *     summary: Update an environment
+ *     description: |
+ *       `variables` replaces all variables. `secrets` only changes the secrets it names:
+ *       a string sets (or replaces) one, null removes it.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Environment updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id/environments/:environmentId', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateEnvironmentValidation, validateRequest, requireProjectRole('maintainer'), environmentController.updateEnvironment.bind(environmentController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/environments/{environmentId}:
+ *   delete:
+ *     summary: Delete an environment
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: environmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Environment deleted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/environments/:environmentId', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer'), environmentController.deleteEnvironment.bind(environmentController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/credentials:
+ *   get:
+ *     summary: Get the project's repository credential
+ *     description: Returns the credential's type and user name, or null if none is stored. The secret is never returned.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Repository credential retrieved
+ */
+router.get('/:id/credentials', authenticateToken, requireProjectRole('viewer'), credentialController.getCredential.bind(credentialController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/credentials:
+ *   put:
+ *     summary: Set the project's repository credential
+ *     description: |
+ *       Stores an HTTPS token, a username and password, or an SSH deploy key, encrypted at rest.
+ *       It replaces any existing credential and is used for every clone, pull and fetch of the repository.
+ *       Requires SECRETS_ENCRYPTION_KEY on the server.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, secret]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [token, basic, ssh_key]
+ *               username:
+ *                 type: string
+ *                 description: Required for basic; optional for token (defaults to x-access-token)
+ *               secret:
+ *                 type: string
+ *                 description: The token, password or private key
+ *     responses:
+ *       200:
+ *         description: Repository credential saved
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       503:
+ *         description: No encryption key is configured on the server
+ */
+router.put('/:id/credentials', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), saveCredentialValidation, validateRequest, requireProjectRole('maintainer'), credentialController.saveCredential.bind(credentialController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/credentials:
+ *   delete:
+ *     summary: Remove the project's repository credential
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Repository credential removed
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/credentials', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer'), credentialController.deleteCredential.bind(credentialController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/members:
+ *   get:
+ *     summary: List the project's members and their roles
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Project members, owners first
+ */
+router.get('/:id/members', authenticateToken, requireProjectRole('viewer'), projectMemberController.getMembers.bind(projectMemberController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/members:
+ *   post:
+ *     summary: Add a user to the project
+ *     description: |
+ *       Roles, from most to least access: owner (manages members and deletes the project), maintainer (edits
+ *       tests, schedules, environments and settings), runner (starts and cancels runs), viewer (read only).
+ *       The user's global role still applies, so a global viewer can only read.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [identifier, role]
+ *             properties:
+ *               identifier:
+ *                 type: string
+ *                 description: Username or email of an existing user
+ *               role:
+ *                 type: string
+ *                 enum: [owner, maintainer, runner, viewer]
+ *     responses:
+ *       201:
+ *         description: Member added
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The user is already a member
+ */
+router.post('/:id/members', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), addMemberValidation, validateRequest, requireProjectRole('owner'), projectMemberController.addMember.bind(projectMemberController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [owner, maintainer, runner, viewer]
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *       400:
+ *         description: Validation error, or the change would leave the project without an owner
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id/members/:userId', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateMemberValidation, validateRequest, requireProjectRole('owner'), projectMemberController.updateMember.bind(projectMemberController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from the project
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       400:
+ *         description: The member is the project's last owner
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/members/:userId', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), requireProjectRole('owner'), projectMemberController.removeMember.bind(projectMemberController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/webhook:
+ *   get:
+ *     summary: Get the project's webhook URL and whether it is enabled
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook setup
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/webhook', authenticateToken, requireProjectRole('viewer'), hookController.getWebhook.bind(hookController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/webhook/secret:
+ *   post:
+ *     summary: Generate or rotate the project's webhook secret
+ *     description: The new secret is only returned in this response; the previous secret stops working immediately.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook secret and URL
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/webhook/secret', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), requireProjectRole('maintainer'), hookController.rotateSecret.bind(hookController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}/webhook:
+ *   delete:
+ *     summary: Disable the project's webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook disabled
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/webhook', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer'), hookController.deleteWebhook.bind(hookController));
+
+/**
+ * @swagger
+ * /api/v1/projects:
+ *   post:
+ *     summary: Create a new project
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: E-Commerce Test Suite
+ *               description:
+ *                 type: string
+ *                 example: Automated tests for e-commerce platform
+ *               base_url:
+ *                 type: string
+ *                 format: uri
+ *                 description: URL of the application under test
+ *                 example: https://example.com
+ *               repo_url:
+ *                 type: string
+ *                 description: HTTPS or SSH Git URL. Credentials embedded in an HTTPS URL are moved to the project's credential store. Admins only.
+ *                 example: https://github.com/org/repo.git
+ *               default_branch:
+ *                 type: string
+ *                 example: main
+ *               working_directory:
+ *                 type: string
+ *                 description: Subdirectory of the repository that discovery, installs and runs use (for monorepos)
+ *                 example: packages/e2e
+ *               playwright_config_path:
+ *                 type: string
+ *                 description: Playwright config relative to the working directory; found automatically when empty
+ *                 example: playwright.config.ts
+ *               install_command:
+ *                 type: string
+ *                 description: Run in the working directory after clone and pull; defaults to npm install. Admins only.
+ *                 example: npm ci
+ *               max_concurrent_runs:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Runs of this project executed at once; the server's RUN_QUEUE_PROJECT_CONCURRENCY when empty
+ *                 example: 2
+ *     responses:
+ *       201:
+ *         description: Project created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Project'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Only admins can set the repository URL or install command
+ */
+router.post('/', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createProjectValidation, validateRequest, projectController.createProject.bind(projectController));
+
+/**
+ * @swagger
+ * /api/v1/projects/{id}:
+ *   put:
+ *     summary: Update a project
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               base_url:
+ *                 type: string
+ *                 format: uri
+ *               repo_url:
+ *                 type: string
+ *                 description: HTTPS or SSH Git URL. Credentials embedded in an HTTPS URL are moved to the project's credential store. Admins only.
+ *                 example: https://github.com/org/repo.git
+ *               default_branch:
+ *                 type: string
+ *                 example: main
+ *               working_directory:
+ *                 type: string
+ *                 description: Subdirectory of the repository that discovery, installs and runs use (for monorepos)
+ *                 example: packages/e2e
+ *               playwright_config_path:
+ *                 type: string
+ *                 description: Playwright config relative to the working directory; found automatically when empty
+ *                 example: playwright.config.ts
+ *               install_command:
+ *                 type: string
+ *                 description: Run in the working directory after clone and pull; defaults to npm install. Admins only.
+ *                 example: npm ci
+ *               max_concurrent_runs:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Runs of this project executed at once; the server's RUN_QUEUE_PROJECT_CONCURRENCY when empty
+ *                 example: 2
  *     responses:
  *       200:
  *         description: Project updated successfully
+ *       403:
+ *         description: Only admins can change the repository URL or install command; saving them as an admin approves them for webhooks
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.put('/:id', updateProjectValidation, validateRequest, projectController.updateProject.bind(projectController));
+router.put('/:id', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateProjectValidation, validateRequest, requireProjectRole('maintainer'), projectController.updateProject.bind(projectController));
 
 /**
  * @swagger
@@ -176,6 +1218,8 @@ router.put('/:id', updateProjectValidation, validateRequest, projectController.u
  *   delete:
  *     summary: Delete a project
  *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -189,6 +1233,6 @@ router.put('/:id', updateProjectValidation, validateRequest, projectController.u
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.delete('/:id', projectController.deleteProject.bind(projectController));
+router.delete('/:id', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('owner'), projectController.deleteProject.bind(projectController));
 
 export default router;
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import testDiscoveryController from '../controllers/test-discovery.controller';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
+import { requireProjectRole, projectParam } from '../middleware/project-access.middleware';
 
 const router = Router();
 
@@ -10,6 +12,8 @@ const router = Router();
  *     summary: Scan project directory and sync tests to database
  *     description: Automatically discovers test files (.spec.ts, .test.ts) in the project directory and creates test suites and test cases in the database
  *     tags: [Test Discovery]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -42,7 +46,7 @@ const router = Router();
  *       404:
  *         description: Project not found
  */
-router.post('/project/:projectId/sync', testDiscoveryController.syncProjectTests.bind(testDiscoveryController));
+router.post('/project/:projectId/sync', authenticateToken, requireRole('admin', 'user'), requireScope('run'), requireProjectRole('runner', projectParam('projectId')), testDiscoveryController.syncProjectTests.bind(testDiscoveryController));
 
 /**
  * @swagger
@@ -51,6 +55,8 @@ router.post('/project/:projectId/sync', testDiscoveryController.syncProjectTests
  *     summary: Get list of test files in project directory
  *     description: Discovers all test files (.spec.ts, .test.ts, etc.) in the project directory
  *     tags: [Test Discovery]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -64,7 +70,7 @@ router.post('/project/:projectId/sync', testDiscoveryController.syncProjectTests
  *       404:
  *         description: Project not found
  */
-router.get('/project/:projectId/files', testDiscoveryController.getProjectTestFiles.bind(testDiscoveryController));
+router.get('/project/:projectId/files', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), testDiscoveryController.getProjectTestFiles.bind(testDiscoveryController));
 
 /**
  * @swagger
@@ -73,6 +79,8 @@ router.get('/project/:projectId/files', testDiscoveryController.getProjectTestFi
  *     summary: Get test statistics for a project
  *     description: Returns counts of test suites, test cases, and test files
  *     tags: [Test Discovery]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -86,7 +94,7 @@ router.get('/project/:projectId/files', testDiscoveryController.getProjectTestFi
  *       404:
  *         description: Project not found
  */
-router.get('/project/:projectId/stats', testDiscoveryController.getProjectTestStats.bind(testDiscoveryController));
+router.get('/project/:projectId/stats', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), testDiscoveryController.getProjectTestStats.bind(testDiscoveryController));
 
 /**
  * @swagger
@@ -95,6 +103,8 @@ router.get('/project/:projectId/stats', testDiscoveryController.getProjectTestSt
  *     summary: Parse a specific test file
  *     description: Parse a test file to extract test suites and test cases without saving to database
  *     tags: [Test Discovery]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -121,6 +131,6 @@ router.get('/project/:projectId/stats', testDiscoveryController.getProjectTestSt
  *       404:
  *         description: Project not found
  */
-router.post('/project/:projectId/parse', testDiscoveryController.parseTestFile.bind(testDiscoveryController));
+router.post('/project/:projectId/parse', authenticateToken, requireRole('admin', 'user'), requireScope('run'), requireProjectRole('runner', projectParam('projectId')), testDiscoveryController.parseTestFile.bind(testDiscoveryController));
 
 export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import testController from '../controllers/test.controller';
 import { body } from 'express-validator';
 import { validateRequest } from '../middleware/validate.middleware';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
+import { requireProjectRole, projectParam, projectBody, suiteParam, suiteBody, testCaseParam } from '../middleware/project-access.middleware';
 
 const router = Router();
 
@@ -46,6 +48,8 @@ const updateTestCaseValidation = [
  *   get:
  *     summary: Get all test suites for a project
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: projectId
@@ -57,7 +61,7 @@ const updateTestCaseValidation = [
  *       200:
  *         description: List of test suites
  */
-router.get('/projects/:projectId/suites', testController.getProjectTestSuites.bind(testController));
+router.get('/projects/:projectId/suites', authenticateToken, requireProjectRole('viewer', projectParam('projectId')), testController.getProjectTestSuites.bind(testController));
 
 /**
  * @swagger
@@ -65,6 +69,8 @@ router.get('/projects/:projectId/suites', testController.getProjectTestSuites.bi
  *   get:
  *     summary: Get test suite by ID
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -78,7 +84,7 @@ router.get('/projects/:projectId/suites', testController.getProjectTestSuites.bi
  *       404:
  *         description: Test suite not found
  */
-router.get('/suites/:id', testController.getTestSuiteById.bind(testController));
+router.get('/suites/:id', authenticateToken, requireProjectRole('viewer', suiteParam('id')), testController.getTestSuiteById.bind(testController));
 
 /**
  * @swagger
@@ -86,6 +92,8 @@ router.get('/suites/:id', testController.getTestSuiteById.bind(testController));
  *   post:
  *     summary: Create a new test suite
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -109,7 +117,7 @@ router.get('/suites/:id', testController.getTestSuiteById.bind(testController));
  *       201:
  *         description: Test suite created successfully
  */
-router.post('/suites', createTestSuiteValidation, validateRequest, testController.createTestSuite.bind(testController));
+router.post('/suites', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createTestSuiteValidation, validateRequest, requireProjectRole('maintainer', projectBody('project_id')), testController.createTestSuite.bind(testController));
 
 /**
  * @swagger
@@ -117,6 +125,8 @@ router.post('/suites', createTestSuiteValidation, validateRequest, testControlle
  *   put:
  *     summary: Update a test suite
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -143,7 +153,7 @@ router.post('/suites', createTestSuiteValidation, validateRequest, testControlle
  *       404:
  *         description: Test suite not found
  */
-router.put('/suites/:id', updateTestSuiteValidation, validateRequest, testController.updateTestSuite.bind(testController));
+router.put('/suites/:id', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateTestSuiteValidation, validateRequest, requireProjectRole('maintainer', suiteParam('id')), testController.updateTestSuite.bind(testController));
 
 /**
  * @swagger
@@ -151,6 +161,8 @@ router.put('/suites/:id', updateTestSuiteValidation, validateRequest, testContro
  *   delete:
  *     summary: Delete a test suite
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -164,7 +176,7 @@ router.put('/suites/:id', updateTestSuiteValidation, validateRequest, testContro
  *       404:
  *         description: Test suite not found
  */
-router.delete('/suites/:id', testController.deleteTestSuite.bind(testController));
+router.delete('/suites/:id', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer', suiteParam('id')), testController.deleteTestSuite.bind(testController));
 
 /**
  * @swagger
@@ -172,6 +184,8 @@ router.delete('/suites/:id', testController.deleteTestSuite.bind(testController)
  *   get:
  *     summary: Get all test cases in a suite
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: suiteId
@@ -183,7 +197,7 @@ router.delete('/suites/:id', testController.deleteTestSuite.bind(testController)
  *       200:
  *         description: List of test cases
  */
-router.get('/suites/:suiteId/cases', testController.getSuiteTestCases.bind(testController));
+router.get('/suites/:suiteId/cases', authenticateToken, requireProjectRole('viewer', suiteParam('suiteId')), testController.getSuiteTestCases.bind(testController));
 
 /**
  * @swagger
@@ -191,6 +205,8 @@ router.get('/suites/:suiteId/cases', testController.getSuiteTestCases.bind(testC
  *   get:
  *     summary: Get test case by ID
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -204,7 +220,7 @@ router.get('/suites/:suiteId/cases', testController.getSuiteTestCases.bind(testC
  *       404:
  *         description: Test case not found
  */
-router.get('/cases/:id', testController.getTestCaseById.bind(testController));
+router.get('/cases/:id', authenticateToken, requireProjectRole('viewer', testCaseParam('id')), testController.getTestCaseById.bind(testController));
 
 /**
  * @swagger
@@ -212,6 +228,8 @@ router.get('/cases/:id', testController.getTestCaseById.bind(testController));
  *   post:
  *     summary: Create a new test case
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -250,7 +268,7 @@ router.get('/cases/:id', testController.getTestCaseById.bind(testController));
  *       201:
  *         description: Test case created successfully
  */
-router.post('/cases', createTestCaseValidation, validateRequest, testController.createTestCase.bind(testController));
+router.post('/cases', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), createTestCaseValidation, validateRequest, requireProjectRole('maintainer', suiteBody('suite_id')), testController.createTestCase.bind(testController));
 
 /**
  * @swagger
@@ -258,6 +276,8 @@ router.post('/cases', createTestCaseValidation, validateRequest, testController.
  *   put:
  *     summary: Update a test case
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -295,7 +315,7 @@ router.post('/cases', createTestCaseValidation, validateRequest, testController.
  *       404:
  *         description: Test case not found
  */
-router.put('/cases/:id', updateTestCaseValidation, validateRequest, testController.updateTestCase.bind(testController));
+router.put('/cases/:id', authenticateToken, requireRole('admin', 'user'), requireScope('admin'), updateTestCaseValidation, validateRequest, requireProjectRole('maintainer', testCaseParam('id')), testController.updateTestCase.bind(testController));
 
 /**
  * @swagger
@@ -303,6 +323,8 @@ router.put('/cases/:id', updateTestCaseValidation, validateRequest, testControll
  *   delete:
  *     summary: Delete a test case
  *     tags: [Tests]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -316,6 +338,6 @@ router.put('/cases/:id', updateTestCaseValidation, validateRequest, testControll
  *       404:
  *         description: Test case not found
  */
-router.delete('/cases/:id', testController.deleteTestCase.bind(testController));
+router.delete('/cases/:id', authenticateToken, requireRole('admin'), requireScope('admin'), requireProjectRole('maintainer', testCaseParam('id')), testController.deleteTestCase.bind(testController));
 
 export default router;
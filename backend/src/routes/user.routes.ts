@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import userController from '../controllers/user.controller';
+import apiTokenController from '../controllers/api-token.controller';
 import { body } from 'express-validator';
 import { validateRequest } from '../middleware/validate.middleware';
-import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { API_TOKEN_SCOPES } from '../services/api-token.service';
+import { authenticateToken, requireRole, requireScope } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -28,6 +30,17 @@ const updateUserValidation = [
   body('is_active').optional().isBoolean(),
 ];
 
+const createApiTokenValidation = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+  body('scope').isIn(API_TOKEN_SCOPES).withMessage(`scope must be one of ${API_TOKEN_SCOPES.join(', ')}`),
+  body('expires_at').optional({ values: 'falsy' }).isISO8601().withMessage('expires_at must be a date')
+    .custom((value) => new Date(value) > new Date()).withMessage('expires_at must be in the future'),
+];
+
+const refreshTokenValidation = [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'),
+];
+
 const changePasswordValidation = [
   body('currentPassword').notEmpty().withMessage('Current password is required'),
   body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters'),
@@ -107,6 +120,56 @@ router.post('/register', registerValidation, validateRequest, userController.reg
  */
 router.post('/login', loginValidation, validateRequest, userController.login.bind(userController));
 
+/**
+ * @swagger
+ * /api/v1/users/refresh:
+ *   post:
+ *     summary: Get a new access token with a refresh token
+ *     description: |
+ *       Access tokens are short-lived (JWT_EXPIRES_IN). The refresh token from login is exchanged for a new access
+ *       token and a new refresh token; the old refresh token stops working.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New access token and refresh token
+ *       401:
+ *         description: The session has expired or been revoked
+ */
+router.post('/refresh', refreshTokenValidation, validateRequest, userController.refreshSession.bind(userController));
+
+/**
+ * @swagger
+ * /api/v1/users/logout:
+ *   post:
+ *     summary: Logout
+ *     description: Revokes the session the refresh token belongs to. Its access token stops working immediately.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged out
+ */
+router.post('/logout', refreshTokenValidation, validateRequest, userController.logout.bind(userController));
+
 /**
  * @swagger
  * /api/v1/users/me:
@@ -149,7 +212,83 @@ router.get('/me', authenticateToken, userController.getCurrentUser.bind(userCont
  *       409:
  *         description: Username or email already exists
  */
-router.put('/me', authenticateToken, updateUserValidation, validateRequest, userController.updateCurrentUserProfile.bind(userController));
+router.put('/me', authenticateToken, requireScope('admin'), updateUserValidation, validateRequest, userController.updateCurrentUserProfile.bind(userController));
+
+/**
+ * @swagger
+ * /api/v1/users/me/tokens:
+ *   get:
+ *     summary: List the current user's API tokens
+ *     description: Returns each token's name, prefix, scope, expiry and last use. The tokens themselves are never returned.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API tokens, newest first
+ */
+router.get('/me/tokens', authenticateToken, apiTokenController.getTokens.bind(apiTokenController));
+
+/**
+ * @swagger
+ * /api/v1/users/me/tokens:
+ *   post:
+ *     summary: Create a personal API token
+ *     description: |
+ *       The token (starting with trp_) is returned once, in this response. Send it as a bearer token like a
+ *       login token. Scopes: read (GET requests), run (also start and cancel runs), admin (everything the user
+ *       can do). A token never has more access than its user.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, scope]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: GitHub Actions
+ *               scope:
+ *                 type: string
+ *                 enum: [read, run, admin]
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Never expires when not set
+ *     responses:
+ *       201:
+ *         description: API token created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/me/tokens', authenticateToken, requireScope('admin'), createApiTokenValidation, validateRequest, apiTokenController.createToken.bind(apiTokenController));
+
+/**
+ * @swagger
+ * /api/v1/users/me/tokens/{tokenId}:
+ *   delete:
+ *     summary: Revoke one of the current user's API tokens
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: API token revoked
+ *       404:
+ *         description: API token not found or already revoked
+ */
+router.delete('/me/tokens/:tokenId', authenticateToken, requireScope('admin'), apiTokenController.revokeToken.bind(apiTokenController));
 
 /**
  * @swagger
@@ -167,6 +306,46 @@ router.put('/me', authenticateToken, updateUserValidation, validateRequest, user
  */
 router.get('/', authenticateToken, requireRole('admin'), userController.getAllUsers.bind(userController));
 
+/**
+ * @swagger
+ * /api/v1/users/sessions:
+ *   get:
+ *     summary: Get all active login sessions (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/sessions', authenticateToken, requireRole('admin'), userController.getSessions.bind(userController));
+
+/**
+ * @swagger
+ * /api/v1/users/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a login session (Admin only)
+ *     description: The session's access and refresh tokens stop working immediately.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found or already revoked
+ */
+router.delete('/sessions/:sessionId', authenticateToken, requireRole('admin'), requireScope('admin'), userController.revokeSession.bind(userController));
+
 /**
  * @swagger
  * /api/v1/users/{id}:
@@ -228,7 +407,7 @@ router.get('/:id', authenticateToken, userController.getUserById.bind(userContro
  *       404:
  *         description: User not found
  */
-router.put('/:id', authenticateToken, requireRole('admin'), updateUserValidation, validateRequest, userController.updateUser.bind(userController));
+router.put('/:id', authenticateToken, requireRole('admin'), requireScope('admin'), updateUserValidation, validateRequest, userController.updateUser.bind(userController));
 
 /**
  * @swagger
@@ -251,7 +430,7 @@ router.put('/:id', authenticateToken, requireRole('admin'), updateUserValidation
  *       404:
  *         description: User not found
  */
-router.delete('/:id', authenticateToken, requireRole('admin'), userController.deleteUser.bind(userController));
+router.delete('/:id', authenticateToken, requireRole('admin'), requireScope('admin'), userController.deleteUser.bind(userController));
 
 /**
  * @swagger
@@ -290,6 +469,6 @@ router.delete('/:id', authenticateToken, requireRole('admin'), userController.de
  *       401:
  *         description: Current password is incorrect
  */
-router.post('/:id/change-password', authenticateToken, changePasswordValidation, validateRequest, userController.changePassword.bind(userController));
+router.post('/:id/change-password', authenticateToken, requireScope('admin'), changePasswordValidation, validateRequest, userController.changePassword.bind(userController));
 
 export default router;
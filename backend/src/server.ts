@@ -1,5 +1,7 @@
 import App from './app';
 import logger from './config/logger';
+import runQueueService from './services/run-queue.service';
+import schedulerService from './services/scheduler.service';
 
 const app = new App();
 
@@ -24,6 +26,8 @@ process.on('uncaughtException', (error: Error) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  schedulerService.stop();
+  runQueueService.stop();
   const server = app.getServer();
   server.close(() => {
     logger.info('Server closed');
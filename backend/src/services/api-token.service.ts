@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import pool from '../config/database';
+import { ApiToken, ApiTokenScope, CreateApiTokenDTO } from '../models/types';
+
+// Marks a bearer token as an API token rather than a JWT (and makes leaked tokens easy to scan for)
+export const API_TOKEN_PREFIX = 'trp_';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'run', 'admin'];
+
+// Token fields that are safe to return: never the hash
+const TOKEN_COLUMNS = 'id, user_id, name, token_prefix, scope, expires_at, last_used_at, revoked_at, created_at';
+
+// The user an API token acts as, with the token's scope
+export interface ApiTokenUser {
+  userId: string;
+  username: string;
+  role: string;
+  scope: ApiTokenScope;
+}
+
+class ApiTokenService {
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Whether a scope allows what the required scope allows
+   */
+  satisfies(scope: ApiTokenScope, required: ApiTokenScope): boolean {
+    return API_TOKEN_SCOPES.indexOf(scope) >= API_TOKEN_SCOPES.indexOf(required);
+  }
+
+  /**
+   * Create a token for a user. The plain token is returned only here.
+   */
+  async create(userId: string, { name, scope, expires_at }: CreateApiTokenDTO): Promise<{ token: string; apiToken: Omit<ApiToken, 'token_hash'> }> {
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const result = await pool.query(
+      `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scope, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${TOKEN_COLUMNS}`,
+      [userId, name, this.hash(token), token.slice(0, 12), scope, expires_at || null]
+    );
+
+    return { token, apiToken: result.rows[0] };
+  }
+
+  /**
+   * A user's tokens, newest first
+   */
+  async list(userId: string): Promise<Omit<ApiToken, 'token_hash'>[]> {
+    const result = await pool.query(
+      `SELECT ${TOKEN_COLUMNS} FROM api_tokens WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Revoke one of a user's tokens; false if they have no such active token
+   */
+  async revoke(userId: string, tokenId: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE api_tokens SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [tokenId, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * The user behind a valid token (not revoked or expired, user still active), recording its use.
+   * Null for anything else.
+   */
+  async authenticate(token: string): Promise<ApiTokenUser | null> {
+    const result = await pool.query(
+      `UPDATE api_tokens t SET last_used_at = CURRENT_TIMESTAMP
+       FROM users u
+       WHERE t.token_hash = $1
+         AND t.user_id = u.id
+         AND t.revoked_at IS NULL
+         AND (t.expires_at IS NULL OR t.expires_at > CURRENT_TIMESTAMP)
+         AND u.is_active = true
+       RETURNING u.id, u.username, u.role, t.scope`,
+      [this.hash(token)]
+    );
+
+    const row = result.rows[0];
+    return row ? { userId: row.id, username: row.username, role: row.role, scope: row.scope } : null;
+  }
+}
+
+export default new ApiTokenService();
@@ -0,0 +1,84 @@
+import pool from '../config/database';
+import secretService from './secret.service';
+import { ProjectEnvironment } from '../models/types';
+
+// What a run needs from its environment: the variables to inject and the values to mask
+export interface RunEnvironment {
+  id: string;
+  name: string;
+  env: Record<string, string>;
+  secretValues: string[];
+}
+
+class EnvironmentService {
+  /**
+   * The environment a run of the project should use: the requested one, or the project's default.
+   * Throws if the requested environment doesn't belong to the project.
+   */
+  async resolve(projectId: string, environmentId?: string | null): Promise<ProjectEnvironment | null> {
+    if (environmentId) {
+      const result = await pool.query(
+        'SELECT * FROM project_environments WHERE id = $1 AND project_id = $2',
+        [environmentId, projectId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Environment not found for this project');
+      }
+
+      return result.rows[0];
+    }
+
+    const defaultResult = await pool.query(
+      'SELECT * FROM project_environments WHERE project_id = $1 AND is_default',
+      [projectId]
+    );
+
+    return defaultResult.rows[0] || null;
+  }
+
+  /**
+   * Load an environment with its secrets decrypted, ready to be passed to Playwright.
+   * BASE_URL comes from the environment's base URL unless a variable sets it explicitly.
+   */
+  async getRunEnvironment(environmentId: string): Promise<RunEnvironment | null> {
+    const result = await pool.query(
+      'SELECT * FROM project_environments WHERE id = $1',
+      [environmentId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const environment: ProjectEnvironment = result.rows[0];
+    const secrets: Record<string, string> = {};
+    for (const [name, encrypted] of Object.entries(environment.secrets || {})) {
+      secrets[name] = secretService.decrypt(encrypted);
+    }
+
+    return {
+      id: environment.id,
+      name: environment.name,
+      env: {
+        TEST_ENVIRONMENT: environment.name,
+        ...(environment.base_url ? { BASE_URL: environment.base_url } : {}),
+        ...environment.variables,
+        ...secrets
+      },
+      secretValues: Object.values(secrets)
+    };
+  }
+
+  /**
+   * API representation of an environment: secret names only, never their values
+   */
+  toResponse({ secrets, ...environment }: ProjectEnvironment) {
+    return {
+      ...environment,
+      secret_keys: Object.keys(secrets || {}).sort()
+    };
+  }
+}
+
+export default new EnvironmentService();
@@ -1,36 +1,108 @@
-import { exec } from 'child_process';
+import { exec, execFile, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import logger from '../config/logger';
 import pool from '../config/database';
+import runEventsService from './run-events.service';
+import quarantineService from './quarantine.service';
+import gitService from './git.service';
+import environmentService from './environment.service';
+import secretService from './secret.service';
+import reportAccessService from './report-access.service';
+import credentialService, { GitAuth } from './credential.service';
+import { devices } from 'playwright';
+import { LIVE_EVENT_PREFIX } from '../reporters/live-reporter';
+import type { JSONReport, JSONReportSuite } from '@playwright/test/reporter';
 
 const execAsync = promisify(exec);
+// Git is run without a shell so branch names and URLs are passed as plain arguments
+const execFileAsync = promisify(execFile);
 
-interface PlaywrightConfig {
+export interface PlaywrightConfig {
   projectId: string;
   suiteId?: string;
+  testCaseIds?: string[];
   browser?: 'chromium' | 'firefox' | 'webkit';
+  // Playwright projects to run side by side in one run (overrides browser), e.g. ['chromium', 'firefox']
+  browsers?: string[];
+  // Device profiles from Playwright's registry (e.g. 'iPhone 13'), each run as its own project
+  devices?: string[];
   headed?: boolean;
   workers?: number;
+  // Branch to check out before running (defaults to whatever is checked out)
+  branch?: string;
+  // Commit to check out after the branch, e.g. the one a webhook push reported
+  commitSha?: string;
+  triggerSource?: 'manual' | 'schedule' | 'webhook';
+  scheduleId?: string;
+  // Environment profile to run against (defaults to the project's default environment)
+  environmentId?: string;
+  // User who started the run (none for schedules and webhooks)
+  triggeredBy?: string;
 }
 
-interface TestResult {
+export interface TestResult {
   projectId: string;
   suiteId?: string;
   runName: string;
-  status: 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   totalTests: number;
   passedTests: number;
   failedTests: number;
   skippedTests: number;
+  flakyTests: number;
+  quarantinedTests: number;
   duration: number;
   reportPath?: string;
 }
 
+interface RunTotals {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  flaky: number;
+}
+
+interface TestSelection {
+  testCaseIds: string[];
+  targets: string[];
+  grep: string | null;
+}
+
+interface DetailedTestResults {
+  suites: Map<string, any>;
+  cases: any[];
+  files: Set<string>;
+  totalDuration: number;
+  flakyTests: number;
+}
+
+// Playwright's desktop device profile for each browser engine
+const BROWSER_DEVICES: Record<string, string> = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari'
+};
+
+// Written next to the project's own config for multi-browser runs, and removed afterwards
+const MATRIX_CONFIG_FILE = 'playwright.testrunner-matrix.config.ts';
+
+// Report files that secrets can be masked in rather than removed
+const TEXT_REPORT_FILE = /\.(json|txt|md|log|html|csv|xml)$/i;
+
 class PlaywrightService {
   private readonly projectsDir = path.join(__dirname, '../../test-projects');
-  private readonly reportsDir = path.join(__dirname, '../../public/reports');
+  // One directory per running test run, removed when it finishes
+  private readonly workspacesDir = path.join(__dirname, '../../test-workspaces');
+  // Reports hold raw test output, traces and attachments, so they are kept out of public/ and only served through signed URLs
+  private readonly reportsDir = path.join(__dirname, '../../reports');
+  // Playwright processes currently running, keyed by test run ID
+  private readonly activeProcesses = new Map<string, ChildProcess>();
+  // Runs asked to stop; checked when Playwright starts and when results are saved
+  private readonly cancelledRuns = new Set<string>();
 
   constructor() {
     this.ensureDirectories();
@@ -42,6 +114,7 @@ class PlaywrightService {
   private async ensureDirectories(): Promise<void> {
     try {
       await fs.mkdir(this.projectsDir, { recursive: true });
+      await fs.mkdir(this.workspacesDir, { recursive: true });
       await fs.mkdir(this.reportsDir, { recursive: true });
       logger.info('Playwright directories initialized');
     } catch (error) {
@@ -50,7 +123,7 @@ class PlaywrightService {
   }
 
   /**
-   * Sanitize project name for use as directory name
+   * Directory name older versions cloned a project into.
    * Replaces spaces and special characters with hyphens
    */
   private sanitizeProjectName(projectName: string): string {
@@ -63,35 +136,49 @@ class PlaywrightService {
   }
 
   /**
-   * Clone repository from URL (supports GitHub, GitLab, Azure DevOps)
+   * Clone repository from URL (supports GitHub, GitLab, Azure DevOps).
+   * Git authenticates with the project's stored credential, or with credentials embedded in the URL;
+   * either way they are passed to git out of band and never end up in the checkout's remote or the logs.
    */
   async cloneRepository(
     repoUrl: string,
-    projectName: string,
+    projectId: string,
     branch: string = 'main'
   ): Promise<string> {
-    // Sanitize project name for directory
-    const dirName = this.sanitizeProjectName(projectName);
-    const projectPath = path.join(this.projectsDir, dirName);
+    const projectPath = this.getProjectPath(projectId);
+    let gitAuth: GitAuth | null = null;
 
     try {
       // Validate repo URL
       if (!repoUrl || !repoUrl.trim()) {
         throw new Error('Repository URL is required');
       }
+      if (!gitService.isValidBranchName(branch)) {
+        throw new Error(`Invalid branch name: ${branch}`);
+      }
 
-      logger.info(`Cloning repository for project: ${projectName} (directory: ${dirName})`);
+      const { url: cloneUrl, credential: embeddedCredential } = credentialService.extractCredentials(repoUrl);
+      gitAuth = embeddedCredential
+        ? await credentialService.createGitAuth(embeddedCredential)
+        : await credentialService.getGitAuth(projectId);
+      const gitEnv = { ...process.env, ...gitAuth.env };
+
+      logger.info(`Cloning repository for project ${projectId}`);
 
       // Check if project already exists
       try {
         await fs.access(projectPath);
-        logger.info(`Project directory ${dirName} already exists, pulling latest changes...`);
+        logger.info(`Project directory ${projectPath} already exists, pulling latest changes...`);
 
         try {
+          // Older checkouts were cloned from URLs with the token in them
+          await execFileAsync('git', ['remote', 'set-url', 'origin', cloneUrl], { cwd: projectPath, timeout: 10000 });
+
           // Pull latest changes
-          const { stdout, stderr } = await execAsync(`git pull origin ${branch}`, {
+          const { stdout, stderr } = await execFileAsync('git', ['pull', 'origin', branch], {
             cwd: projectPath,
-            timeout: 60000
+            timeout: 60000,
+            env: gitEnv
           });
 
           logger.info(`Git pull output: ${stdout}`);
@@ -105,12 +192,13 @@ class PlaywrightService {
         }
       } catch {
         // Directory doesn't exist, clone the repo
-        logger.info(`Cloning repository: ${repoUrl} (branch: ${branch})`);
+        logger.info(`Cloning repository: ${cloneUrl} (branch: ${branch})`);
 
         try {
-          const { stdout, stderr } = await execAsync(
-            `git clone "${repoUrl}" "${projectPath}" --branch ${branch} --single-branch`,
-            { timeout: 120000 }
+          const { stdout, stderr } = await execFileAsync(
+            'git',
+            ['clone', '--branch', branch, '--single-branch', '--', cloneUrl, projectPath],
+            { timeout: 120000, env: gitEnv }
           );
 
           logger.info(`Git clone output: ${stdout}`);
@@ -123,7 +211,7 @@ class PlaywrightService {
 
           // Provide more specific error messages
           if (errorMsg.includes('Authentication failed') || errorMsg.includes('authentication')) {
-            throw new Error('Authentication failed. Please ensure your Personal Access Token (PAT) is included in the repository URL or check your credentials.');
+            throw new Error('Authentication failed. Please check the repository credentials in the project settings.');
           } else if (errorMsg.includes('not found') || errorMsg.includes('does not exist')) {
             throw new Error(`Branch '${branch}' not found. Please verify the branch name exists in the repository.`);
           } else if (errorMsg.includes('Repository not found') || errorMsg.includes('could not read')) {
@@ -136,20 +224,39 @@ class PlaywrightService {
         }
       }
 
-      // Install dependencies if package.json exists
-      const packageJsonPath = path.join(projectPath, 'package.json');
+      // Dependencies are installed where the tests run: the repository root or its working subdirectory
+      const settings = (await pool.query(
+        'SELECT working_directory, install_command FROM projects WHERE id = $1',
+        [projectId]
+      )).rows[0];
+      const workDir = await this.resolveWorkDir(projectPath, settings?.working_directory);
+
       try {
-        await fs.access(packageJsonPath);
-        logger.info('Installing dependencies...');
+        if (settings?.install_command) {
+          logger.info(`Installing dependencies with: ${settings.install_command}`);
+          const { stderr } = await execAsync(settings.install_command, {
+            cwd: workDir,
+            timeout: 300000
+          });
 
-        const { stdout, stderr } = await execAsync('npm install', {
-          cwd: projectPath,
-          timeout: 300000
-        });
+          logger.info('Dependencies installed successfully');
+          if (stderr) {
+            logger.debug(`Install command stderr: ${stderr}`);
+          }
+        } else {
+          // Install dependencies if package.json exists
+          await fs.access(path.join(workDir, 'package.json'));
+          logger.info('Installing dependencies...');
+
+          const { stderr } = await execAsync('npm install', {
+            cwd: workDir,
+            timeout: 300000
+          });
 
-        logger.info('Dependencies installed successfully');
-        if (stderr) {
-          logger.debug(`npm install stderr: ${stderr}`);
+          logger.info('Dependencies installed successfully');
+          if (stderr) {
+            logger.debug(`npm install stderr: ${stderr}`);
+          }
         }
 
         // Install Playwright browsers if playwright is in dependencies
@@ -157,7 +264,7 @@ class PlaywrightService {
         try {
           // Install browsers with dependencies - chromium, firefox, webkit
           const installBrowsersResult = await execAsync('npx playwright install chromium --with-deps', {
-            cwd: projectPath,
+            cwd: workDir,
             timeout: 600000, // 10 minutes for browser download
             env: {
               ...process.env,
@@ -173,7 +280,7 @@ class PlaywrightService {
           // Also install firefox and webkit if needed
           try {
             await execAsync('npx playwright install firefox webkit', {
-              cwd: projectPath,
+              cwd: workDir,
               timeout: 600000
             });
             logger.info('Additional browsers (firefox, webkit) installed');
@@ -185,7 +292,10 @@ class PlaywrightService {
           // Log warning but don't fail the entire clone operation
           logger.warn(`Playwright browser installation failed or not needed: ${browserInstallError.message}`);
         }
-      } catch (error) {
+      } catch (error: any) {
+        if (settings?.install_command) {
+          throw new Error(`Install command failed: ${error.stderr || error.message}`);
+        }
         logger.warn('No package.json found or error installing dependencies');
       }
 
@@ -194,14 +304,167 @@ class PlaywrightService {
       logger.error('Error in cloneRepository:', error);
       // Re-throw the error with the specific message
       throw error;
+    } finally {
+      await gitAuth?.cleanup();
+    }
+  }
+
+  /**
+   * Create a test run record for a project (queued until a worker picks it up)
+   */
+  async createTestRun(
+    config: PlaywrightConfig
+  ): Promise<{ id: string; run_name: string; run_number: number; status: string }> {
+    const { projectId, suiteId, branch, commitSha, triggerSource = 'manual', scheduleId, triggeredBy } = config;
+
+    // Resolve the selection up front so the run records exactly what it will execute
+    const selection = await this.resolveTestSelection(config);
+    const runProjects = this.getRunProjects(config);
+    const environment = await environmentService.resolve(projectId, config.environmentId);
+
+    // Get next run number for this project
+    const runNumber = await this.getNextRunNumber(projectId);
+
+    const runResult = await pool.query(
+      `INSERT INTO test_runs
+       (project_id, suite_id, run_name, run_number, status, start_time, browser, environment,
+        selected_test_case_ids, test_targets, test_grep, branch, commit_sha, trigger_source, schedule_id, browsers,
+        environment_id, triggered_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       RETURNING id, run_name, run_number, status`,
+      [
+        projectId,
+        suiteId || null,
+        `Test Run #${runNumber}`,
+        runNumber,
+        'queued',
+        new Date(),
+        // Matrix runs have no single browser; their browsers are listed in the browsers column
+        runProjects.length === 1 ? runProjects[0] : null,
+        environment?.name || null,
+        selection.testCaseIds.length > 0 ? selection.testCaseIds : null,
+        selection.targets.length > 0 ? selection.targets : null,
+        selection.grep,
+        branch || null,
+        commitSha || null,
+        triggerSource,
+        scheduleId || null,
+        runProjects,
+        environment?.id || null,
+        triggeredBy || null
+      ]
+    );
+
+    return runResult.rows[0];
+  }
+
+  /**
+   * Playwright projects a run executes: the requested browsers (or the single browser) followed by any device profiles
+   */
+  private getRunProjects(config: PlaywrightConfig): string[] {
+    const browsers = config.browsers && config.browsers.length > 0
+      ? config.browsers
+      : [config.browser || 'chromium'];
+
+    return [...new Set([...browsers, ...(config.devices || [])])];
+  }
+
+  /**
+   * Work out which tests a run should execute.
+   * Cases with a known location run by `file:line`; if any case lacks one, all cases run by title with --grep.
+   * Suite runs target the files the suite's cases live in.
+   */
+  private async resolveTestSelection(config: PlaywrightConfig): Promise<TestSelection> {
+    const { projectId, suiteId, testCaseIds } = config;
+
+    if (testCaseIds && testCaseIds.length > 0) {
+      const params: any[] = [testCaseIds, projectId];
+      let query = `
+        SELECT tc.id, tc.name, tc.file_path, tc.line_number
+        FROM test_cases tc
+        JOIN test_suites ts ON tc.suite_id = ts.id
+        WHERE tc.id = ANY($1::uuid[]) AND ts.project_id = $2
+      `;
+
+      if (suiteId) {
+        params.push(suiteId);
+        query += ` AND tc.suite_id = $${params.length}`;
+      }
+
+      const casesResult = await pool.query(query, params);
+
+      if (casesResult.rows.length === 0) {
+        throw new Error('None of the selected test cases belong to this project');
+      }
+
+      const cases = casesResult.rows;
+      const allLocated = cases.every(testCase => testCase.file_path && testCase.line_number);
+
+      return {
+        testCaseIds: cases.map(testCase => testCase.id),
+        targets: allLocated
+          ? cases.map(testCase => `${testCase.file_path}:${testCase.line_number}`)
+          : [],
+        grep: allLocated
+          ? null
+          : cases.map(testCase => this.escapeRegExp(testCase.name)).join('|')
+      };
+    }
+
+    if (suiteId) {
+      const suiteResult = await pool.query(
+        'SELECT name, file_path FROM test_suites WHERE id = $1',
+        [suiteId]
+      );
+
+      if (suiteResult.rows.length === 0) {
+        throw new Error('Test suite not found');
+      }
+
+      const suite = suiteResult.rows[0];
+      const casesResult = await pool.query(
+        'SELECT id, file_path FROM test_cases WHERE suite_id = $1',
+        [suiteId]
+      );
+
+      const files = new Set<string>();
+      if (suite.file_path) {
+        files.add(suite.file_path);
+      }
+      for (const testCase of casesResult.rows) {
+        if (testCase.file_path) {
+          files.add(testCase.file_path);
+        }
+      }
+
+      return {
+        testCaseIds: casesResult.rows.map(testCase => testCase.id),
+        targets: [...files],
+        // Suites created by hand have no file, so match on the describe title instead
+        grep: files.size === 0 ? this.escapeRegExp(suite.name) : null
+      };
     }
+
+    // Whole project
+    return { testCaseIds: [], targets: [], grep: null };
   }
 
   /**
-   * Run Playwright tests for a project
+   * Escape a test title for use in a --grep pattern
    */
-  async runTests(config: PlaywrightConfig): Promise<TestResult> {
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Execute Playwright tests for an existing test run record
+   */
+  async executeTestRun(testRunId: string, config: PlaywrightConfig): Promise<TestResult> {
     const { projectId, suiteId, browser = 'chromium', headed = false, workers = 1 } = config;
+    const runProjects = this.getRunProjects(config);
+    const isMatrixRun = runProjects.length > 1 || (config.devices || []).length > 0;
+    let projectPath: string | null = null;
+    let workspacePath: string | null = null;
 
     try {
       // Get project details from database
@@ -215,7 +478,7 @@ class PlaywrightService {
       }
 
       const project = projectResult.rows[0];
-      const projectPath = path.join(this.projectsDir, project.name);
+      projectPath = this.getProjectPath(projectId);
 
       // Verify project directory exists
       try {
@@ -224,374 +487,845 @@ class PlaywrightService {
         throw new Error(`Project directory not found. Please clone the repository first using the clone endpoint.`);
       }
 
+      // Read before the workspace is made from it: the shared checkout's branch, and whether it has local changes.
+      // A new worktree is always clean, so its own status says nothing.
+      const checkout = await gitService.getCommitInfo(projectPath);
+
+      // The run gets its own workspace at the exact commit, so concurrent runs and pulls of the
+      // shared checkout can't change the code under it
+      const runCommit = await this.resolveRunCommit(projectId, projectPath, config);
+      workspacePath = await this.createWorkspace(testRunId, projectPath, runCommit, project.working_directory);
+
+      // Tests run from the working subdirectory of a monorepo
+      const workDir = await this.resolveWorkDir(workspacePath, project.working_directory);
+
       // Ensure Playwright browsers are installed before running tests
       logger.info('Checking Playwright browser installation...');
+      // Projects defined in the repository's config may use any engine, so those install them all
+      const engines = runProjects.map(name => BROWSER_DEVICES[name] ? name : devices[name]?.defaultBrowserType);
+      const installTargets = engines.every(Boolean) ? [...new Set(engines)].join(' ') : '';
       try {
         // Run playwright install as a safety check - it's fast if browsers are already installed
-        await execAsync(`npx playwright install ${browser} --with-deps`, {
-          cwd: projectPath,
+        await execAsync(`npx playwright install ${installTargets} --with-deps`, {
+          cwd: workDir,
           timeout: 300000,
           env: {
             ...process.env,
             PLAYWRIGHT_SKIP_BROWSER_DOWNLOAD: undefined
           }
         });
-        logger.info(`Playwright browser (${browser}) verified/installed`);
+        logger.info(`Playwright browsers (${runProjects.join(', ')}) verified/installed`);
       } catch (browserError: any) {
         logger.warn(`Browser installation check failed: ${browserError.message}`);
         // Continue anyway - the test command will fail with a clear message if browsers are missing
       }
 
-      // Get next run number for this project
-      const runNumber = await this.getNextRunNumber(projectId);
+      // Record the checked-out commit so results can be traced back to the code they tested.
+      // Workspaces are detached, so runs without a branch take the shared checkout's one.
+      const commit = await gitService.getCommitInfo(workspacePath);
+      const branch = config.branch || checkout?.branch;
 
-      // Create test run record
+      // Mark the run as started now that a worker is executing it
       const runResult = await pool.query(
-        `INSERT INTO test_runs (project_id, suite_id, run_name, run_number, status, start_time, browser, environment)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `UPDATE test_runs
+         SET status = 'in_progress',
+             start_time = $1,
+             commit_sha = COALESCE($2, commit_sha),
+             branch = COALESCE(branch, $3),
+             commit_message = $4,
+             commit_author_name = $5,
+             commit_author_email = $6,
+             commit_date = $7,
+             working_copy_dirty = $8
+         WHERE id = $9 AND status = 'queued'
          RETURNING *`,
         [
-          projectId,
-          suiteId || null,
-          `Test Run #${runNumber}`,
-          runNumber,
-          'in_progress',
           new Date(),
-          browser,
-          'test'
+          commit?.sha || null,
+          branch || null,
+          commit?.message || null,
+          commit?.authorName || null,
+          commit?.authorEmail || null,
+          commit?.committedAt || null,
+          checkout ? checkout.dirty : null,
+          testRunId
         ]
       );
 
-      const testRunId = runResult.rows[0].id;
+      // The run may have been cancelled while the worker was preparing it
+      if (runResult.rows.length === 0) {
+        throw new Error('Test run not found or no longer queued');
+      }
+
+      runEventsService.emit(testRunId, { type: 'status', status: 'in_progress' });
+
+      // Variables and secrets of the run's environment; secret values never leave this process unmasked
+      const runEnvironment = runResult.rows[0].environment_id
+        ? await environmentService.getRunEnvironment(runResult.rows[0].environment_id)
+        : null;
+      const secretValues = runEnvironment?.secretValues || [];
+      const mask = secretService.createMasker(secretValues);
+      if (runEnvironment) {
+        logger.info(`Running against environment '${runEnvironment.name}'`);
+      }
+
       const reportName = `report-${testRunId}`;
-      const reportPath = path.join(this.reportsDir, reportName);
+      const reportPath = this.getReportDir(testRunId);
+
+      const jsonReportPath = path.join(reportPath, 'results.json');
 
       // Ensure report directory exists
       await fs.mkdir(reportPath, { recursive: true });
 
-      // Build Playwright command using best practices
       // Use environment variables for configuration
-      const envVars = [
-        `PLAYWRIGHT_HTML_REPORT="${reportPath}"`
+      const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        ...runEnvironment?.env,
+        PLAYWRIGHT_HTML_REPORT: reportPath,
+        // Never serve the HTML report after a failure - it would keep the process alive
+        PLAYWRIGHT_HTML_OPEN: 'never',
+        PLAYWRIGHT_JSON_OUTPUT_NAME: jsonReportPath
         // Don't set PLAYWRIGHT_BROWSERS_PATH - let it use the installed browsers location
-      ];
+      };
 
-      let playwrightCmd = `npx playwright test`;
+      const args = ['playwright', 'test'];
 
-      // Browser selection - check if playwright.config exists, otherwise use --project
-      try {
-        await fs.access(path.join(projectPath, 'playwright.config.ts'));
+      const configFile = project.playwright_config_path
+        ? await this.verifyPlaywrightConfig(workDir, project.playwright_config_path)
+        : await this.findPlaywrightConfig(workDir);
+
+      if (isMatrixRun) {
+        // Run every browser/device as a project of one Playwright invocation
+        const matrixConfigPath = await this.writeMatrixConfig(workDir, configFile, runProjects);
+        args.push(`--config=${path.relative(workDir, matrixConfigPath)}`);
+        args.push(...runProjects.map(name => `--project=${name}`));
+      } else if (configFile) {
         // Config exists, use --project flag
-        playwrightCmd += ` --project=${browser}`;
-      } catch {
-        try {
-          await fs.access(path.join(projectPath, 'playwright.config.js'));
-          // Config exists, use --project flag
-          playwrightCmd += ` --project=${browser}`;
-        } catch {
-          // No config found, use environment variable for browser
-          envVars.push(`BROWSER=${browser}`);
-          logger.info('No playwright.config found, using default configuration');
+        if (project.playwright_config_path) {
+          args.push(`--config=${configFile}`);
         }
+        args.push(`--project=${browser}`);
+      } else {
+        // No config found, use environment variable for browser
+        env.BROWSER = browser;
+        logger.info('No playwright.config found, using default configuration');
+      }
+
+      // Limit the run to the selection recorded when it was queued
+      const { test_targets: targets, test_grep: grep } = runResult.rows[0];
+      if (targets && targets.length > 0) {
+        args.push(...targets);
+      }
+      if (grep) {
+        args.push(`--grep=${grep}`);
       }
 
       // Add other flags
-      playwrightCmd += ` --workers=${workers}`;
-      playwrightCmd += headed ? ` --headed` : '';
-      playwrightCmd += ` --reporter=html,list`;
+      args.push(`--workers=${workers}`);
+      // Keep a trace of every failure so it can be opened from the run details. Traces are zipped,
+      // so secrets in them can't be masked - runs with secrets go without.
+      args.push(secretValues.length ? '--trace=off' : '--trace=retain-on-failure');
+      if (headed) {
+        args.push('--headed');
+      }
 
-      // Complete command with environment variables (using cross-env for Windows compatibility)
-      const fullCommand = `npx cross-env ${envVars.join(' ')} ${playwrightCmd}`;
+      // Results are read from the json reporter; the live reporter streams per-test events back to us.
+      // The HTML report embeds its data compressed, so runs with secrets don't get one.
+      const reporters = ['json', 'list', await this.getLiveReporterPath()];
+      args.push(`--reporter=${secretValues.length ? reporters.join(',') : ['html', ...reporters].join(',')}`);
 
       const startTime = Date.now();
-      let testResult: TestResult;
 
-      try {
-        logger.info(`Running Playwright tests for project ${project.name}...`);
-        logger.info(`Project path: ${projectPath}`);
-        logger.info(`Command: ${fullCommand}`);
-
-        const { stdout, stderr } = await execAsync(
-          `cd "${projectPath}" && ${fullCommand}`,
-          {
-            timeout: 600000, // 10 minute timeout
-            maxBuffer: 50 * 1024 * 1024, // 50MB buffer for large outputs
-            // Don't fail on non-zero exit code - we'll check results ourselves
-            encoding: 'utf8'
-          }
-        );
+      logger.info(`Running Playwright tests for project ${project.name}...`);
+      logger.info(`Project path: ${workDir}`);
+      logger.info(`Command: npx ${args.join(' ')}`);
 
-        const duration = Date.now() - startTime;
+      const { stdout, stderr, exitCode } = await this.spawnPlaywright(testRunId, workDir, args, env, mask);
+      const duration = Date.now() - startTime;
 
-        // Parse test results from output
-        const combinedOutput = stdout + '\n' + stderr;
-        const results = this.parsePlaywrightOutput(combinedOutput);
+      if (secretValues.length) {
+        await this.maskJsonReport(jsonReportPath, mask);
+      }
 
-        logger.info(`Test execution completed (${results.failed > 0 ? 'with failures' : 'successfully'})`);
-        logger.info(`Parsed results: ${results.total} total, ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped`);
+      // Prefer the structured JSON report, falling back to parsing the list reporter output
+      const combinedOutput = stdout + '\n' + stderr;
+      const jsonResults = await this.readJsonReport(jsonReportPath);
+      const results = jsonResults ? jsonResults.totals : this.parsePlaywrightOutput(combinedOutput);
 
-        // Log more output for debugging if no results found
-        if (results.total === 0) {
-          logger.warn(`Full output length: stdout=${stdout.length}, stderr=${stderr.length}`);
-          logger.warn(`Last 1000 chars of stdout: ${stdout.substring(Math.max(0, stdout.length - 1000))}`);
-          logger.warn(`Last 1000 chars of stderr: ${stderr.substring(Math.max(0, stderr.length - 1000))}`);
-        }
+      logger.info(`Playwright exited with code ${exitCode}`);
+      logger.info(`Parsed results: ${results.total} total, ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped, ${results.flaky} flaky`);
 
-        // Parse detailed test results
-        const detailedResults = this.parseDetailedTestResults(combinedOutput);
+      // Log more output for debugging if no results found
+      if (results.total === 0) {
+        logger.warn(`Full output length: stdout=${stdout.length}, stderr=${stderr.length}`);
+        logger.warn(`Last 1000 chars of stdout: ${stdout.substring(Math.max(0, stdout.length - 1000))}`);
+        logger.warn(`Last 1000 chars of stderr: ${stderr.substring(Math.max(0, stderr.length - 1000))}`);
+      }
 
-        // Check if HTML report was generated
-        const reportIndexPath = path.join(reportPath, 'index.html');
-        let reportGenerated = false;
-        try {
-          await fs.access(reportIndexPath);
-          reportGenerated = true;
-          logger.info(`HTML report generated successfully at: ${reportIndexPath}`);
-        } catch {
-          logger.warn(`HTML report not found at: ${reportIndexPath}`);
-        }
-
-        const reportPathValue = reportGenerated ? `/reports/${reportName}/index.html` : undefined;
-        const reportUrlValue = reportGenerated ? `http://localhost:5000/api/v1/executions/run/${testRunId}/view-report` : undefined;
-
-        testResult = {
-          projectId,
-          suiteId,
-          runName: runResult.rows[0].run_name,
-          status: results.failed > 0 ? 'failed' : 'completed',
-          totalTests: results.total,
-          passedTests: results.passed,
-          failedTests: results.failed,
-          skippedTests: results.skipped,
-          duration,
-          reportPath: reportPathValue
-        };
-
-        // Update test run in database with detailed information
-        await pool.query(
-          `UPDATE test_runs
-           SET status = $1,
-               total_tests = $2,
-               passed_tests = $3,
-               failed_tests = $4,
-               skipped_tests = $5,
-               flaky_tests = $6,
-               end_time = $7,
-               duration_ms = $8,
-               report_path = $9,
-               report_url = $10,
-               exit_code = $11
-           WHERE id = $12`,
-          [
-            testResult.status,
-            testResult.totalTests,
-            testResult.passedTests,
-            testResult.failedTests,
-            testResult.skippedTests,
-            detailedResults.flakyTests,
-            new Date(),
-            detailedResults.totalDuration || testResult.duration,
-            reportPathValue,
-            reportUrlValue,
-            0, // exit code 0 for success
-            testRunId
-          ]
-        );
+      // Parse detailed test results
+      const detailedResults = jsonResults ? jsonResults.detailed : this.parseDetailedTestResults(combinedOutput);
+      for (const testCase of detailedResults.cases) {
+        testCase.errorMessage = testCase.errorMessage && mask(testCase.errorMessage);
+        testCase.stackTrace = testCase.stackTrace && mask(testCase.stackTrace);
+      }
 
-        // Save detailed test results (suites and cases)
-        await this.saveDetailedResults(testRunId, detailedResults);
+      // Quarantined tests still run, but their failures are reported separately from failed_tests
+      const quarantinedTests = await this.applyQuarantines(projectId, detailedResults);
+      const failedTests = Math.max(0, results.failed - quarantinedTests);
 
-        logger.info(`✅ Test run ${testRunId} saved to database with results: ${testResult.totalTests} total, ${testResult.passedTests} passed, ${testResult.failedTests} failed, ${testResult.skippedTests} skipped, ${detailedResults.flakyTests} flaky`);
+      // Check if HTML report was generated
+      const reportIndexPath = path.join(reportPath, 'index.html');
+      let reportGenerated = false;
+      try {
+        await fs.access(reportIndexPath);
+        reportGenerated = true;
+        logger.info(`HTML report generated successfully at: ${reportIndexPath}`);
+      } catch {
+        logger.warn(`HTML report not found at: ${reportIndexPath}`);
+      }
 
-        return testResult;
-      } catch (error: any) {
-        const duration = Date.now() - startTime;
+      const reportPathValue = reportGenerated ? `/reports/${reportName}/index.html` : undefined;
+      const reportUrlValue = reportGenerated ? `http://localhost:5000/api/v1/executions/run/${testRunId}/view-report` : undefined;
+      // Followers of the run get a signed link straight to the report
+      const signedReportUrl = reportGenerated ? reportAccessService.url(testRunId) : undefined;
+
+      // A non-zero exit with no parsed tests means Playwright itself failed to run
+      const cancelled = this.cancelledRuns.has(testRunId);
+      const executionFailed = !cancelled && exitCode !== 0 && results.total === 0;
+      const errorMessage = executionFailed
+        ? `Test execution failed: Playwright exited with code ${exitCode}`
+        : null;
+
+      let status: TestResult['status'];
+      if (cancelled) status = 'cancelled';
+      else if (executionFailed || failedTests > 0) status = 'failed';
+      else status = 'completed';
+
+      const testResult: TestResult = {
+        projectId,
+        suiteId,
+        runName: runResult.rows[0].run_name,
+        status,
+        totalTests: results.total,
+        passedTests: results.passed,
+        failedTests,
+        skippedTests: results.skipped,
+        flakyTests: results.flaky,
+        quarantinedTests,
+        duration,
+        reportPath: reportPathValue
+      };
 
-        logger.error('Error running Playwright tests:', error.message);
+      // Update test run in database with detailed information
+      await pool.query(
+        `UPDATE test_runs
+         SET status = $1,
+             total_tests = $2,
+             passed_tests = $3,
+             failed_tests = $4,
+             skipped_tests = $5,
+             flaky_tests = $6,
+             quarantined_tests = $7,
+             end_time = $8,
+             duration_ms = $9,
+             report_path = $10,
+             report_url = $11,
+             exit_code = $12,
+             error_message = $13
+         WHERE id = $14`,
+        [
+          testResult.status,
+          testResult.totalTests,
+          testResult.passedTests,
+          testResult.failedTests,
+          testResult.skippedTests,
+          testResult.flakyTests,
+          testResult.quarantinedTests,
+          new Date(),
+          detailedResults.totalDuration || testResult.duration,
+          reportPathValue,
+          reportUrlValue,
+          exitCode,
+          errorMessage,
+          testRunId
+        ]
+      );
 
-        // Even if there's an error, try to parse the output
-        // Tests might have run but Playwright exited with error
-        const combinedOutput = (error.stdout || '') + '\n' + (error.stderr || '');
-        const results = this.parsePlaywrightOutput(combinedOutput);
+      // Save detailed test results (suites and cases) - partial results for cancelled runs
+      if (results.total > 0) {
+        await this.saveFailureAttachments(reportPath, reportName, detailedResults.cases);
+        await this.saveDetailedResults(testRunId, detailedResults);
+      }
 
-        // Log output for debugging
-        if (error.stdout) {
-          logger.info(`Test output captured (${error.stdout.length} chars)`);
-          // Log last part of output which usually has the summary
-          const lastPart = error.stdout.substring(Math.max(0, error.stdout.length - 2000));
-          logger.info(`Last 2000 chars of output:\n${lastPart}`);
-        }
+      if (secretValues.length) {
+        await this.removeSecretsFromReport(reportPath, secretValues, mask);
+      }
 
-        // Parse detailed test results
-        const detailedResults = this.parseDetailedTestResults(combinedOutput);
+      runEventsService.emit(testRunId, {
+        type: 'summary',
+        status: testResult.status,
+        totalTests: testResult.totalTests,
+        passedTests: testResult.passedTests,
+        failedTests: testResult.failedTests,
+        skippedTests: testResult.skippedTests,
+        flakyTests: testResult.flakyTests,
+        quarantinedTests: testResult.quarantinedTests,
+        duration: testResult.duration,
+        reportUrl: signedReportUrl,
+        errorMessage
+      });
+
+      logger.info(`✅ Test run ${testRunId} saved to database with results: ${testResult.totalTests} total, ${testResult.passedTests} passed, ${testResult.failedTests} failed, ${testResult.skippedTests} skipped, ${testResult.flakyTests} flaky, ${testResult.quarantinedTests} quarantined (status: ${status})`);
+
+      // Only throw if we truly have no results
+      if (executionFailed) {
+        throw new Error(errorMessage!);
+      }
 
-        // Check if HTML report was generated despite the error
-        const reportIndexPath = path.join(reportPath, 'index.html');
-        let reportGenerated = false;
-        try {
-          await fs.access(reportIndexPath);
-          reportGenerated = true;
-          logger.info(`HTML report generated at: ${reportIndexPath}`);
-        } catch {
-          logger.warn(`HTML report not found at: ${reportIndexPath}`);
-        }
+      return testResult;
+    } catch (error: any) {
+      logger.error('Error in executeTestRun:', error);
+      throw error;
+    } finally {
+      this.cancelledRuns.delete(testRunId);
+      if (projectPath && workspacePath) {
+        await this.removeWorkspace(projectPath, workspacePath);
+      }
+    }
+  }
 
-        const reportPathValue = reportGenerated ? `/reports/${reportName}/index.html` : undefined;
-        const reportUrlValue = reportGenerated ? `http://localhost:5000/api/v1/executions/run/${testRunId}/view-report` : undefined;
+  /**
+   * Directory tests are installed and run from: the checkout itself, or its configured working subdirectory
+   */
+  private async resolveWorkDir(projectPath: string, workingDirectory?: string | null): Promise<string> {
+    if (!workingDirectory) {
+      return projectPath;
+    }
 
-        // If we got test results, it's not a complete failure
-        const status = results.total > 0 ? (results.failed > 0 ? 'failed' : 'completed') : 'failed';
+    const workDir = path.join(projectPath, workingDirectory);
+    try {
+      await fs.access(workDir);
+    } catch {
+      throw new Error(`Working directory '${workingDirectory}' not found in the repository`);
+    }
+    return workDir;
+  }
 
-        testResult = {
-          projectId,
-          suiteId,
-          runName: runResult.rows[0].run_name,
-          status,
-          totalTests: results.total,
-          passedTests: results.passed,
-          failedTests: results.failed,
-          skippedTests: results.skipped,
-          duration,
-          reportPath: reportPathValue
-        };
-
-        // Update test run with detailed information
-        await pool.query(
-          `UPDATE test_runs
-           SET status = $1,
-               total_tests = $2,
-               passed_tests = $3,
-               failed_tests = $4,
-               skipped_tests = $5,
-               flaky_tests = $6,
-               end_time = $7,
-               duration_ms = $8,
-               report_path = $9,
-               report_url = $10,
-               exit_code = $11
-           WHERE id = $12`,
-          [
-            status,
-            results.total,
-            results.passed,
-            results.failed,
-            results.skipped,
-            detailedResults.flakyTests,
-            new Date(),
-            detailedResults.totalDuration || duration,
-            reportPathValue,
-            reportUrlValue,
-            error.code || 1, // exit code from error
-            testRunId
-          ]
-        );
+  /**
+   * Check that the config path set on the project exists (relative to the working directory)
+   */
+  private async verifyPlaywrightConfig(workDir: string, configPath: string): Promise<string> {
+    try {
+      await fs.access(path.join(workDir, configPath));
+    } catch {
+      throw new Error(`Playwright config '${configPath}' not found in the repository`);
+    }
+    return configPath;
+  }
 
-        // Save detailed test results (suites and cases)
-        if (results.total > 0) {
-          await this.saveDetailedResults(testRunId, detailedResults);
-        }
+  /**
+   * Name of the project's Playwright config file, or null if it has none
+   */
+  private async findPlaywrightConfig(projectPath: string): Promise<string | null> {
+    for (const fileName of ['playwright.config.ts', 'playwright.config.js']) {
+      try {
+        await fs.access(path.join(projectPath, fileName));
+        return fileName;
+      } catch {
+        // Try the next one
+      }
+    }
+    return null;
+  }
 
-        logger.info(`Test run ${testRunId} saved: ${results.total} total, ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped, ${detailedResults.flakyTests} flaky (status: ${status})`);
+  /**
+   * Write a config that extends the project's own one with a project for each requested
+   * browser or device profile it doesn't already define. Projects the config does define are kept as they are.
+   * It goes away with the run's workspace, and is written next to the base config, since Playwright resolves paths like testDir from the config's directory.
+   */
+  private async writeMatrixConfig(workDir: string, configFile: string | null, runProjects: string[]): Promise<string> {
+    const baseImport = configFile
+      ? `import base from './${path.parse(configFile).name}';`
+      : 'const base: any = {};';
+
+    const content = `// Generated by the test runner for a multi-browser run
+import { devices } from '@playwright/test';
+${baseImport}
+
+const browserDevices: Record<string, string> = ${JSON.stringify(BROWSER_DEVICES)};
+const requested: string[] = ${JSON.stringify(runProjects)};
+const existing: any[] = base.projects || [];
+const defined = new Set(existing.map(project => project.name));
+
+export default {
+  ...base,
+  projects: [
+    ...existing,
+    ...requested
+      .filter(name => !defined.has(name))
+      .map(name => ({ name, use: { ...devices[browserDevices[name] || name] } }))
+  ]
+};
+`;
+
+    const configPath = path.join(workDir, configFile ? path.dirname(configFile) : '', MATRIX_CONFIG_FILE);
+    await fs.writeFile(configPath, content, 'utf8');
+    logger.info(`Wrote matrix config for projects: ${runProjects.join(', ')}`);
+    return configPath;
+  }
 
-        // If we captured test results, return them instead of throwing
-        if (results.total > 0) {
-          logger.info(`Tests completed but Playwright exited with error. Returning captured results.`);
-          return testResult;
-        }
+  /**
+   * Flag quarantined cases and move their failures out of the failed counts of their suites.
+   * Returns the number of quarantined tests that failed.
+   */
+  private async applyQuarantines(projectId: string, detailedResults: DetailedTestResults): Promise<number> {
+    const quarantinedCases = await quarantineService.markQuarantinedCases(projectId, detailedResults.cases);
+
+    let quarantinedFailures = 0;
+    for (const testCase of quarantinedCases) {
+      if (testCase.status !== 'failed') continue;
+      quarantinedFailures++;
+
+      const suite = [...detailedResults.suites.values()].find(candidate =>
+        candidate.name === testCase.suiteName &&
+        (!candidate.filePath || candidate.filePath === testCase.filePath) &&
+        (candidate.browser || null) === (testCase.browser || null)
+      );
+      if (suite) {
+        suite.failedTests--;
+        suite.quarantinedTests = (suite.quarantinedTests || 0) + 1;
+      }
+    }
+
+    return quarantinedFailures;
+  }
+
+  /**
+   * Commit a run should test: the requested commit, the tip of the requested branch, or the shared
+   * checkout's HEAD. Branches are fetched into remote-tracking refs, so the checkout itself isn't touched
+   * (this works on the single-branch clones made by cloneRepository too).
+   * Returns null if the checkout isn't a git repository.
+   */
+  private async resolveRunCommit(projectId: string, projectPath: string, config: PlaywrightConfig): Promise<string | null> {
+    const git = (args: string[]) => execFileAsync('git', args, { cwd: projectPath, timeout: 10000 });
+
+    if (config.commitSha && !/^[0-9a-f]{7,40}$/i.test(config.commitSha)) {
+      throw new Error(`Invalid commit SHA: ${config.commitSha}`);
+    }
 
-        // Only throw if we truly have no results
-        throw new Error(`Test execution failed: ${error.message}`);
+    try {
+      await git(['rev-parse', '--git-dir']);
+    } catch {
+      if (config.branch || config.commitSha) {
+        throw new Error('The project checkout is not a git repository, so a branch or commit cannot be run');
       }
+      return null;
+    }
+
+    if (config.branch) {
+      await this.fetchBranch(projectId, config.branch);
+    }
+
+    const revision = config.commitSha || (config.branch ? `refs/remotes/origin/${config.branch}` : 'HEAD');
+
+    try {
+      const { stdout } = await git(['rev-parse', '--verify', `${revision}^{commit}`]);
+      return stdout.trim();
+    } catch {
+      // A commit must already have been fetched, e.g. with the branch of a push webhook
+      throw new Error(`Commit '${revision}' not found in the repository`);
+    }
+  }
+
+  /**
+   * Fetch a branch into its remote-tracking ref (refs/remotes/origin/<branch>) without touching the shared
+   * checkout's HEAD or working tree, and return the commit at its tip
+   */
+  async fetchBranch(projectId: string, branch: string): Promise<string> {
+    if (!gitService.isValidBranchName(branch)) {
+      throw new Error(`Invalid branch name: ${branch}`);
+    }
+
+    const projectPath = this.getProjectPath(projectId);
+    logger.info(`Fetching branch ${branch} in ${projectPath}`);
+
+    const gitAuth = await credentialService.getGitAuth(projectId);
+    try {
+      await execFileAsync('git', ['fetch', 'origin', `+refs/heads/${branch}:refs/remotes/origin/${branch}`], {
+        cwd: projectPath,
+        timeout: 120000,
+        env: { ...process.env, ...gitAuth.env }
+      });
     } catch (error: any) {
-      logger.error('Error in runTests:', error);
-      throw error;
+      throw new Error(`Failed to fetch branch '${branch}': ${error.message}`);
+    } finally {
+      await gitAuth.cleanup();
     }
+
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', `refs/remotes/origin/${branch}^{commit}`], {
+      cwd: projectPath,
+      timeout: 10000
+    });
+    return stdout.trim();
   }
 
   /**
-   * Parse Playwright test output to extract results
-   * Supports multiple output formats from Playwright test runner
+   * Call fn with a temporary detached worktree of the shared checkout at a commit, e.g. to discover the
+   * tests of a pushed commit without checking it out in the shared checkout. The worktree is removed afterwards.
    */
-  private parsePlaywrightOutput(output: string): {
-    total: number;
-    passed: number;
-    failed: number;
-    skipped: number;
-  } {
-    const results = { total: 0, passed: 0, failed: 0, skipped: 0 };
+  async withCommitCheckout<T>(projectId: string, commitSha: string, fn: (checkoutPath: string) => Promise<T>): Promise<T> {
+    if (!/^[0-9a-f]{7,40}$/i.test(commitSha)) {
+      throw new Error(`Invalid commit SHA: ${commitSha}`);
+    }
+
+    const projectPath = this.getProjectPath(projectId);
+    const checkoutPath = await fs.mkdtemp(path.join(os.tmpdir(), 'testrunner-checkout-'));
 
     try {
-      logger.debug('Parsing Playwright output for test results...');
+      await execFileAsync('git', ['worktree', 'add', '--detach', checkoutPath, commitSha], {
+        cwd: projectPath,
+        timeout: 120000
+      });
+      return await fn(checkoutPath);
+    } finally {
+      await this.removeWorkspace(projectPath, checkoutPath);
+    }
+  }
 
-      // Method 1: Count individual test results from list reporter
-      // Look for "✓" (passed), "✘" (failed), "⊘" (skipped) markers
-      const passedTests = (output.match(/✓/g) || []).length;
-      const failedTests = (output.match(/✘/g) || []).length;
-      const skippedTests = (output.match(/⊘/g) || []).length;
+  /**
+   * Create a run's workspace: a detached worktree of the shared checkout at the commit, or a copy of the
+   * checkout when it isn't a git repository. node_modules of the repository root and working directory are
+   * linked from the shared checkout instead of installed again; browsers already live in Playwright's shared cache.
+   */
+  private async createWorkspace(
+    testRunId: string,
+    projectPath: string,
+    commitSha: string | null,
+    workingDirectory?: string | null
+  ): Promise<string> {
+    const workspacePath = path.join(this.workspacesDir, testRunId);
 
-      if (passedTests > 0 || failedTests > 0 || skippedTests > 0) {
-        results.passed = passedTests;
-        results.failed = failedTests;
-        results.skipped = skippedTests;
-        logger.debug(`Found from markers: ${passedTests} passed, ${failedTests} failed, ${skippedTests} skipped`);
+    if (commitSha) {
+      logger.info(`Creating workspace for test run ${testRunId} at ${commitSha}`);
+      try {
+        await execFileAsync('git', ['worktree', 'add', '--detach', workspacePath, commitSha], {
+          cwd: projectPath,
+          timeout: 120000
+        });
+      } catch (error: any) {
+        throw new Error(`Failed to create the run's workspace: ${error.message}`);
       }
+      await this.excludeNodeModules(workspacePath);
+    } else {
+      logger.info(`Copying ${projectPath} to the workspace of test run ${testRunId}`);
+      await fs.cp(projectPath, workspacePath, {
+        recursive: true,
+        filter: source => path.basename(source) !== 'node_modules'
+      });
+    }
 
-      // Method 2: Look for summary line like: "3 passed (5s)"
-      const passedMatch = output.match(/(\d+)\s+passed/i);
-      if (passedMatch && results.passed === 0) {
-        results.passed = parseInt(passedMatch[1]);
-        logger.debug(`Found passed tests from summary: ${results.passed}`);
+    for (const dir of new Set(['', workingDirectory || ''])) {
+      const source = path.join(projectPath, dir, 'node_modules');
+      const target = path.join(workspacePath, dir, 'node_modules');
+      try {
+        await fs.access(source);
+        await fs.symlink(source, target, 'junction');
+      } catch {
+        // Nothing installed there, or the commit doesn't have that directory
       }
+    }
 
-      // Method 3: Look for failed tests: "2 failed"
-      const failedMatch = output.match(/(\d+)\s+failed/i);
-      if (failedMatch && results.failed === 0) {
-        results.failed = parseInt(failedMatch[1]);
-        logger.debug(`Found failed tests from summary: ${results.failed}`);
+    return workspacePath;
+  }
+
+  /**
+   * Keep the node_modules links out of a worktree's status: a "node_modules/" ignore rule only matches
+   * directories, so git would list them as untracked files
+   */
+  private async excludeNodeModules(workspacePath: string): Promise<void> {
+    try {
+      const { stdout } = await execFileAsync('git', ['rev-parse', '--git-path', 'info/exclude'], {
+        cwd: workspacePath,
+        timeout: 10000
+      });
+      const excludePath = path.resolve(workspacePath, stdout.trim());
+
+      const exclude = await fs.readFile(excludePath, 'utf8').catch(() => '');
+      if (!exclude.split(/\r?\n/).includes('node_modules')) {
+        await fs.mkdir(path.dirname(excludePath), { recursive: true });
+        await fs.appendFile(excludePath, `${exclude && !exclude.endsWith('\n') ? '\n' : ''}node_modules\n`);
       }
+    } catch (error: any) {
+      logger.warn(`Could not exclude node_modules in ${workspacePath}: ${error.message}`);
+    }
+  }
 
-      // Method 4: Look for skipped tests: "1 skipped"
-      const skippedMatch = output.match(/(\d+)\s+skipped/i);
-      if (skippedMatch && results.skipped === 0) {
-        results.skipped = parseInt(skippedMatch[1]);
-        logger.debug(`Found skipped tests from summary: ${results.skipped}`);
+  /**
+   * Remove a run's workspace and its worktree registration in the shared checkout
+   */
+  private async removeWorkspace(projectPath: string, workspacePath: string): Promise<void> {
+    try {
+      // Links are removed, not followed, so the shared node_modules stays intact
+      await fs.rm(workspacePath, { recursive: true, force: true });
+      await execFileAsync('git', ['worktree', 'prune'], { cwd: projectPath, timeout: 10000 }).catch(() => {});
+    } catch (error: any) {
+      logger.warn(`Could not remove workspace ${workspacePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Remove workspaces left behind by runs that were interrupted by a restart. Workspaces of runs that
+   * a live worker (whose job lease hasn't expired) is still executing are kept.
+   */
+  async removeStaleWorkspaces(): Promise<void> {
+    try {
+      const entries = await fs.readdir(this.workspacesDir);
+      const activeResult = await pool.query(
+        `SELECT r.id::text AS id
+         FROM test_runs r
+         JOIN test_run_jobs j ON j.test_run_id = r.id
+         WHERE r.id::text = ANY($1::text[])
+           AND r.status IN ('queued', 'in_progress')
+           AND j.status = 'running'
+           AND j.lease_expires_at > CURRENT_TIMESTAMP`,
+        [entries]
+      );
+      const active = new Set(activeResult.rows.map(row => row.id));
+
+      const stale = entries.filter(entry => !active.has(entry));
+      for (const entry of stale) {
+        await fs.rm(path.join(this.workspacesDir, entry), { recursive: true, force: true });
       }
+      if (stale.length > 0) {
+        logger.info(`Removed ${stale.length} stale run workspace(s)`);
+      }
+    } catch (error: any) {
+      logger.warn(`Could not clean up run workspaces: ${error.message}`);
+    }
+  }
 
-      // Method 5: Look for flaky tests: "1 flaky"
-      const flakyMatch = output.match(/(\d+)\s+flaky/i);
-      if (flakyMatch) {
-        const flaky = parseInt(flakyMatch[1]);
-        // Count flaky tests as passed (they eventually passed)
-        results.passed += flaky;
-        logger.debug(`Found flaky tests (counted as passed): ${flaky}`);
+
+  /**
+   * Stop the Playwright process for a run. The run is recorded as cancelled with whatever
+   * results were collected once the process exits; if Playwright hasn't started yet it is skipped.
+   * Returns false if this instance has no process running for the run.
+   */
+  cancelTestRun(testRunId: string): boolean {
+    this.cancelledRuns.add(testRunId);
+
+    const child = this.activeProcesses.get(testRunId);
+    if (!child) {
+      return false;
+    }
+
+    logger.info(`Cancelling test run ${testRunId} (pid ${child.pid})`);
+    this.killProcessTree(child);
+    return true;
+  }
+
+  /**
+   * Stop a Playwright process and the browsers and workers it started
+   */
+  private killProcessTree(child: ChildProcess): void {
+    if (!child.pid) {
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      exec(`taskkill /pid ${child.pid} /T /F`, (error) => {
+        if (error) {
+          logger.warn(`Failed to kill process tree ${child.pid}: ${error.message}`);
+        }
+      });
+      return;
+    }
+
+    const pid = child.pid;
+    try {
+      // Playwright was spawned in its own process group; SIGINT lets it stop workers and write its reports
+      process.kill(-pid, 'SIGINT');
+    } catch (error: any) {
+      logger.warn(`Failed to signal process group ${pid}: ${error.message}`);
+      return;
+    }
+
+    // Force it down if it doesn't wind down in time
+    const forceKill = setTimeout(() => {
+      try {
+        process.kill(-pid, 'SIGKILL');
+      } catch {
+        // Already exited
       }
+    }, 15000);
+    child.once('close', () => clearTimeout(forceKill));
+  }
+
+  /**
+   * Resolve the live reporter module (compiled .js in production, .ts under ts-node)
+   */
+  private async getLiveReporterPath(): Promise<string> {
+    const compiledPath = path.join(__dirname, '../reporters/live-reporter.js');
+    try {
+      await fs.access(compiledPath);
+      return compiledPath;
+    } catch {
+      return path.join(__dirname, '../reporters/live-reporter.ts');
+    }
+  }
 
-      // Method 6: Alternative format - "Running X tests using Y workers"
-      const runningMatch = output.match(/Running\s+(\d+)\s+tests?\s+using/i);
-      if (runningMatch) {
-        const totalFromRunning = parseInt(runningMatch[1]);
-        logger.debug(`Found total tests from 'Running' line: ${totalFromRunning}`);
-        // Use this as a sanity check
-        const calculatedTotal = results.passed + results.failed + results.skipped;
-        if (calculatedTotal === 0) {
-          // If we haven't found individual results, at least we know the total
-          logger.debug(`Using total from 'Running' line as reference`);
+  /**
+   * Spawn Playwright and stream its output to the run's Socket.IO room.
+   * Live reporter events are forwarded as structured updates and kept out of the
+   * captured output; every other line is captured for parsing and sent as a log line.
+   */
+  private spawnPlaywright(
+    testRunId: string,
+    cwd: string,
+    args: string[],
+    env: NodeJS.ProcessEnv,
+    mask: (text: string) => string
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    return new Promise((resolve, reject) => {
+      // Cancelled while waiting for browsers to install
+      if (this.cancelledRuns.has(testRunId)) {
+        resolve({ stdout: '', stderr: '', exitCode: 1 });
+        return;
+      }
+
+      const child = spawn('npx', args, {
+        cwd,
+        env,
+        shell: process.platform === 'win32',
+        // Own process group so cancelling can stop Playwright's workers and browsers too
+        detached: process.platform !== 'win32'
+      });
+      this.activeProcesses.set(testRunId, child);
+
+      const output = { stdout: '', stderr: '' };
+      const pending = { stdout: '', stderr: '' };
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        logger.error(`Test run ${testRunId} exceeded the 10 minute timeout, stopping Playwright`);
+        this.killProcessTree(child);
+      }, 600000); // 10 minute timeout
+
+      const handleLine = (rawLine: string, stream: 'stdout' | 'stderr') => {
+        // Environment secrets are masked before output is kept, logged or streamed
+        const line = mask(rawLine);
+
+        if (line.startsWith(LIVE_EVENT_PREFIX)) {
+          try {
+            const event = JSON.parse(line.slice(LIVE_EVENT_PREFIX.length));
+            // JSON escaping can hide a secret from the raw line, so check the decoded error too
+            if (typeof event.error === 'string') {
+              event.error = mask(event.error);
+            }
+            // The final summary is emitted once results are parsed and saved
+            if (event.type !== 'run-end') {
+              runEventsService.emit(testRunId, event);
+            }
+          } catch {
+            logger.debug(`Ignoring malformed live reporter event: ${line}`);
+          }
+          return;
+        }
+
+        output[stream] += line + '\n';
+        if (line.trim()) {
+          runEventsService.emit(testRunId, { type: 'log', stream, text: line });
         }
+      };
+
+      const handleData = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        const lines = (pending[stream] + chunk.toString('utf8')).split(/\r?\n/);
+        pending[stream] = lines.pop() || '';
+        lines.forEach((line) => handleLine(line, stream));
+      };
+
+      child.stdout.on('data', handleData('stdout'));
+      child.stderr.on('data', handleData('stderr'));
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        this.activeProcesses.delete(testRunId);
+        reject(error);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        this.activeProcesses.delete(testRunId);
+
+        // Flush any trailing partial lines
+        (['stdout', 'stderr'] as const).forEach((stream) => {
+          if (pending[stream]) {
+            handleLine(pending[stream], stream);
+            pending[stream] = '';
+          }
+        });
+
+        if (timedOut) {
+          output.stderr += 'Test execution timed out after 10 minutes\n';
+        }
+
+        resolve({ stdout: output.stdout, stderr: output.stderr, exitCode: code ?? 1 });
+      });
+    });
+  }
+
+  /**
+   * Parse Playwright test output to extract results
+   * Supports multiple output formats from Playwright test runner
+   */
+  private parsePlaywrightOutput(output: string): RunTotals {
+    const results = { total: 0, passed: 0, failed: 0, skipped: 0, flaky: 0 };
+
+    try {
+      logger.debug('Parsing Playwright output for test results...');
+
+      // Method 1: The final summary lines, e.g. "  3 passed (5s)", "  1 flaky"
+      // These count each test once, even when it was retried
+      const summaryCount = (label: string): number | null => {
+        const summaryMatch = output.match(new RegExp(`^\\s*(\\d+)\\s+${label}\\b`, 'im'));
+        return summaryMatch ? parseInt(summaryMatch[1]) : null;
+      };
+
+      const summary = {
+        passed: summaryCount('passed'),
+        failed: summaryCount('failed'),
+        skipped: summaryCount('skipped'),
+        flaky: summaryCount('flaky')
+      };
+
+      if (Object.values(summary).some(count => count !== null)) {
+        results.passed = summary.passed || 0;
+        results.failed = summary.failed || 0;
+        results.skipped = summary.skipped || 0;
+        results.flaky = summary.flaky || 0;
+        logger.debug(`Found from summary: ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped, ${results.flaky} flaky`);
+      } else {
+        // Method 2: Count individual test results from list reporter
+        // Look for "✓" (passed), "✘" (failed), "⊘" (skipped) markers
+        results.passed = (output.match(/✓/g) || []).length;
+        results.failed = (output.match(/✘/g) || []).length;
+        results.skipped = (output.match(/⊘/g) || []).length;
+        logger.debug(`Found from markers: ${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped`);
       }
 
-      // Method 7: Look for "X of Y tests passed"
+      // Method 3: Alternative format - "X of Y tests passed"
       const ofTotalMatch = output.match(/(\d+)\s+of\s+(\d+)\s+tests?\s+passed/i);
-      if (ofTotalMatch && results.total === 0) {
+      if (ofTotalMatch && results.passed + results.failed + results.skipped === 0) {
         results.passed = parseInt(ofTotalMatch[1]);
         const totalTests = parseInt(ofTotalMatch[2]);
         results.failed = totalTests - results.passed;
         logger.debug(`Found "X of Y" format: ${results.passed} of ${totalTests} passed`);
       }
 
-      // Calculate total
-      results.total = results.passed + results.failed + results.skipped;
+      // Calculate total - flaky tests are reported separately from passed
+      results.total = results.passed + results.failed + results.skipped + results.flaky;
 
-      logger.info(`Parsed test results: ${results.total} total (${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped)`);
+      logger.info(`Parsed test results: ${results.total} total (${results.passed} passed, ${results.failed} failed, ${results.skipped} skipped, ${results.flaky} flaky)`);
 
       // If no results were parsed, try to extract from the running line
       if (results.total === 0) {
@@ -620,13 +1354,7 @@ class PlaywrightService {
   /**
    * Parse detailed test results including suites, cases, and files
    */
-  private parseDetailedTestResults(output: string): {
-    suites: Map<string, any>;
-    cases: any[];
-    files: Set<string>;
-    totalDuration: number;
-    flakyTests: number;
-  } {
+  private parseDetailedTestResults(output: string): DetailedTestResults {
     const suites = new Map<string, any>();
     const cases: any[] = [];
     const files = new Set<string>();
@@ -698,11 +1426,37 @@ class PlaywrightService {
           suiteName = 'Default Suite';
         }
 
+        // The same test runs once per browser in matrix runs
+        const suiteKey = `${browser}::${suiteName}`;
+
+        // Retries are printed as extra lines: "... › Test Name (retry #1) (2.1s)"
+        const retryMatch = match[0].match(/\(retry #(\d+)\)/);
+        if (retryMatch) {
+          const firstAttempt = cases.find(c =>
+            c.suiteName === suiteName &&
+            c.testName === testName &&
+            c.filePath === cleanFilePath &&
+            c.browser === browser
+          );
+
+          if (firstAttempt) {
+            firstAttempt.retryCount = parseInt(retryMatch[1]);
+            // Failed first, passed on retry
+            if (firstAttempt.status === 'failed' && status === 'passed') {
+              firstAttempt.status = 'flaky';
+              suites.get(suiteKey)!.failedTests--;
+              suites.get(suiteKey)!.flakyTests++;
+            }
+            continue;
+          }
+        }
+
         // Add to suites map
-        if (!suites.has(suiteName)) {
-          suites.set(suiteName, {
+        if (!suites.has(suiteKey)) {
+          suites.set(suiteKey, {
             name: suiteName,
             filePath: cleanFilePath,
+            browser,
             totalTests: 0,
             passedTests: 0,
             failedTests: 0,
@@ -712,7 +1466,7 @@ class PlaywrightService {
           });
         }
 
-        const suite = suites.get(suiteName)!;
+        const suite = suites.get(suiteKey)!;
         suite.totalTests++;
         suite.durationMs += durationMs;
 
@@ -726,6 +1480,7 @@ class PlaywrightService {
           testName,
           filePath: cleanFilePath,
           lineNumber: lineNum ? parseInt(lineNum) : null,
+          browser,
           status,
           durationMs,
           errorMessage: null
@@ -796,6 +1551,21 @@ class PlaywrightService {
         }
       }
 
+      // Attach error messages and stacks from the failure summary to the failed and flaky cases
+      for (const failure of this.parseFailureBlocks(output)) {
+        const failedCase = cases.find(c =>
+          (c.status === 'failed' || c.status === 'flaky') &&
+          !c.errorMessage &&
+          c.lineNumber === failure.lineNumber &&
+          (c.filePath.endsWith(failure.filePath) || failure.filePath.endsWith(c.filePath))
+        );
+
+        if (failedCase) {
+          failedCase.errorMessage = failure.errorMessage;
+          failedCase.stackTrace = failure.stackTrace;
+        }
+      }
+
       logger.info(`Parsed detailed results: ${suites.size} suites, ${cases.length} test cases, ${files.size} test files`);
 
     } catch (error) {
@@ -805,6 +1575,327 @@ class PlaywrightService {
     return { suites, cases, files: files, totalDuration, flakyTests };
   }
 
+  /**
+   * Parse the list reporter's numbered failure blocks, e.g.
+   * "  1) [chromium] › tests/login.spec.ts:12:5 › Login › rejects bad password ───"
+   * followed by the error, code frame and stack.
+   */
+  private parseFailureBlocks(output: string): Array<{
+    filePath: string;
+    lineNumber: number;
+    errorMessage: string;
+    stackTrace: string;
+  }> {
+    const failures: Array<{ filePath: string; lineNumber: number; errorMessage: string; stackTrace: string }> = [];
+    const headerRegex = /^\s+\d+\)\s+(?:\[[^\]]+\]\s+›\s+)?(.+?):(\d+):\d+\s+›.*?─+\s*$/;
+    // The final summary ("1 failed", "2 passed (3s)") ends the last block
+    const summaryRegex = /^\s+\d+\s+(passed|failed|flaky|skipped|interrupted|did not run)\b/;
+
+    let current: { filePath: string; lineNumber: number; lines: string[] } | null = null;
+
+    const finish = () => {
+      if (!current) return;
+
+      const messageLines: string[] = [];
+      const stackLines: string[] = [];
+      for (const line of current.lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('at ')) {
+          stackLines.push(trimmed);
+        } else if (stackLines.length === 0 && !/^>?\s*\d+\s+\|/.test(trimmed) && !trimmed.startsWith('|')) {
+          // Everything before the code frame is the assertion message
+          messageLines.push(trimmed);
+        }
+      }
+
+      const errorMessage = messageLines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+      if (errorMessage) {
+        failures.push({
+          filePath: current.filePath,
+          lineNumber: current.lineNumber,
+          errorMessage,
+          stackTrace: [errorMessage, ...stackLines].join('\n')
+        });
+      }
+      current = null;
+    };
+
+    for (const rawLine of this.stripAnsi(output).split('\n')) {
+      const header = rawLine.match(headerRegex);
+      if (header) {
+        finish();
+        current = { filePath: header[1].trim(), lineNumber: parseInt(header[2]), lines: [] };
+      } else if (current && summaryRegex.test(rawLine)) {
+        finish();
+      } else if (current) {
+        // Only the first attempt's error is kept when a test was retried
+        if (/^\s+Retry #\d+/.test(rawLine) || /^\s+attachment #\d+/.test(rawLine)) {
+          finish();
+        } else {
+          current.lines.push(rawLine);
+        }
+      }
+    }
+    finish();
+
+    return failures;
+  }
+
+  /**
+   * Rewrite a run's results.json with environment secrets masked; it keeps test output, errors and attachment bodies
+   */
+  private async maskJsonReport(jsonReportPath: string, mask: (text: string) => string): Promise<void> {
+    try {
+      const raw = await fs.readFile(jsonReportPath, 'utf8');
+      // Masking the parsed strings also catches values that are escaped in the JSON text
+      const maskBase64 = (encoded: string) => Buffer.from(mask(Buffer.from(encoded, 'base64').toString('utf8'))).toString('base64');
+      const masked = JSON.parse(raw, (_key, value) => {
+        if (typeof value === 'string') {
+          return mask(value);
+        }
+        // Text attachment bodies and binary stdout/stderr chunks are base64 encoded
+        if (typeof value?.body === 'string' && /^text\/|json/.test(value.contentType || '')) {
+          return { ...value, body: maskBase64(value.body) };
+        }
+        if (typeof value?.buffer === 'string') {
+          return { ...value, buffer: maskBase64(value.buffer) };
+        }
+        return value;
+      });
+      await fs.writeFile(jsonReportPath, JSON.stringify(masked, null, 2));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        // Better no results.json than one with secrets in it
+        logger.warn(`Could not mask secrets in ${jsonReportPath}, removing it: ${error.message}`);
+        await fs.rm(jsonReportPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Check every file under a run's report directory for secret values before it can be served.
+   * Text files are masked in place; anything still containing a secret after that is removed.
+   */
+  private async removeSecretsFromReport(
+    reportPath: string,
+    secretValues: string[],
+    mask: (text: string) => string
+  ): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(reportPath, { recursive: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const filePath = path.join(reportPath, entry);
+      try {
+        if (!(await fs.stat(filePath)).isFile()) {
+          continue;
+        }
+
+        let content = await fs.readFile(filePath);
+        if (!secretService.containsSecret(content, secretValues)) {
+          continue;
+        }
+
+        if (TEXT_REPORT_FILE.test(entry)) {
+          content = Buffer.from(mask(content.toString('utf8')));
+          await fs.writeFile(filePath, content);
+        }
+
+        if (secretService.containsSecret(content, secretValues)) {
+          logger.warn(`Removing ${filePath} from the report: it contains an environment secret`);
+          await fs.rm(filePath, { force: true });
+        }
+      } catch (error: any) {
+        logger.warn(`Could not check ${filePath} for secrets, removing it: ${error.message}`);
+        await fs.rm(filePath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Read the JSON reporter output for a run, or null if it is missing or unreadable
+   */
+  private async readJsonReport(
+    reportFile: string
+  ): Promise<{ totals: RunTotals; detailed: DetailedTestResults } | null> {
+    try {
+      const content = await fs.readFile(reportFile, 'utf8');
+      return this.parseJsonReport(JSON.parse(content) as JSONReport);
+    } catch (error: any) {
+      logger.warn(`JSON report not available at ${reportFile}, falling back to output parsing: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Build run totals, suites and cases from Playwright's JSON report.
+   * The outermost describe block is the suite; nested describe titles are kept in the test name.
+   * Each Playwright project (browser) gets its own suite and case results.
+   */
+  private parseJsonReport(report: JSONReport): { totals: RunTotals; detailed: DetailedTestResults } {
+    const suites = new Map<string, any>();
+    const cases: any[] = [];
+    const files = new Set<string>();
+
+    const visitSuite = (suite: JSONReportSuite, titlePath: string[]) => {
+      for (const spec of suite.specs) {
+        const filePath = spec.file;
+        files.add(filePath);
+
+        const suiteName = titlePath[0] || 'Default Suite';
+        const testName = [...titlePath.slice(1), spec.title].join(' › ');
+
+        for (const test of spec.tests) {
+          const finalResult = test.results[test.results.length - 1];
+          // Flaky tests pass on the final attempt, so take the error from the last failed one
+          const failedResult = [...test.results].reverse().find(result => result.error);
+
+          let status: string;
+          if (test.status === 'flaky') status = 'flaky';
+          else if (test.status === 'unexpected') status = 'failed';
+          else if (test.status === 'skipped' || finalResult?.status === 'skipped') status = 'skipped';
+          else status = 'passed';
+
+          const browser = test.projectName || null;
+          const suiteKey = `${browser}::${filePath}::${suiteName}`;
+          if (!suites.has(suiteKey)) {
+            suites.set(suiteKey, {
+              name: suiteName,
+              filePath,
+              browser,
+              totalTests: 0,
+              passedTests: 0,
+              failedTests: 0,
+              skippedTests: 0,
+              flakyTests: 0,
+              durationMs: 0
+            });
+          }
+
+          const durationMs = test.results.reduce((sum, result) => sum + result.duration, 0);
+
+          const suiteResult = suites.get(suiteKey)!;
+          suiteResult.totalTests++;
+          suiteResult.durationMs += durationMs;
+
+          if (status === 'passed') suiteResult.passedTests++;
+          else if (status === 'flaky') suiteResult.flakyTests++;
+          else if (status === 'failed') suiteResult.failedTests++;
+          else if (status === 'skipped') suiteResult.skippedTests++;
+
+          cases.push({
+            suiteName,
+            testName,
+            filePath,
+            lineNumber: spec.line,
+            browser,
+            status,
+            durationMs,
+            errorMessage: failedResult?.error?.message ? this.stripAnsi(failedResult.error.message) : null,
+            stackTrace: failedResult?.error?.stack ? this.stripAnsi(failedResult.error.stack) : null,
+            retryCount: finalResult ? finalResult.retry : 0,
+            attachments: test.results.flatMap(result =>
+              result.attachments
+                .filter(attachment => attachment.path)
+                .map(attachment => ({
+                  name: attachment.name,
+                  contentType: attachment.contentType,
+                  path: attachment.path,
+                  retry: result.retry
+                }))
+            )
+          });
+        }
+      }
+
+      for (const child of suite.suites || []) {
+        visitSuite(child, [...titlePath, child.title]);
+      }
+    };
+
+    // Top level suites are files, the ones below them are describe blocks
+    for (const fileSuite of report.suites) {
+      visitSuite(fileSuite, []);
+    }
+
+    const { expected, unexpected, flaky, skipped } = report.stats;
+    const totals = {
+      total: expected + unexpected + flaky + skipped,
+      passed: expected,
+      failed: unexpected,
+      skipped,
+      flaky
+    };
+
+    logger.info(`Parsed JSON report: ${totals.total} total (${totals.passed} passed, ${totals.failed} failed, ${totals.skipped} skipped, ${flaky} flaky), ${suites.size} suites`);
+
+    return {
+      totals,
+      detailed: {
+        suites,
+        cases,
+        files,
+        totalDuration: Math.round(report.stats.duration),
+        flakyTests: flaky
+      }
+    };
+  }
+
+  /**
+   * Copy screenshots, videos and traces of failed and flaky cases into the run's report directory.
+   * Playwright's test-results folder is wiped by the next run, so the copies are what the UI links to.
+   */
+  private async saveFailureAttachments(
+    reportPath: string,
+    reportName: string,
+    cases: any[]
+  ): Promise<void> {
+    const attachmentsDir = path.join(reportPath, 'attachments');
+    let fileIndex = 0;
+
+    for (const testCase of cases) {
+      if (testCase.status !== 'failed' && testCase.status !== 'flaky') {
+        // Passing tests don't need their artifacts kept
+        testCase.attachments = [];
+        continue;
+      }
+
+      const saved: any[] = [];
+      for (const attachment of testCase.attachments || []) {
+        try {
+          await fs.mkdir(attachmentsDir, { recursive: true });
+
+          const fileName = `${++fileIndex}-${path.basename(attachment.path).replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+          await fs.copyFile(attachment.path, path.join(attachmentsDir, fileName));
+
+          saved.push({ ...attachment, path: `/reports/${reportName}/attachments/${fileName}` });
+        } catch (error: any) {
+          logger.warn(`Could not copy attachment ${attachment.path}: ${error.message}`);
+        }
+      }
+
+      // Prefer the artifacts of the last failing attempt
+      const latest = (matches: (attachment: any) => boolean) =>
+        [...saved].reverse().find(matches)?.path || null;
+
+      testCase.attachments = saved;
+      testCase.screenshotPath = latest(attachment => attachment.contentType.startsWith('image/'));
+      testCase.videoPath = latest(attachment => attachment.contentType.startsWith('video/'));
+      testCase.tracePath = latest(attachment => attachment.name === 'trace');
+    }
+  }
+
+  /**
+   * Remove terminal colour codes from Playwright error output
+   */
+  private stripAnsi(text: string): string {
+    return text.replace(/\u001b\[[0-9;]*m/g, '');
+  }
+
   /**
    * Get next run number for a project
    */
@@ -828,25 +1919,28 @@ class PlaywrightService {
    */
   private async saveDetailedResults(
     testRunId: string,
-    detailedResults: ReturnType<typeof this.parseDetailedTestResults>
+    detailedResults: DetailedTestResults
   ): Promise<void> {
     try {
       // Save suite results
-      for (const [suiteName, suite] of detailedResults.suites) {
+      for (const suite of detailedResults.suites.values()) {
         await pool.query(
           `INSERT INTO test_run_suites
-           (test_run_id, suite_name, file_path, total_tests, passed_tests, failed_tests, skipped_tests, flaky_tests, duration_ms)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+           (test_run_id, suite_name, file_path, total_tests, passed_tests, failed_tests, skipped_tests, flaky_tests,
+            quarantined_tests, duration_ms, browser)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
           [
             testRunId,
-            suiteName,
+            suite.name,
             suite.filePath,
             suite.totalTests,
             suite.passedTests,
             suite.failedTests,
             suite.skippedTests,
             suite.flakyTests,
-            suite.durationMs
+            suite.quarantinedTests || 0,
+            suite.durationMs,
+            suite.browser || null
           ]
         );
       }
@@ -855,8 +1949,9 @@ class PlaywrightService {
       for (const testCase of detailedResults.cases) {
         await pool.query(
           `INSERT INTO test_run_cases
-           (test_run_id, suite_name, test_name, file_path, line_number, status, duration_ms, error_message)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+           (test_run_id, suite_name, test_name, file_path, line_number, status, duration_ms, error_message,
+            stack_trace, retry_count, attachments, screenshot_path, video_path, trace_path, quarantined, browser)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
           [
             testRunId,
             testCase.suiteName,
@@ -865,7 +1960,15 @@ class PlaywrightService {
             testCase.lineNumber,
             testCase.status,
             testCase.durationMs,
-            testCase.errorMessage
+            testCase.errorMessage,
+            testCase.stackTrace || null,
+            testCase.retryCount || 0,
+            JSON.stringify(testCase.attachments || []),
+            testCase.screenshotPath || null,
+            testCase.videoPath || null,
+            testCase.tracePath || null,
+            !!testCase.quarantined,
+            testCase.browser || null
           ]
         );
       }
@@ -877,19 +1980,55 @@ class PlaywrightService {
   }
 
   /**
-   * Get HTML report path for a test run
+   * Signed URL path of a test run's HTML report, or null if it has none
    */
   async getReportPath(testRunId: string): Promise<string | null> {
-    const reportPath = path.join(this.reportsDir, `report-${testRunId}`, 'index.html');
+    const reportPath = path.join(this.getReportDir(testRunId), 'index.html');
 
     try {
       await fs.access(reportPath);
-      return `/reports/report-${testRunId}/index.html`;
+      return reportAccessService.url(testRunId);
     } catch {
       return null;
     }
   }
 
+  /**
+   * Directory a test run's HTML report, results.json and failure attachments are written to
+   */
+  getReportDir(testRunId: string): string {
+    return path.join(this.reportsDir, `report-${testRunId}`);
+  }
+
+  /**
+   * Move reports written by older versions, which kept them in the publicly served public/reports
+   */
+  async migrateLegacyReports(): Promise<void> {
+    const legacyDir = path.join(__dirname, '../../public/reports');
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(legacyDir);
+    } catch {
+      return;
+    }
+
+    const reports = entries.filter(name => name.startsWith('report-'));
+    if (reports.length === 0) {
+      return;
+    }
+
+    await fs.mkdir(this.reportsDir, { recursive: true });
+    for (const report of reports) {
+      try {
+        await fs.rename(path.join(legacyDir, report), path.join(this.reportsDir, report));
+      } catch (error: any) {
+        logger.warn(`Could not move ${report} out of public/reports: ${error.message}`);
+      }
+    }
+    logger.info(`Moved ${reports.length} report(s) out of public/reports`);
+  }
+
   /**
    * Get the latest test run for a project
    */
@@ -927,7 +2066,65 @@ class PlaywrightService {
   }
 
   /**
-   * List all cloned projects
+   * Directory a project's repository is checked out in. It is keyed by the project ID,
+   * so renaming a project keeps its checkout.
+   */
+  getProjectPath(projectId: string): string {
+    return path.join(this.projectsDir, projectId);
+  }
+
+  /**
+   * Whether a project's repository has been cloned (or its files put in place)
+   */
+  async hasCheckout(projectId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getProjectPath(projectId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Move checkouts made by older versions, which used the (sanitized or raw) project name as the directory,
+   * to the project's ID-keyed directory
+   */
+  async migrateProjectDirectories(): Promise<void> {
+    const result = await pool.query('SELECT id, name FROM projects');
+
+    for (const project of result.rows) {
+      const projectPath = this.getProjectPath(project.id);
+      try {
+        await fs.access(projectPath);
+        continue;
+      } catch {
+        // Not migrated yet
+      }
+
+      for (const legacyName of new Set([this.sanitizeProjectName(project.name), project.name.trim()])) {
+        // Names that aren't a plain directory name can't be one of ours
+        if (!legacyName || legacyName !== path.basename(legacyName) || legacyName.startsWith('.')) {
+          continue;
+        }
+
+        const legacyPath = path.join(this.projectsDir, legacyName);
+        try {
+          if (!(await fs.stat(legacyPath)).isDirectory()) {
+            continue;
+          }
+        } catch {
+          continue;
+        }
+
+        await fs.rename(legacyPath, projectPath);
+        logger.info(`Moved the checkout of project '${project.name}' from ${legacyName} to ${project.id}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * IDs of all projects with a checkout
    */
   async listProjects(): Promise<string[]> {
     try {
@@ -951,16 +2148,16 @@ class PlaywrightService {
   }
 
   /**
-   * Delete a cloned project
+   * Delete a project's checkout
    */
-  async deleteProject(projectName: string): Promise<void> {
-    const projectPath = path.join(this.projectsDir, projectName);
+  async deleteProject(projectId: string): Promise<void> {
+    const projectPath = this.getProjectPath(projectId);
 
     try {
       await fs.rm(projectPath, { recursive: true, force: true });
-      logger.info(`Project ${projectName} deleted`);
+      logger.info(`Checkout of project ${projectId} deleted`);
     } catch (error) {
-      logger.error(`Error deleting project ${projectName}:`, error);
+      logger.error(`Error deleting checkout of project ${projectId}:`, error);
       throw new Error('Failed to delete project');
     }
   }
@@ -0,0 +1,119 @@
+import pool from '../config/database';
+import { ProjectMember, ProjectRole } from '../models/types';
+
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'maintainer', 'runner', 'viewer'];
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  runner: 2,
+  maintainer: 3,
+  owner: 4
+};
+
+class ProjectMemberService {
+  /**
+   * The user's role in the project, or null if they aren't a member
+   */
+  async getRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+    const result = await pool.query(
+      'SELECT role FROM project_members WHERE project_id = $1 AND user_id = $2',
+      [projectId, userId]
+    );
+
+    return result.rows[0]?.role || null;
+  }
+
+  /**
+   * Whether a role allows what the required role allows
+   */
+  satisfies(role: ProjectRole, required: ProjectRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+  }
+
+  /**
+   * Whether a user may follow a test run's live output: admins and members of the run's project
+   */
+  async canViewRun(runId: string, user: { userId: string; role: string }): Promise<boolean> {
+    if (user.role === 'admin') {
+      return true;
+    }
+
+    const projectId = await this.projectOfRun(runId);
+    const role = projectId && await this.getRole(projectId, user.userId);
+    return !!role && this.satisfies(role, 'viewer');
+  }
+
+  /**
+   * Members of a project with their user details, owners first
+   */
+  async list(projectId: string) {
+    const result = await pool.query(
+      `SELECT pm.*, u.username, u.email, u.full_name
+       FROM project_members pm
+       JOIN users u ON pm.user_id = u.id
+       WHERE pm.project_id = $1
+       ORDER BY array_position($2::text[], pm.role::text), u.username`,
+      [projectId, PROJECT_ROLES]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Add a user to a project; returns null if they already are a member
+   */
+  async add(projectId: string, userId: string, role: ProjectRole, addedBy?: string): Promise<ProjectMember | null> {
+    const result = await pool.query(
+      `INSERT INTO project_members (project_id, user_id, role, added_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (project_id, user_id) DO NOTHING
+       RETURNING *`,
+      [projectId, userId, role, addedBy || null]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Number of owners a project has; it must always keep at least one
+   */
+  async countOwners(projectId: string): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*) FROM project_members WHERE project_id = $1 AND role = 'owner'`,
+      [projectId]
+    );
+
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Project a test suite belongs to
+   */
+  async projectOfSuite(suiteId: string): Promise<string | null> {
+    const result = await pool.query('SELECT project_id FROM test_suites WHERE id = $1', [suiteId]);
+    return result.rows[0]?.project_id || null;
+  }
+
+  /**
+   * Project a test case belongs to, through its suite
+   */
+  async projectOfTestCase(testCaseId: string): Promise<string | null> {
+    const result = await pool.query(
+      `SELECT ts.project_id FROM test_cases tc
+       JOIN test_suites ts ON tc.suite_id = ts.id
+       WHERE tc.id = $1`,
+      [testCaseId]
+    );
+    return result.rows[0]?.project_id || null;
+  }
+
+  /**
+   * Project a test run belongs to
+   */
+  async projectOfRun(runId: string): Promise<string | null> {
+    const result = await pool.query('SELECT project_id FROM test_runs WHERE id = $1', [runId]);
+    return result.rows[0]?.project_id || null;
+  }
+}
+
+export default new ProjectMemberService();
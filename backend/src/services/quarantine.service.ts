@@ -0,0 +1,94 @@
+import pool from '../config/database';
+import logger from '../config/logger';
+
+/**
+ * A quarantine entry resolved to the file and title it applies to
+ */
+interface QuarantineTarget {
+  id: string;
+  filePath: string | null;
+  title: string | null;
+  lineNumber: number | null;
+}
+
+class QuarantineService {
+  /**
+   * Unexpired quarantine entries for a project. Entries keyed by test case id
+   * take the file, title and line from the discovered test case.
+   */
+  async getActiveQuarantines(projectId: string): Promise<QuarantineTarget[]> {
+    const result = await pool.query(
+      `SELECT q.id,
+              COALESCE(tc.file_path, q.file_path) as file_path,
+              COALESCE(tc.name, q.test_title) as title,
+              tc.line_number
+       FROM test_quarantines q
+       LEFT JOIN test_cases tc ON q.test_case_id = tc.id
+       WHERE q.project_id = $1
+         AND (q.expires_at IS NULL OR q.expires_at > NOW())`,
+      [projectId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      filePath: row.file_path,
+      title: row.title,
+      lineNumber: row.line_number
+    }));
+  }
+
+  /**
+   * Flag the parsed test cases of a run that are quarantined in the project.
+   * Sets `quarantined` on every case and returns the cases that matched.
+   */
+  async markQuarantinedCases(projectId: string, cases: any[]): Promise<any[]> {
+    let quarantines: QuarantineTarget[];
+    try {
+      quarantines = await this.getActiveQuarantines(projectId);
+    } catch (error) {
+      // Never lose a run's results because the quarantine list couldn't be read
+      logger.error('Error loading quarantined tests:', error);
+      quarantines = [];
+    }
+
+    const matched: any[] = [];
+    for (const testCase of cases) {
+      testCase.quarantined = quarantines.some(quarantine => this.matches(quarantine, testCase));
+      if (testCase.quarantined) {
+        matched.push(testCase);
+      }
+    }
+
+    if (matched.length > 0) {
+      logger.info(`${matched.length} quarantined test(s) in this run`);
+    }
+
+    return matched;
+  }
+
+  private matches(quarantine: QuarantineTarget, testCase: any): boolean {
+    if (!quarantine.filePath || !testCase.filePath || !this.pathsMatch(quarantine.filePath, testCase.filePath)) {
+      return false;
+    }
+
+    if (quarantine.lineNumber && testCase.lineNumber === quarantine.lineNumber) {
+      return true;
+    }
+
+    // Run results name tests "describe › title", discovered test cases only by their title
+    const testName: string = testCase.testName || '';
+    return !!quarantine.title && (testName === quarantine.title || testName.endsWith(` › ${quarantine.title}`));
+  }
+
+  /**
+   * Report paths are relative to Playwright's testDir, discovered paths to the repository root
+   */
+  private pathsMatch(a: string, b: string): boolean {
+    const normalize = (filePath: string) => filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    const left = normalize(a);
+    const right = normalize(b);
+    return left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`);
+  }
+}
+
+export default new QuarantineService();
@@ -0,0 +1,71 @@
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+const REPORT_URL_EXPIRES_IN = process.env.REPORT_URL_EXPIRES_IN || '1h';
+
+// Where report files were referenced from before they were served through signed URLs;
+// attachment paths of test cases are still stored this way
+const STORED_REPORT_PATH = /^\/reports\/report-([0-9a-f-]{36})\/(.+)$/i;
+
+/**
+ * Short-lived signed URLs for a run's HTML report and failure attachments.
+ * The token is part of the path, so the pages and assets an HTML report loads by relative URL carry it too,
+ * and reports can be opened in a new tab or an iframe, which can't send an Authorization header.
+ */
+class ReportAccessService {
+  private sign(testRunId: string): string {
+    return jwt.sign(
+      { run: testRunId, purpose: 'report' },
+      JWT_SECRET as jwt.Secret,
+      { expiresIn: REPORT_URL_EXPIRES_IN } as jwt.SignOptions
+    );
+  }
+
+  /**
+   * Path of a file in a run's report directory, e.g. /api/v1/executions/reports/<token>/index.html
+   */
+  url(testRunId: string, file: string = 'index.html'): string {
+    const apiVersion = process.env.API_VERSION || 'v1';
+    return `/api/${apiVersion}/executions/reports/${this.sign(testRunId)}/${file}`;
+  }
+
+  /**
+   * The test run a report token was signed for; null if it is invalid or expired
+   */
+  verify(token: string): string | null {
+    try {
+      const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+      return payload.purpose === 'report' && typeof payload.run === 'string' ? payload.run : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Signed URL for a stored /reports/report-<run id>/... path; other values are returned unchanged
+   */
+  signPath(storedPath: string | null): string | null {
+    const match = storedPath && STORED_REPORT_PATH.exec(storedPath);
+    return match ? this.url(match[1], match[2]) : storedPath;
+  }
+
+  /**
+   * A test case result with signed URLs for its screenshot, video, trace and other attachments
+   */
+  signCaseArtifacts<T extends Record<string, any>>(testCase: T): T {
+    return {
+      ...testCase,
+      screenshot_path: this.signPath(testCase.screenshot_path ?? null),
+      video_path: this.signPath(testCase.video_path ?? null),
+      trace_path: this.signPath(testCase.trace_path ?? null),
+      attachments: Array.isArray(testCase.attachments)
+        ? testCase.attachments.map((attachment: { path?: string }) => ({
+            ...attachment,
+            path: this.signPath(attachment.path ?? null)
+          }))
+        : testCase.attachments
+    };
+  }
+}
+
+export default new ReportAccessService();
@@ -0,0 +1,53 @@
+import { Server } from 'socket.io';
+import logger from '../config/logger';
+
+export type RunEventType =
+  | 'status'
+  | 'run-begin'
+  | 'test-begin'
+  | 'test-end'
+  | 'log'
+  | 'summary';
+
+export interface RunEvent {
+  type: RunEventType;
+  [key: string]: unknown;
+}
+
+class RunEventsService {
+  /**
+   * Socket.IO server registered by App.initializeSocketIO
+   */
+  private get io(): Server | undefined {
+    return (global as any).io;
+  }
+
+  /**
+   * Room name a client joins with `join-execution`
+   */
+  roomFor(testRunId: string): string {
+    return `execution-${testRunId}`;
+  }
+
+  /**
+   * Push an update to everyone following a test run
+   */
+  emit(testRunId: string, event: RunEvent): void {
+    const io = this.io;
+    if (!io) {
+      return;
+    }
+
+    try {
+      io.to(this.roomFor(testRunId)).emit('test-run-update', {
+        runId: testRunId,
+        timestamp: new Date().toISOString(),
+        ...event
+      });
+    } catch (error) {
+      logger.debug(`Failed to emit ${event.type} for run ${testRunId}:`, error);
+    }
+  }
+}
+
+export default new RunEventsService();
@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import os from 'os';
+import pool from '../config/database';
+import logger from '../config/logger';
+import playwrightService, { PlaywrightConfig } from './playwright.service';
+import runEventsService from './run-events.service';
+import { TestRunJob } from '../models/types';
+
+export interface QueuedTestRun {
+  testRunId: string;
+  runName: string;
+  runNumber: number;
+  status: string;
+}
+
+class RunQueueService {
+  private readonly pollIntervalMs = parseInt(process.env.RUN_QUEUE_POLL_INTERVAL_MS || '2000');
+  // Runs executed at once by this instance, across all projects
+  private readonly concurrency = Math.max(1, parseInt(process.env.RUN_QUEUE_CONCURRENCY || '1'));
+  // Runs of one project executed at once, unless the project sets max_concurrent_runs
+  private readonly projectConcurrency = Math.max(1, parseInt(process.env.RUN_QUEUE_PROJECT_CONCURRENCY || '1'));
+  // How long a claimed job stays with this instance without a renewal; after that other instances recover it
+  private readonly leaseMs = Math.max(10000, parseInt(process.env.RUN_QUEUE_LEASE_MS || '60000'));
+  // Recorded on the jobs this instance claims, so several instances can share the queue
+  readonly workerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private leaseTimer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+  // Test runs being executed by this instance's workers
+  private readonly activeRuns = new Set<string>();
+
+  /**
+   * Create a queued test run and its job, returning immediately
+   */
+  async enqueue(config: PlaywrightConfig): Promise<QueuedTestRun> {
+    const testRun = await playwrightService.createTestRun(config);
+
+    await pool.query(
+      `INSERT INTO test_run_jobs (test_run_id, project_id, config)
+       VALUES ($1, $2, $3)`,
+      [testRun.id, config.projectId, JSON.stringify(config)]
+    );
+
+    logger.info(`Queued ${testRun.run_name} (${testRun.id}) for project ${config.projectId}`);
+
+    // Pick the job up right away if a worker slot is free
+    setImmediate(() => this.poll());
+
+    return {
+      testRunId: testRun.id,
+      runName: testRun.run_name,
+      runNumber: testRun.run_number,
+      status: testRun.status
+    };
+  }
+
+  /**
+   * Cancel a queued or running test run.
+   * Returns the run's status after the request ('cancelling' while a worker stops it),
+   * or null if the run doesn't exist.
+   */
+  async cancel(testRunId: string): Promise<string | null> {
+    const runResult = await pool.query(
+      'SELECT status FROM test_runs WHERE id = $1',
+      [testRunId]
+    );
+
+    if (runResult.rows.length === 0) {
+      return null;
+    }
+
+    const { status } = runResult.rows[0];
+    if (status !== 'queued' && status !== 'in_progress') {
+      return status;
+    }
+
+    // A worker in this instance owns the run: stop Playwright and let the worker save partial results
+    if (this.activeRuns.has(testRunId)) {
+      playwrightService.cancelTestRun(testRunId);
+      return 'cancelling';
+    }
+
+    // Nobody is executing it (still queued, or orphaned), so cancel it in the database
+    await pool.query(
+      `UPDATE test_run_jobs
+       SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP
+       WHERE test_run_id = $1 AND status IN ('queued', 'running')`,
+      [testRunId]
+    );
+
+    await pool.query(
+      `UPDATE test_runs
+       SET status = 'cancelled', end_time = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [testRunId]
+    );
+
+    logger.info(`Cancelled test run ${testRunId} before it started`);
+    runEventsService.emit(testRunId, { type: 'status', status: 'cancelled' });
+
+    return 'cancelled';
+  }
+
+  /**
+   * Recover from a previous shutdown and start polling for queued jobs
+   */
+  async start(): Promise<void> {
+    await this.recoverInterruptedRuns();
+    await playwrightService.removeStaleWorkspaces();
+
+    // Renew this instance's leases well before they expire, and recover jobs of instances that went away
+    this.leaseTimer = setInterval(() => this.renewLeases(), Math.floor(this.leaseMs / 3));
+
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    logger.info(`Run queue started as worker ${this.workerId} (concurrency: ${this.concurrency}, per project: ${this.projectConcurrency})`);
+    this.poll();
+  }
+
+  /**
+   * Stop polling for new jobs. Running jobs are left to finish, and their leases are renewed until the
+   * process exits; after that another instance (or this one on boot) recovers them.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info('Run queue stopped');
+    }
+  }
+
+  /**
+   * Extend the lease of every job this instance is running, then recover jobs whose lease ran out
+   */
+  private async renewLeases(): Promise<void> {
+    try {
+      if (this.activeRuns.size > 0) {
+        await pool.query(
+          `UPDATE test_run_jobs
+           SET lease_expires_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+           WHERE worker_id = $1 AND status = 'running'`,
+          [this.workerId, this.leaseMs / 1000]
+        );
+      }
+
+      await this.recoverInterruptedRuns();
+    } catch (error) {
+      logger.error('Error renewing run queue leases:', error);
+    }
+  }
+
+  /**
+   * Mark runs as interrupted when the instance running them went down: their job's lease expired without
+   * being renewed. That includes runs whose job a worker had claimed but that were still queued because
+   * the worker hadn't started them yet. Jobs of live instances, and jobs still queued, are left alone.
+   */
+  private async recoverInterruptedRuns(): Promise<void> {
+    try {
+      const runsResult = await pool.query(
+        `WITH interrupted_jobs AS (
+           UPDATE test_run_jobs
+           SET status = 'interrupted', finished_at = CURRENT_TIMESTAMP
+           WHERE status = 'running'
+             AND (lease_expires_at IS NULL OR lease_expires_at < CURRENT_TIMESTAMP)
+           RETURNING test_run_id
+         )
+         UPDATE test_runs
+         SET status = 'interrupted',
+             end_time = CURRENT_TIMESTAMP,
+             error_message = COALESCE(error_message, 'The backend restarted while this run was in progress')
+         WHERE (status IN ('queued', 'in_progress') AND id IN (SELECT test_run_id FROM interrupted_jobs))
+            -- In progress without any running job (started before runs were queued)
+            OR (status = 'in_progress' AND NOT EXISTS (
+              SELECT 1 FROM test_run_jobs j WHERE j.test_run_id = test_runs.id AND j.status = 'running'
+            ))
+         RETURNING id`
+      );
+
+      if (runsResult.rows.length > 0) {
+        logger.warn(`Marked ${runsResult.rows.length} orphaned test run(s) as interrupted`);
+      }
+    } catch (error) {
+      logger.error('Error recovering interrupted test runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim and start queued jobs while worker slots are available
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || !this.pollTimer) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      while (this.activeJobs < this.concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) {
+          break;
+        }
+
+        this.activeJobs++;
+        this.processJob(job).finally(() => {
+          this.activeJobs--;
+          setImmediate(() => this.poll());
+        });
+      }
+    } catch (error) {
+      logger.error('Error polling run queue:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Atomically move the oldest queued job to running, skipping projects already at their concurrency limit
+   */
+  private async claimNextJob(): Promise<TestRunJob | null> {
+    const result = await pool.query(
+      `UPDATE test_run_jobs
+       SET status = 'running', started_at = CURRENT_TIMESTAMP, attempts = attempts + 1,
+           worker_id = $2, lease_expires_at = CURRENT_TIMESTAMP + make_interval(secs => $3)
+       WHERE id = (
+         SELECT j.id FROM test_run_jobs j
+         JOIN projects p ON p.id = j.project_id
+         WHERE j.status = 'queued'
+           AND (
+             SELECT COUNT(*) FROM test_run_jobs running
+             WHERE running.project_id = j.project_id AND running.status = 'running'
+           ) < COALESCE(p.max_concurrent_runs, $1)
+         ORDER BY j.created_at
+         LIMIT 1
+         FOR UPDATE OF j SKIP LOCKED
+       )
+       RETURNING *`,
+      [this.projectConcurrency, this.workerId, this.leaseMs / 1000]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Execute a claimed job and record its outcome
+   */
+  private async processJob(job: TestRunJob): Promise<void> {
+    logger.info(`Worker picked up test run ${job.test_run_id} (job ${job.id})`);
+    this.activeRuns.add(job.test_run_id);
+
+    try {
+      const result = await playwrightService.executeTestRun(job.test_run_id, job.config as PlaywrightConfig);
+
+      await pool.query(
+        `UPDATE test_run_jobs
+         SET status = $1, finished_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [result.status === 'cancelled' ? 'cancelled' : 'completed', job.id]
+      );
+    } catch (error: any) {
+      logger.error(`Test run ${job.test_run_id} failed:`, error);
+
+      try {
+        await pool.query(
+          `UPDATE test_run_jobs
+           SET status = 'failed', finished_at = CURRENT_TIMESTAMP, error_message = $1
+           WHERE id = $2`,
+          [error.message, job.id]
+        );
+
+        // Make sure the run doesn't stay queued/in progress forever
+        await pool.query(
+          `UPDATE test_runs
+           SET status = 'failed', end_time = CURRENT_TIMESTAMP, error_message = $1
+           WHERE id = $2 AND status IN ('queued', 'in_progress')`,
+          [error.message, job.test_run_id]
+        );
+
+        runEventsService.emit(job.test_run_id, {
+          type: 'status',
+          status: 'failed',
+          errorMessage: error.message
+        });
+      } catch (updateError) {
+        logger.error('Error recording failed test run job:', updateError);
+      }
+    } finally {
+      this.activeRuns.delete(job.test_run_id);
+    }
+  }
+}
+
+export default new RunQueueService();
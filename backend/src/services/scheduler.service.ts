@@ -0,0 +1,144 @@
+import parser from 'cron-parser';
+import pool from '../config/database';
+import logger from '../config/logger';
+import runQueueService from './run-queue.service';
+import { TestSchedule } from '../models/types';
+
+class SchedulerService {
+  private readonly pollIntervalMs = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '30000');
+  // A due time older than this is treated as missed (the server was down) rather than just late
+  private readonly missedAfterMs = Math.max(60000, this.pollIntervalMs * 2);
+  private pollTimer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Next time a cron expression fires after `from`, in the schedule's time zone
+   */
+  getNextRun(cronExpression: string, timezone: string = 'UTC', from: Date = new Date()): Date {
+    return parser.parseExpression(cronExpression, { currentDate: from, tz: timezone }).next().toDate();
+  }
+
+  /**
+   * Returns an error message for an invalid cron expression or time zone, or null if both are valid
+   */
+  validate(cronExpression: string, timezone: string = 'UTC'): string | null {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      return `Unknown time zone: ${timezone}`;
+    }
+
+    try {
+      this.getNextRun(cronExpression, timezone);
+    } catch (error: any) {
+      return `Invalid cron expression: ${error.message}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Start checking for due schedules. Schedules missed while the server was down
+   * are handled on the first tick according to their missed run policy.
+   */
+  start(): void {
+    this.pollTimer = setInterval(() => this.tick(), this.pollIntervalMs);
+    logger.info(`Scheduler started (checking every ${this.pollIntervalMs / 1000}s)`);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+      logger.info('Scheduler stopped');
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking || !this.pollTimer) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const result = await pool.query(
+        `SELECT * FROM test_schedules
+         WHERE enabled AND next_run_at IS NOT NULL AND next_run_at <= NOW()
+         ORDER BY next_run_at`
+      );
+
+      for (const schedule of result.rows as TestSchedule[]) {
+        await this.runDueSchedule(schedule);
+      }
+    } catch (error) {
+      logger.error('Error checking schedules:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runDueSchedule(schedule: TestSchedule): Promise<void> {
+    const now = new Date();
+    const dueAt = new Date(schedule.next_run_at!);
+
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = this.getNextRun(schedule.cron_expression, schedule.timezone, now);
+    } catch (error: any) {
+      logger.error(`Schedule ${schedule.id} has an invalid cron expression, disabling it: ${error.message}`);
+      await pool.query(
+        'UPDATE test_schedules SET enabled = false, next_run_at = NULL WHERE id = $1',
+        [schedule.id]
+      );
+      return;
+    }
+
+    // Claim this occurrence by moving next_run_at forward; another instance may have beaten us to it
+    const claim = await pool.query(
+      `UPDATE test_schedules
+       SET next_run_at = $1
+       WHERE id = $2 AND next_run_at = $3
+       RETURNING id`,
+      [nextRunAt, schedule.id, schedule.next_run_at]
+    );
+
+    if (claim.rows.length === 0) {
+      return;
+    }
+
+    const missed = now.getTime() - dueAt.getTime() > this.missedAfterMs;
+    if (missed && schedule.missed_run_policy === 'skip') {
+      logger.info(`Skipping missed run of schedule "${schedule.name}" (was due ${dueAt.toISOString()})`);
+      return;
+    }
+
+    try {
+      // Queued through the same path as a manual project run
+      const queuedRun = await runQueueService.enqueue({
+        projectId: schedule.project_id,
+        suiteId: schedule.suite_id || undefined,
+        browser: schedule.browser,
+        workers: schedule.workers,
+        headed: false,
+        branch: schedule.branch || undefined,
+        environmentId: schedule.environment_id || undefined,
+        triggerSource: 'schedule',
+        scheduleId: schedule.id
+      });
+
+      await pool.query(
+        `UPDATE test_schedules
+         SET last_run_at = $1, last_test_run_id = $2
+         WHERE id = $3`,
+        [now, queuedRun.testRunId, schedule.id]
+      );
+
+      logger.info(`Schedule "${schedule.name}" queued ${queuedRun.runName}${missed ? ' (catching up a missed run)' : ''}`);
+    } catch (error) {
+      logger.error(`Failed to queue run for schedule ${schedule.id}:`, error);
+    }
+  }
+}
+
+export default new SchedulerService();
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+// Shown instead of a secret's value in run output
+export const SECRET_MASK = '***';
+
+class SecretService {
+  /**
+   * Server key from SECRETS_ENCRYPTION_KEY: 32 bytes, hex (64 characters) or base64 encoded
+   */
+  private getKey(): Buffer {
+    const value = process.env.SECRETS_ENCRYPTION_KEY;
+    if (!value) {
+      throw new Error('SECRETS_ENCRYPTION_KEY is not configured');
+    }
+
+    const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+    if (key.length !== 32) {
+      throw new Error('SECRETS_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)');
+    }
+
+    return key;
+  }
+
+  /**
+   * Whether secrets can be encrypted and decrypted on this server
+   */
+  isConfigured(): boolean {
+    try {
+      this.getKey();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Encrypt a value for storage, as `v1:<iv>:<auth tag>:<ciphertext>` (base64 parts)
+   */
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  /**
+   * Decrypt a value produced by encrypt. Fails if it was tampered with or encrypted with another key.
+   */
+  decrypt(payload: string): string {
+    const [version, iv, authTag, ciphertext] = payload.split(':');
+    if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+      throw new Error('Unrecognised encrypted value');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  /**
+   * Build a function that replaces every occurrence of the given secret values with a mask.
+   * Longer values are replaced first so a secret containing another one is masked whole.
+   */
+  createMasker(values: string[]): (text: string) => string {
+    const secrets = this.maskableValues(values).sort((a, b) => b.length - a.length);
+
+    if (secrets.length === 0) {
+      return (text) => text;
+    }
+
+    const pattern = new RegExp(secrets.map(secret => secret.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g');
+    return (text) => text && text.replace(pattern, SECRET_MASK);
+  }
+
+  /**
+   * Whether any of the secret values createMasker would mask appears in the content, as is or JSON escaped
+   */
+  containsSecret(content: Buffer, values: string[]): boolean {
+    return this.maskableValues(values).some(secret =>
+      content.includes(secret) || content.includes(JSON.stringify(secret).slice(1, -1))
+    );
+  }
+
+  private maskableValues(values: string[]): string[] {
+    // Very short values would mask ordinary output, so they're left alone
+    return [...new Set(values.filter(value => value && value.length >= 4))];
+  }
+}
+
+export default new SecretService();
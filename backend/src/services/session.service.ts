@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Server } from 'socket.io';
+import pool from '../config/database';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// What a login session's access token is issued for
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: string;
+}
+
+// Client metadata recorded with a session, shown in the admin sessions view
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+class SessionService {
+  private hash(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  /**
+   * Socket.IO server registered by App.initializeSocketIO
+   */
+  private get io(): Server | undefined {
+    return (global as any).io;
+  }
+
+  /**
+   * Room every Socket.IO connection authenticated with a session's access token joins
+   */
+  socketRoom(sessionId: string): string {
+    return `session-${sessionId}`;
+  }
+
+  /**
+   * Room every Socket.IO connection of a user joins, whether by session or API token
+   */
+  userSocketRoom(userId: string): string {
+    return `user-${userId}`;
+  }
+
+  // Live updates stop with the session, not just new API requests
+  private disconnectSockets(rooms: string[]): void {
+    const io = this.io;
+    if (io && rooms.length > 0) {
+      io.in(rooms).disconnectSockets(true);
+    }
+  }
+
+  private newRefreshToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private signAccessToken(user: SessionUser, sessionId: string): string {
+    return jwt.sign(
+      { userId: user.id, username: user.username, role: user.role, sid: sessionId },
+      JWT_SECRET as jwt.Secret,
+      { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
+    );
+  }
+
+  /**
+   * Start a session for a user who just logged in or registered
+   */
+  async create(user: SessionUser, client: SessionClient = {}): Promise<SessionTokens> {
+    const refreshToken = this.newRefreshToken();
+
+    const result = await pool.query(
+      `INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(days => $5))
+       RETURNING id`,
+      [user.id, this.hash(refreshToken), client.userAgent?.slice(0, 255) || null, client.ipAddress || null, REFRESH_TOKEN_TTL_DAYS]
+    );
+
+    return { token: this.signAccessToken(user, result.rows[0].id), refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token; the old one stops working.
+   * Null if the refresh token is unknown, expired or revoked, or the user has been deactivated.
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens | null> {
+    const nextRefreshToken = this.newRefreshToken();
+
+    const result = await pool.query(
+      `UPDATE user_sessions s
+       SET refresh_token_hash = $2,
+           last_used_at = CURRENT_TIMESTAMP,
+           expires_at = CURRENT_TIMESTAMP + make_interval(days => $3)
+       FROM users u
+       WHERE s.refresh_token_hash = $1
+         AND s.user_id = u.id
+         AND s.revoked_at IS NULL
+         AND s.expires_at > CURRENT_TIMESTAMP
+         AND u.is_active = true
+       RETURNING s.id, u.id as user_id, u.username, u.role`,
+      [this.hash(refreshToken), this.hash(nextRefreshToken), REFRESH_TOKEN_TTL_DAYS]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      token: this.signAccessToken({ id: row.user_id, username: row.username, role: row.role }, row.id),
+      refreshToken: nextRefreshToken
+    };
+  }
+
+  /**
+   * The user behind an access token's session, with their current role.
+   * Null once the session is revoked or expired, or the user is deactivated.
+   */
+  async verify(sessionId: string): Promise<SessionUser | null> {
+    const result = await pool.query(
+      `SELECT u.id, u.username, u.role
+       FROM user_sessions s
+       JOIN users u ON s.user_id = u.id
+       WHERE s.id = $1
+         AND s.revoked_at IS NULL
+         AND s.expires_at > CURRENT_TIMESTAMP
+         AND u.is_active = true`,
+      [sessionId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout); false if it isn't an active session
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE refresh_token_hash = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [this.hash(refreshToken)]
+    );
+
+    this.disconnectSockets(result.rows.map(row => this.socketRoom(row.id)));
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Revoke one session; false if it isn't active
+   */
+  async revoke(sessionId: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [sessionId]
+    );
+
+    this.disconnectSockets(result.rows.map(row => this.socketRoom(row.id)));
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Revoke every session of a user, optionally keeping the one making the request.
+   * Without an exception all of the user's sockets are disconnected, including API token ones.
+   * Returns the number revoked.
+   */
+  async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($2::uuid IS NULL OR id <> $2)
+       RETURNING id`,
+      [userId, exceptSessionId || null]
+    );
+
+    this.disconnectSockets(exceptSessionId
+      ? result.rows.map(row => this.socketRoom(row.id))
+      : [this.userSocketRoom(userId)]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Active sessions of all users, most recently used first
+   */
+  async listActive() {
+    const result = await pool.query(
+      `SELECT s.id, s.user_id, u.username, u.full_name, s.user_agent, s.ip_address,
+              s.created_at, s.last_used_at, s.expires_at
+       FROM user_sessions s
+       JOIN users u ON s.user_id = u.id
+       WHERE s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+       ORDER BY s.last_used_at DESC`
+    );
+
+    return result.rows;
+  }
+}
+
+export default new SessionService();
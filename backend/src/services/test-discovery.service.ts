@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import logger from '../config/logger';
 import pool from '../config/database';
+import playwrightService from './playwright.service';
 
 interface TestSuite {
   name: string;
@@ -15,21 +16,28 @@ interface TestCase {
 }
 
 class TestDiscoveryService {
-  private readonly projectsDir = path.join(__dirname, '../../test-projects');
+  /**
+   * Directory tests are discovered in: the working subdirectory of the project's checkout, or of another
+   * checkout of the repository (e.g. a pushed commit)
+   */
+  private testRoot(projectId: string, workingDirectory?: string | null, checkoutPath?: string): string {
+    return path.join(checkoutPath || playwrightService.getProjectPath(projectId), workingDirectory || '');
+  }
 
   /**
-   * Discover all test files in a project directory
+   * Discover all test files in a project directory, or in its working subdirectory if it has one.
+   * Paths are relative to that directory, which is where the tests are run from.
    */
-  async discoverTestFiles(projectName: string): Promise<string[]> {
-    const projectPath = path.join(this.projectsDir, projectName);
+  async discoverTestFiles(projectId: string, workingDirectory?: string | null, checkoutPath?: string): Promise<string[]> {
+    const projectPath = this.testRoot(projectId, workingDirectory, checkoutPath);
     const testFiles: string[] = [];
 
     try {
       await this.findTestFilesRecursive(projectPath, projectPath, testFiles);
-      logger.info(`Found ${testFiles.length} test files in project: ${projectName}`);
+      logger.info(`Found ${testFiles.length} test files in project: ${projectId}`);
       return testFiles;
     } catch (error) {
-      logger.error(`Error discovering test files in ${projectName}:`, error);
+      logger.error(`Error discovering test files in ${projectId}:`, error);
       throw error;
     }
   }
@@ -85,8 +93,13 @@ class TestDiscoveryService {
   /**
    * Parse a test file to extract test suites and test cases
    */
-  async parseTestFile(projectName: string, relativeFilePath: string): Promise<TestSuite> {
-    const projectPath = path.join(this.projectsDir, projectName);
+  async parseTestFile(
+    projectId: string,
+    relativeFilePath: string,
+    workingDirectory?: string | null,
+    checkoutPath?: string
+  ): Promise<TestSuite> {
+    const projectPath = this.testRoot(projectId, workingDirectory, checkoutPath);
     const fullPath = path.join(projectPath, relativeFilePath);
 
     try {
@@ -160,17 +173,23 @@ class TestDiscoveryService {
   }
 
   /**
-   * Sync discovered tests to database for a project
+   * Sync discovered tests to database for a project, from its checkout or from checkoutPath if given
    */
-  async syncTestsToDatabase(projectId: string, projectName: string): Promise<{
+  async syncTestsToDatabase(projectId: string, projectName: string, checkoutPath?: string): Promise<{
     suitesCreated: number;
     testsCreated: number;
   }> {
     try {
       logger.info(`Starting test sync for project: ${projectName}`);
 
+      const projectResult = await pool.query(
+        'SELECT working_directory FROM projects WHERE id = $1',
+        [projectId]
+      );
+      const workingDirectory: string | null = projectResult.rows[0]?.working_directory || null;
+
       // Discover all test files
-      const testFiles = await this.discoverTestFiles(projectName);
+      const testFiles = await this.discoverTestFiles(projectId, workingDirectory, checkoutPath);
 
       if (testFiles.length === 0) {
         logger.warn(`No test files found in project: ${projectName}`);
@@ -182,7 +201,7 @@ class TestDiscoveryService {
 
       // Parse each test file and save to database
       for (const testFile of testFiles) {
-        const suite = await this.parseTestFile(projectName, testFile);
+        const suite = await this.parseTestFile(projectId, testFile, workingDirectory, checkoutPath);
 
         // Check if suite already exists
         const existingSuite = await pool.query(
@@ -195,13 +214,19 @@ class TestDiscoveryService {
         if (existingSuite.rows.length > 0) {
           suiteId = existingSuite.rows[0].id;
           logger.debug(`Suite already exists: ${suite.name}`);
+
+          // Backfill the file for suites synced before file paths were recorded
+          await pool.query(
+            'UPDATE test_suites SET file_path = $1 WHERE id = $2 AND file_path IS NULL',
+            [suite.filePath, suiteId]
+          );
         } else {
           // Create new suite
           const suiteResult = await pool.query(
-            `INSERT INTO test_suites (project_id, name, description)
-             VALUES ($1, $2, $3)
+            `INSERT INTO test_suites (project_id, name, description, file_path)
+             VALUES ($1, $2, $3, $4)
              RETURNING id`,
-            [projectId, suite.name, `Test file: ${suite.filePath}`]
+            [projectId, suite.name, `Test file: ${suite.filePath}`, suite.filePath]
           );
           suiteId = suiteResult.rows[0].id;
           suitesCreated++;
@@ -216,7 +241,13 @@ class TestDiscoveryService {
             [suiteId, test.name]
           );
 
-          if (existingTest.rows.length === 0) {
+          if (existingTest.rows.length > 0) {
+            // Keep the location current so the case can be run by file:line
+            await pool.query(
+              'UPDATE test_cases SET file_path = $1, line_number = $2 WHERE id = $3',
+              [suite.filePath, test.line, existingTest.rows[0].id]
+            );
+          } else {
             await pool.query(
               `INSERT INTO test_cases (suite_id, name, description, file_path, line_number)
                VALUES ($1, $2, $3, $4, $5)`,
@@ -252,9 +283,8 @@ class TestDiscoveryService {
     testFiles: string[];
   }> {
     try {
-      // Get project name from database
       const projectResult = await pool.query(
-        'SELECT name FROM projects WHERE id = $1',
+        'SELECT working_directory FROM projects WHERE id = $1',
         [projectId]
       );
 
@@ -262,10 +292,8 @@ class TestDiscoveryService {
         throw new Error('Project not found');
       }
 
-      const projectName = projectResult.rows[0].name;
-
       // Discover test files
-      const testFiles = await this.discoverTestFiles(projectName);
+      const testFiles = await this.discoverTestFiles(projectId, projectResult.rows[0].working_directory);
 
       // Get database counts
       const suiteCount = await pool.query(
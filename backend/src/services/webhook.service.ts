@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export type WebhookProvider = 'github' | 'gitlab' | 'azure-devops' | 'generic';
+
+export interface WebhookPush {
+  provider: WebhookProvider;
+  // Full ref as sent by the provider, e.g. refs/heads/main
+  ref: string | null;
+  branch: string | null;
+  commitSha: string | null;
+  // Set when the event shouldn't trigger a run (tag pushes, branch deletions, pings...)
+  ignoredReason?: string;
+}
+
+const ZERO_SHA = /^0+$/;
+
+class WebhookService {
+  /**
+   * Generate a new per-project webhook secret
+   */
+  generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Work out which provider sent a request from the headers it always sets
+   */
+  detectProvider(headers: IncomingHttpHeaders, payload: any): WebhookProvider {
+    if (headers['x-github-event']) return 'github';
+    if (headers['x-gitlab-event']) return 'gitlab';
+    if (payload?.publisherId === 'tfs' || (typeof payload?.eventType === 'string' && payload.eventType.startsWith('git.'))) {
+      return 'azure-devops';
+    }
+    return 'generic';
+  }
+
+  /**
+   * Check a request against the project's secret the way the provider authenticates it:
+   * - GitHub signs the raw body with HMAC-SHA256 in X-Hub-Signature-256
+   * - GitLab sends the secret token as-is in X-Gitlab-Token
+   * - Azure DevOps service hooks send it as the basic auth password
+   * - Generic callers sign the body like GitHub (X-Signature-256) or send it as a bearer token
+   */
+  verify(provider: WebhookProvider, headers: IncomingHttpHeaders, rawBody: Buffer, secret: string): boolean {
+    switch (provider) {
+      case 'github':
+        return this.verifySignature(this.header(headers, 'x-hub-signature-256'), rawBody, secret);
+
+      case 'gitlab':
+        return this.safeEqual(this.header(headers, 'x-gitlab-token'), secret);
+
+      case 'azure-devops': {
+        const authorization = this.header(headers, 'authorization');
+        if (!authorization?.startsWith('Basic ')) return false;
+        const credentials = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+        return this.safeEqual(credentials.slice(credentials.indexOf(':') + 1), secret);
+      }
+
+      case 'generic': {
+        const signature = this.header(headers, 'x-signature-256');
+        if (signature) {
+          return this.verifySignature(signature, rawBody, secret);
+        }
+        const authorization = this.header(headers, 'authorization');
+        return !!authorization?.startsWith('Bearer ') && this.safeEqual(authorization.slice(7), secret);
+      }
+    }
+  }
+
+  /**
+   * Pull the pushed ref and commit out of a provider's payload
+   */
+  parsePush(provider: WebhookProvider, headers: IncomingHttpHeaders, payload: any): WebhookPush {
+    let push: WebhookPush;
+
+    switch (provider) {
+      case 'github': {
+        const event = this.header(headers, 'x-github-event');
+        if (event !== 'push') {
+          return { provider, ref: null, branch: null, commitSha: null, ignoredReason: `Ignoring GitHub ${event} event` };
+        }
+        push = { provider, ref: payload.ref, branch: null, commitSha: payload.after };
+        break;
+      }
+
+      case 'gitlab':
+        if (payload.object_kind !== 'push') {
+          return { provider, ref: null, branch: null, commitSha: null, ignoredReason: `Ignoring GitLab ${payload.object_kind} event` };
+        }
+        push = { provider, ref: payload.ref, branch: null, commitSha: payload.checkout_sha || payload.after };
+        break;
+
+      case 'azure-devops': {
+        if (payload.eventType !== 'git.push') {
+          return { provider, ref: null, branch: null, commitSha: null, ignoredReason: `Ignoring Azure DevOps ${payload.eventType} event` };
+        }
+        const refUpdate = payload.resource?.refUpdates?.[0] || {};
+        push = { provider, ref: refUpdate.name, branch: null, commitSha: refUpdate.newObjectId };
+        break;
+      }
+
+      default: {
+        // { "ref": "refs/heads/main" } or { "branch": "main" }, with an optional "commit"/"sha"
+        const ref = payload?.ref || (payload?.branch ? `refs/heads/${payload.branch}` : null);
+        push = { provider, ref, branch: null, commitSha: payload?.commit || payload?.sha || payload?.commit_sha || null };
+      }
+    }
+
+    if (push.ref && !push.ref.startsWith('refs/heads/')) {
+      return { ...push, ignoredReason: `Ignoring push to ${push.ref} (not a branch)` };
+    }
+    if (push.commitSha && ZERO_SHA.test(push.commitSha)) {
+      return { ...push, ignoredReason: `Ignoring deletion of ${push.ref}` };
+    }
+
+    return {
+      ...push,
+      branch: push.ref ? push.ref.replace(/^refs\/heads\//, '') : null,
+      commitSha: push.commitSha || null
+    };
+  }
+
+  private verifySignature(signature: string | undefined, rawBody: Buffer, secret: string): boolean {
+    if (!signature?.startsWith('sha256=')) return false;
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    return this.safeEqual(signature.slice(7), expected);
+  }
+
+  private safeEqual(value: string | undefined, expected: string): boolean {
+    if (!value) return false;
+    const a = Buffer.from(value);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private header(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
+
+export default new WebhookService();
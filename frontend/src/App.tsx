@@ -8,6 +8,7 @@ import ProjectDetailEnhanced from './pages/ProjectDetailEnhanced';
 import TestSuites from './pages/TestSuites';
 import TestSuiteDetail from './pages/TestSuiteDetail';
 import TestResults from './pages/TestResults';
+import RunComparison from './pages/RunComparison';
 import Settings from './pages/Settings';
 import DiagnosticTest from './pages/DiagnosticTest';
 import './styles/index.css';
@@ -29,6 +30,7 @@ function App() {
             <Route path="suites" element={<TestSuites />} />
             <Route path="suites/:id" element={<TestSuiteDetail />} />
             <Route path="results" element={<TestResults />} />
+            <Route path="runs/:runId/compare/:otherRunId" element={<RunComparison />} />
             <Route path="settings" element={<Settings />} />
           </Route>
         </Route>
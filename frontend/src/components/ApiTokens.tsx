@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import Button from './common/Button';
+import type { ApiToken, ApiTokenScope } from '../types';
+import '../styles/ApiTokens.css';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read: view projects, runs and reports',
+  run: 'Run: read, plus start and cancel runs',
+  admin: 'Admin: everything your account can do'
+};
+
+// Days until expiry offered when creating a token; 0 never expires
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Never' }
+];
+
+const tokenStatus = (token: ApiToken): 'active' | 'expired' | 'revoked' => {
+  if (token.revoked_at) return 'revoked';
+  if (token.expires_at && new Date(token.expires_at) <= new Date()) return 'expired';
+  return 'active';
+};
+
+const ApiTokens: React.FC = () => {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('run');
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [saving, setSaving] = useState(false);
+  // The token just created; shown once so it can be copied
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.users.getTokens();
+      setTokens(response.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching API tokens:', err);
+      setError('Failed to load API tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const errorMessage = (err: unknown, fallback: string) =>
+    isAxiosError<{ message?: string; errors?: Array<{ msg: string }> }>(err)
+      ? err.response?.data?.errors?.[0]?.msg || err.response?.data?.message || fallback
+      : fallback;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await api.users.createToken({
+        name: name.trim(),
+        scope,
+        expires_at: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : undefined
+      });
+      setNewToken(response.data.data?.token || null);
+      setShowForm(false);
+      setName('');
+      setError(null);
+      await fetchTokens();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create API token'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will stop working immediately.`)) {
+      return;
+    }
+
+    try {
+      await api.users.revokeToken(token.id);
+      await fetchTokens();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to revoke API token'));
+    }
+  };
+
+  return (
+    <div className="api-tokens">
+      {error && <div className="token-error">{error}</div>}
+
+      {newToken && (
+        <div className="token-created">
+          <div className="token-created-title">Copy your new token now. It won't be shown again.</div>
+          <code className="token-value">{newToken}</code>
+          <div className="token-created-actions">
+            <Button variant="secondary" onClick={() => navigator.clipboard.writeText(newToken)}>
+              Copy
+            </Button>
+            <Button variant="secondary" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="token-empty">Loading API tokens...</div>
+      ) : tokens.length === 0 ? (
+        <div className="token-empty">
+          No API tokens. Create one to trigger runs and fetch results from CI or scripts.
+        </div>
+      ) : (
+        <div className="token-list">
+          {tokens.map((token) => {
+            const status = tokenStatus(token);
+            return (
+              <div key={token.id} className={`token-row token-${status}`}>
+                <div>
+                  <div className="token-name">
+                    {token.name}
+                    <span className="token-scope">{token.scope}</span>
+                    {status !== 'active' && <span className="token-status">{status}</span>}
+                  </div>
+                  <div className="token-meta">
+                    <span><code>{token.token_prefix}…</code></span>
+                    <span>Created {new Date(token.created_at).toLocaleDateString()}</span>
+                    <span>
+                      {token.expires_at ? `Expires ${new Date(token.expires_at).toLocaleDateString()}` : 'Never expires'}
+                    </span>
+                    <span>
+                      {token.last_used_at ? `Last used ${new Date(token.last_used_at).toLocaleString()}` : 'Never used'}
+                    </span>
+                  </div>
+                </div>
+                {status === 'active' && (
+                  <button className="token-revoke" onClick={() => handleRevoke(token)}>
+                    Revoke
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm ? (
+        <form className="token-form" onSubmit={handleCreate}>
+          <label>
+            Name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. GitHub Actions"
+              maxLength={100}
+              required
+            />
+          </label>
+          <label>
+            Scope
+            <select value={scope} onChange={(e) => setScope(e.target.value as ApiTokenScope)}>
+              {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Expires
+            <select value={expiryDays} onChange={(e) => setExpiryDays(parseInt(e.target.value))}>
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <p className="token-hint">
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code>. A token never has more access than your account.
+          </p>
+          <div className="token-form-actions">
+            <Button type="button" variant="secondary" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving || !name.trim()}>
+              {saving ? 'Creating...' : 'Create Token'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="secondary" className="token-new" onClick={() => setShowForm(true)}>
+          + New API Token
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import type { TestRunCaseStatus } from '../types';
+import '../styles/BrowserMatrix.css';
+
+interface MatrixCase {
+  browser?: string | null;
+  file_path: string | null;
+  suite_name: string | null;
+  test_name: string;
+  status: TestRunCaseStatus;
+  duration_ms: number | null;
+  error_message?: string | null;
+}
+
+interface BrowserMatrixProps {
+  browsers: string[];
+  cases: MatrixCase[];
+}
+
+interface MatrixRow {
+  key: string;
+  file_path: string | null;
+  suite_name: string | null;
+  test_name: string;
+  results: Record<string, MatrixCase>;
+  // Failed in some browsers but passed in others
+  browserSpecific: boolean;
+  failing: boolean;
+}
+
+const STATUS_ICONS: Record<TestRunCaseStatus, string> = {
+  passed: '✓',
+  failed: '✗',
+  flaky: '⚠',
+  skipped: '⊘'
+};
+
+const formatDuration = (ms: number | null): string => {
+  if (!ms) return '';
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+};
+
+const BrowserMatrix: React.FC<BrowserMatrixProps> = ({ browsers, cases }) => {
+  const [filter, setFilter] = useState<'all' | 'failing' | 'browser-specific'>('all');
+
+  const rows = useMemo(() => {
+    const byTest = new Map<string, MatrixRow>();
+
+    for (const testCase of cases) {
+      const key = `${testCase.file_path}|${testCase.suite_name}|${testCase.test_name}`;
+      if (!byTest.has(key)) {
+        byTest.set(key, {
+          key,
+          file_path: testCase.file_path,
+          suite_name: testCase.suite_name,
+          test_name: testCase.test_name,
+          results: {},
+          browserSpecific: false,
+          failing: false
+        });
+      }
+      if (testCase.browser) {
+        byTest.get(key)!.results[testCase.browser] = testCase;
+      }
+    }
+
+    for (const row of byTest.values()) {
+      const statuses = Object.values(row.results).map(result => result.status);
+      row.failing = statuses.includes('failed');
+      row.browserSpecific = row.failing && statuses.some(status => status === 'passed' || status === 'flaky');
+    }
+
+    // Browser-specific failures first, then other failures
+    return [...byTest.values()].sort((a, b) =>
+      Number(b.browserSpecific) - Number(a.browserSpecific) || Number(b.failing) - Number(a.failing)
+    );
+  }, [cases]);
+
+  const browserTotals = useMemo(() =>
+    browsers.map(browser => {
+      const results = cases.filter(testCase => testCase.browser === browser);
+      return {
+        browser,
+        passed: results.filter(result => result.status === 'passed' || result.status === 'flaky').length,
+        failed: results.filter(result => result.status === 'failed').length
+      };
+    }), [browsers, cases]);
+
+  const browserSpecificCount = rows.filter(row => row.browserSpecific).length;
+  const visibleRows = rows.filter(row =>
+    filter === 'all' || (filter === 'failing' ? row.failing : row.browserSpecific)
+  );
+
+  return (
+    <div className="browser-matrix">
+      <div className="matrix-header">
+        <h4>
+          Browser Matrix
+          {browserSpecificCount > 0 && (
+            <span className="matrix-specific-count">
+              {browserSpecificCount} browser-specific failure{browserSpecificCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </h4>
+        <select value={filter} onChange={(e) => setFilter(e.target.value as typeof filter)}>
+          <option value="all">All tests</option>
+          <option value="failing">Failing anywhere</option>
+          <option value="browser-specific">Browser-specific failures</option>
+        </select>
+      </div>
+
+      <div className="matrix-scroll">
+        <table className="matrix-table">
+          <thead>
+            <tr>
+              <th>Test</th>
+              {browserTotals.map(({ browser, passed, failed }) => (
+                <th key={browser} className="matrix-browser">
+                  <div>{browser}</div>
+                  <div className="matrix-browser-totals">
+                    <span className="matrix-passed">{passed}</span> / <span className="matrix-failed">{failed}</span>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <tr key={row.key} className={row.browserSpecific ? 'matrix-row-specific' : ''}>
+                <td>
+                  <div className="matrix-test-name">{row.test_name}</div>
+                  <div className="matrix-test-location">
+                    {[row.file_path, row.suite_name].filter(Boolean).join(' › ')}
+                  </div>
+                </td>
+                {browsers.map((browser) => {
+                  const result = row.results[browser];
+                  return result ? (
+                    <td
+                      key={browser}
+                      className={`matrix-cell matrix-cell-${result.status}`}
+                      title={result.error_message || result.status}
+                    >
+                      <span className="matrix-icon">{STATUS_ICONS[result.status]}</span>
+                      <span className="matrix-duration">{formatDuration(result.duration_ms)}</span>
+                    </td>
+                  ) : (
+                    <td key={browser} className="matrix-cell matrix-cell-missing" title="Not run in this browser">—</td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <div className="matrix-empty">No tests match this filter.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrowserMatrix;
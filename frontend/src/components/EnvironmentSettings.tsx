@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import Button from './common/Button';
+import type { ProjectEnvironment, CreateProjectEnvironmentDTO } from '../types';
+import '../styles/EnvironmentSettings.css';
+
+interface EnvironmentSettingsProps {
+  projectId: string;
+}
+
+interface KeyValueRow {
+  key: string;
+  value: string;
+}
+
+interface EnvironmentForm {
+  name: string;
+  description: string;
+  base_url: string;
+  is_default: boolean;
+  variables: KeyValueRow[];
+  // Secrets already stored; their values can be replaced or removed but never read back
+  secretKeys: string[];
+  removedSecrets: string[];
+  newSecrets: KeyValueRow[];
+}
+
+const emptyForm = (): EnvironmentForm => ({
+  name: '',
+  description: '',
+  base_url: '',
+  is_default: false,
+  variables: [],
+  secretKeys: [],
+  removedSecrets: [],
+  newSecrets: []
+});
+
+const toObject = (rows: KeyValueRow[]): Record<string, string> =>
+  Object.fromEntries(rows.filter(row => row.key.trim()).map(row => [row.key.trim(), row.value]));
+
+const EnvironmentSettings: React.FC<EnvironmentSettingsProps> = ({ projectId }) => {
+  const [environments, setEnvironments] = useState<ProjectEnvironment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<EnvironmentForm>(emptyForm);
+  // null while creating a new environment
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchEnvironments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.environments.getByProject(projectId);
+      setEnvironments(response.data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching environments:', err);
+      setError('Failed to load environments');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchEnvironments();
+  }, [fetchEnvironments]);
+
+  const errorMessage = (err: unknown, fallback: string) =>
+    isAxiosError<{ message?: string; errors?: Array<{ msg: string }> }>(err)
+      ? err.response?.data?.errors?.[0]?.msg || err.response?.data?.message || fallback
+      : fallback;
+
+  const openCreateForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (environment: ProjectEnvironment) => {
+    setForm({
+      name: environment.name,
+      description: environment.description || '',
+      base_url: environment.base_url || '',
+      is_default: environment.is_default,
+      variables: Object.entries(environment.variables || {}).map(([key, value]) => ({ key, value })),
+      secretKeys: environment.secret_keys,
+      removedSecrets: [],
+      newSecrets: []
+    });
+    setEditingId(environment.id);
+    setShowForm(true);
+  };
+
+  const updateRow = (field: 'variables' | 'newSecrets', index: number, changes: Partial<KeyValueRow>) => {
+    setForm({
+      ...form,
+      [field]: form[field].map((row, i) => (i === index ? { ...row, ...changes } : row))
+    });
+  };
+
+  const removeRow = (field: 'variables' | 'newSecrets', index: number) => {
+    setForm({ ...form, [field]: form[field].filter((_, i) => i !== index) });
+  };
+
+  const toggleSecretRemoval = (key: string) => {
+    setForm({
+      ...form,
+      removedSecrets: form.removedSecrets.includes(key)
+        ? form.removedSecrets.filter(name => name !== key)
+        : [...form.removedSecrets, key]
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data: CreateProjectEnvironmentDTO = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        base_url: form.base_url.trim() || null,
+        is_default: form.is_default,
+        variables: toObject(form.variables),
+        secrets: {
+          ...Object.fromEntries(form.removedSecrets.map(key => [key, null])),
+          ...toObject(form.newSecrets)
+        }
+      };
+      if (editingId) {
+        await api.environments.update(projectId, editingId, data);
+      } else {
+        await api.environments.create(projectId, data);
+      }
+      setShowForm(false);
+      setError(null);
+      await fetchEnvironments();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save environment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (environment: ProjectEnvironment) => {
+    try {
+      await api.environments.update(projectId, environment.id, { is_default: true });
+      await fetchEnvironments();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update environment'));
+    }
+  };
+
+  const handleDelete = async (environment: ProjectEnvironment) => {
+    if (!window.confirm(`Delete the environment "${environment.name}"? Its secrets will be lost.`)) {
+      return;
+    }
+
+    try {
+      await api.environments.delete(projectId, environment.id);
+      await fetchEnvironments();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete environment'));
+    }
+  };
+
+  return (
+    <div className="environment-settings">
+      <div className="environment-settings-header">
+        <p className="environment-settings-hint">
+          Variables and secrets are passed to Playwright as environment variables, with the base URL as
+          <code>BASE_URL</code>. Secrets are encrypted at rest and masked in run output.
+        </p>
+        {!showForm && (
+          <Button variant="primary" onClick={openCreateForm}>
+            <span>+</span>
+            New Environment
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="environment-error">{error}</div>}
+
+      {showForm && (
+        <form className="environment-form" onSubmit={handleSubmit}>
+          <div className="environment-form-grid">
+            <label>
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="staging"
+                required
+              />
+            </label>
+            <label>
+              Base URL
+              <input
+                type="url"
+                value={form.base_url}
+                onChange={(e) => setForm({ ...form, base_url: e.target.value })}
+                placeholder="https://staging.example.com"
+              />
+            </label>
+            <label>
+              Description
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <div className="environment-section">
+            <div className="environment-section-title">Variables</div>
+            {form.variables.map((row, index) => (
+              <div key={index} className="environment-row">
+                <input
+                  value={row.key}
+                  onChange={(e) => updateRow('variables', index, { key: e.target.value })}
+                  placeholder="NAME"
+                />
+                <input
+                  value={row.value}
+                  onChange={(e) => updateRow('variables', index, { value: e.target.value })}
+                  placeholder="value"
+                />
+                <button type="button" className="environment-action" onClick={() => removeRow('variables', index)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="environment-action"
+              onClick={() => setForm({ ...form, variables: [...form.variables, { key: '', value: '' }] })}
+            >
+              + Add variable
+            </button>
+          </div>
+
+          <div className="environment-section">
+            <div className="environment-section-title">Secrets</div>
+            {form.secretKeys.map((key) => (
+              <div key={key} className="environment-row">
+                <code className={form.removedSecrets.includes(key) ? 'environment-secret-removed' : ''}>{key}</code>
+                <span className="environment-secret-value">••••••••</span>
+                <button type="button" className="environment-action" onClick={() => toggleSecretRemoval(key)}>
+                  {form.removedSecrets.includes(key) ? 'Keep' : 'Remove'}
+                </button>
+              </div>
+            ))}
+            {form.newSecrets.map((row, index) => (
+              <div key={index} className="environment-row">
+                <input
+                  value={row.key}
+                  onChange={(e) => updateRow('newSecrets', index, { key: e.target.value })}
+                  placeholder="NAME"
+                />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={row.value}
+                  onChange={(e) => updateRow('newSecrets', index, { value: e.target.value })}
+                  placeholder={form.secretKeys.includes(row.key.trim()) ? 'New value' : 'value'}
+                />
+                <button type="button" className="environment-action" onClick={() => removeRow('newSecrets', index)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="environment-action"
+              onClick={() => setForm({ ...form, newSecrets: [...form.newSecrets, { key: '', value: '' }] })}
+            >
+              + Add or replace secret
+            </button>
+          </div>
+
+          <label className="environment-default">
+            <input
+              type="checkbox"
+              checked={form.is_default}
+              onChange={(e) => setForm({ ...form, is_default: e.target.checked })}
+            />
+            Default environment for runs
+          </label>
+
+          <div className="environment-form-actions">
+            <Button type="button" variant="secondary" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save Environment' : 'Create Environment'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="environment-empty">Loading environments...</div>
+      ) : environments.length === 0 ? (
+        <div className="environment-empty">No environments yet</div>
+      ) : (
+        <div className="environment-list">
+          {environments.map((environment) => (
+            <div key={environment.id} className="environment-item">
+              <div className="environment-info">
+                <div className="environment-name">
+                  {environment.name}
+                  {environment.is_default && <span className="environment-badge">Default</span>}
+                </div>
+                {environment.description && (
+                  <div className="environment-description">{environment.description}</div>
+                )}
+                <div className="environment-meta">
+                  <span>{environment.base_url || 'No base URL'}</span>
+                  <span>
+                    {Object.keys(environment.variables || {}).length} variable
+                    {Object.keys(environment.variables || {}).length === 1 ? '' : 's'}
+                  </span>
+                  {environment.secret_keys.length > 0 ? (
+                    <span>
+                      Secrets: {environment.secret_keys.map((key) => <code key={key}>{key}</code>)}
+                    </span>
+                  ) : (
+                    <span>No secrets</span>
+                  )}
+                </div>
+              </div>
+              <div className="environment-actions">
+                {!environment.is_default && (
+                  <button className="environment-action" onClick={() => handleMakeDefault(environment)}>
+                    Make default
+                  </button>
+                )}
+                <button className="environment-action" onClick={() => openEditForm(environment)}>
+                  Edit
+                </button>
+                <button className="environment-action environment-action-danger" onClick={() => handleDelete(environment)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentSettings;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import socketService from '../services/socket.service';
+import type { TestRunUpdate } from '../types';
+import '../styles/LiveRunProgress.css';
+
+const MAX_LOG_LINES = 200;
+
+type TestOutcome = 'passed' | 'failed' | 'skipped' | 'flaky';
+
+interface LiveRunProgressProps {
+  runId: string;
+  runName?: string;
+  onFinished?: (update: TestRunUpdate) => void;
+}
+
+const LiveRunProgress: React.FC<LiveRunProgressProps> = ({ runId, runName, onFinished }) => {
+  const [status, setStatus] = useState<string>('queued');
+  const [totalTests, setTotalTests] = useState<number | null>(null);
+  // Keyed by test id so retries replace the earlier attempt instead of being counted twice
+  const [outcomes, setOutcomes] = useState<Record<string, TestOutcome>>({});
+  const [currentTest, setCurrentTest] = useState<string | null>(null);
+  const [logLines, setLogLines] = useState<string[]>([]);
+  const [showLog, setShowLog] = useState(false);
+  const [summary, setSummary] = useState<TestRunUpdate | null>(null);
+  // Kept in a ref so a new callback from the parent doesn't re-join the room
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    const handleUpdate = (update: TestRunUpdate) => {
+      if (update.runId !== runId) return;
+
+      switch (update.type) {
+        case 'status':
+          if (update.status) setStatus(update.status);
+          if (update.status === 'failed' || update.status === 'cancelled') {
+            setSummary(update);
+            setCurrentTest(null);
+            onFinishedRef.current?.(update);
+          }
+          break;
+        case 'run-begin':
+          setStatus('in_progress');
+          setTotalTests(update.totalTests ?? null);
+          break;
+        case 'test-begin':
+          setCurrentTest(update.title || null);
+          break;
+        case 'test-end': {
+          if (!update.testId) break;
+          const outcome: TestOutcome =
+            update.outcome === 'skipped' ? 'skipped'
+              : update.outcome === 'unexpected' ? 'failed'
+              : update.outcome === 'flaky' ? 'flaky'
+              : 'passed';
+          setOutcomes(prev => ({ ...prev, [update.testId as string]: outcome }));
+          break;
+        }
+        case 'log':
+          if (update.text) {
+            const text = update.text;
+            setLogLines(prev => [...prev, text].slice(-MAX_LOG_LINES));
+          }
+          break;
+        case 'summary':
+          if (update.status) setStatus(update.status);
+          setSummary(update);
+          setCurrentTest(null);
+          onFinishedRef.current?.(update);
+          break;
+      }
+    };
+
+    socketService.connect();
+    socketService.joinExecutionRoom(runId);
+    socketService.onTestRunUpdate(handleUpdate);
+
+    return () => {
+      socketService.offTestRunUpdate(handleUpdate);
+      socketService.leaveExecutionRoom(runId);
+    };
+  }, [runId]);
+
+  const results = Object.values(outcomes);
+  const passed = results.filter(outcome => outcome === 'passed').length;
+  const failed = results.filter(outcome => outcome === 'failed').length;
+  const skipped = results.filter(outcome => outcome === 'skipped').length;
+  const flaky = results.filter(outcome => outcome === 'flaky').length;
+  const completed = results.length;
+  const percentOf = (count: number) => (totalTests ? (count / totalTests) * 100 : 0);
+
+  return (
+    <div className="live-run-progress">
+      <div className="live-run-header">
+        <span className={`live-run-indicator live-${summary ? 'done' : status}`} />
+        <span className="live-run-title">{runName || 'Test run'}</span>
+        <span className="live-run-status">{status.replace('_', ' ')}</span>
+        {totalTests !== null && (
+          <span className="live-run-count">
+            {completed} / {totalTests} tests
+          </span>
+        )}
+      </div>
+
+      <div className="live-run-bar">
+        <div className="live-run-segment live-passed" style={{ width: `${percentOf(passed)}%` }} />
+        <div className="live-run-segment live-failed" style={{ width: `${percentOf(failed)}%` }} />
+        <div className="live-run-segment live-flaky" style={{ width: `${percentOf(flaky)}%` }} />
+        <div className="live-run-segment live-skipped" style={{ width: `${percentOf(skipped)}%` }} />
+      </div>
+
+      <div className="live-run-meta">
+        <span className="live-passed-text">{passed} passed</span>
+        <span className="live-failed-text">{failed} failed</span>
+        <span className="live-skipped-text">{skipped} skipped</span>
+        {flaky > 0 && <span className="live-flaky-text">{flaky} flaky</span>}
+        {currentTest && <span className="live-current-test">Running: {currentTest}</span>}
+      </div>
+
+      {summary?.errorMessage && <div className="live-run-error">{summary.errorMessage}</div>}
+
+      {logLines.length > 0 && (
+        <div className="live-run-log-section">
+          <button className="live-run-log-toggle" onClick={() => setShowLog(!showLog)}>
+            {showLog ? 'Hide output' : `Show output (${logLines.length} lines)`}
+          </button>
+          {showLog && <pre className="live-run-log">{logLines.join('\n')}</pre>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveRunProgress;
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import api from '../services/api.service';
+import type { AnalyticsQuery, AnalyticsTrendPoint, ProjectAnalytics as ProjectAnalyticsData } from '../types';
+import '../styles/ProjectAnalytics.css';
+
+interface ProjectAnalyticsProps {
+  projectId: string;
+  projectName: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const formatBucket = (bucket: string, interval: 'day' | 'week') =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(new Date(bucket)) +
+  (interval === 'week' ? ' (wk)' : '');
+
+interface LineSeries {
+  label: string;
+  className: string;
+  values: Array<number | null>;
+}
+
+// Line chart over the trend buckets; gaps (null) break the line
+const LineChart: React.FC<{ series: LineSeries[]; max: number; format: (value: number) => string }> = ({ series, max, format }) => {
+  const count = series[0]?.values.length || 0;
+  const x = (index: number) => (count > 1 ? (index / (count - 1)) * CHART_WIDTH : CHART_WIDTH / 2);
+  const y = (value: number) => CHART_HEIGHT - (value / (max || 1)) * (CHART_HEIGHT - 8) - 4;
+
+  const segments = (values: Array<number | null>) => {
+    const paths: string[] = [];
+    let current = '';
+    values.forEach((value, index) => {
+      if (value === null) {
+        if (current) paths.push(current);
+        current = '';
+        return;
+      }
+      current += `${current ? ' L' : 'M'}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+    });
+    if (current) paths.push(current);
+    return paths;
+  };
+
+  return (
+    <div className="analytics-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+        <line className="analytics-gridline" x1={0} x2={CHART_WIDTH} y1={y(max)} y2={y(max)} />
+        <line className="analytics-gridline" x1={0} x2={CHART_WIDTH} y1={y(max / 2)} y2={y(max / 2)} />
+        {series.map((line) =>
+          segments(line.values).map((d, index) => (
+            <path key={`${line.label}-${index}`} d={d} className={`analytics-line ${line.className}`} />
+          ))
+        )}
+        {series.map((line) =>
+          line.values.map((value, index) =>
+            value === null ? null : (
+              <circle key={`${line.label}-dot-${index}`} cx={x(index)} cy={y(value)} r={3} className={`analytics-dot ${line.className}`}>
+                <title>{`${line.label}: ${format(value)}`}</title>
+              </circle>
+            )
+          )
+        )}
+      </svg>
+      <div className="analytics-axis">
+        <span>{format(max)}</span>
+        <span>{format(0)}</span>
+      </div>
+      <div className="analytics-legend">
+        {series.map((line) => (
+          <span key={line.label} className={`analytics-legend-item ${line.className}`}>{line.label}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Stacked bars of failed and flaky tests per bucket
+const FailureBars: React.FC<{ trend: AnalyticsTrendPoint[] }> = ({ trend }) => {
+  const max = Math.max(...trend.map(point => point.failed_tests + point.flaky_tests), 1);
+  const slot = CHART_WIDTH / Math.max(trend.length, 1);
+  const barWidth = Math.max(slot * 0.6, 2);
+  const height = (value: number) => (value / max) * (CHART_HEIGHT - 8);
+
+  return (
+    <div className="analytics-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+        {trend.map((point, index) => {
+          const x = index * slot + (slot - barWidth) / 2;
+          const failedHeight = height(point.failed_tests);
+          const flakyHeight = height(point.flaky_tests);
+          return (
+            <g key={point.bucket}>
+              <title>{`${point.failed_tests} failed, ${point.flaky_tests} flaky`}</title>
+              <rect className="analytics-bar-failed" x={x} width={barWidth} y={CHART_HEIGHT - failedHeight} height={failedHeight} />
+              <rect className="analytics-bar-flaky" x={x} width={barWidth} y={CHART_HEIGHT - failedHeight - flakyHeight} height={flakyHeight} />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="analytics-axis">
+        <span>{max}</span>
+        <span>0</span>
+      </div>
+      <div className="analytics-legend">
+        <span className="analytics-legend-item analytics-series-failed">Failed</span>
+        <span className="analytics-legend-item analytics-series-flaky">Flaky</span>
+      </div>
+    </div>
+  );
+};
+
+const ProjectAnalytics: React.FC<ProjectAnalyticsProps> = ({ projectId, projectName }) => {
+  const [analytics, setAnalytics] = useState<ProjectAnalyticsData | null>(null);
+  const [query, setQuery] = useState<AnalyticsQuery>({ interval: 'day', days: 30 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.projects.getAnalytics(projectId, query);
+      setAnalytics(response.data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching analytics:', err);
+      setError('Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, query]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const { summary, trend, interval } = analytics || {};
+  const maxDuration = Math.max(...(trend || []).map(point => point.p95_duration_ms || 0), 1);
+
+  return (
+    <div className="project-analytics">
+      <div className="analytics-header">
+        <h2>{projectName} trends</h2>
+        <div className="analytics-controls">
+          <select
+            value={query.days}
+            onChange={(e) => setQuery({ ...query, days: parseInt(e.target.value) })}
+          >
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+          </select>
+          <select
+            value={query.interval}
+            onChange={(e) => setQuery({ ...query, interval: e.target.value as AnalyticsQuery['interval'] })}
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+          </select>
+          <select
+            value={query.browser || ''}
+            onChange={(e) => setQuery({ ...query, browser: e.target.value || undefined })}
+          >
+            <option value="">All browsers</option>
+            {analytics?.available_filters.browsers.map((browser) => (
+              <option key={browser} value={browser}>{browser}</option>
+            ))}
+          </select>
+          <select
+            value={query.branch || ''}
+            onChange={(e) => setQuery({ ...query, branch: e.target.value || undefined })}
+          >
+            <option value="">All branches</option>
+            {analytics?.available_filters.branches.map((branch) => (
+              <option key={branch} value={branch}>{branch}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="analytics-error">{error}</div>}
+
+      {loading && !analytics ? (
+        <div className="analytics-empty">Loading analytics...</div>
+      ) : !analytics || !summary || !trend ? null : summary.runs === 0 ? (
+        <div className="analytics-empty">No finished runs in this period</div>
+      ) : (
+        <>
+          <div className="analytics-summary">
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{summary.pass_rate !== null ? `${summary.pass_rate}%` : '—'}</div>
+              <div className="analytics-tile-label">Pass rate</div>
+            </div>
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{summary.runs}</div>
+              <div className="analytics-tile-label">Runs ({summary.failed_runs} failed)</div>
+            </div>
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{summary.failed_tests}</div>
+              <div className="analytics-tile-label">Failed tests</div>
+            </div>
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{summary.flaky_tests}</div>
+              <div className="analytics-tile-label">Flaky tests</div>
+            </div>
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{formatDuration(summary.p50_duration_ms)}</div>
+              <div className="analytics-tile-label">p50 run duration</div>
+            </div>
+            <div className="analytics-tile">
+              <div className="analytics-tile-value">{formatDuration(summary.p95_duration_ms)}</div>
+              <div className="analytics-tile-label">p95 run duration</div>
+            </div>
+          </div>
+
+          <div className="analytics-charts">
+            <div className="analytics-card">
+              <h3>Pass rate</h3>
+              <LineChart
+                series={[{ label: 'Pass rate', className: 'analytics-series-pass', values: trend.map(point => point.pass_rate) }]}
+                max={100}
+                format={(value) => `${Math.round(value)}%`}
+              />
+            </div>
+            <div className="analytics-card">
+              <h3>Failures</h3>
+              <FailureBars trend={trend} />
+            </div>
+            <div className="analytics-card">
+              <h3>Run duration</h3>
+              <LineChart
+                series={[
+                  { label: 'p50', className: 'analytics-series-p50', values: trend.map(point => point.p50_duration_ms) },
+                  { label: 'p95', className: 'analytics-series-p95', values: trend.map(point => point.p95_duration_ms) }
+                ]}
+                max={maxDuration}
+                format={(value) => formatDuration(Math.round(value))}
+              />
+            </div>
+          </div>
+
+          <div className="analytics-range">
+            {trend.length > 0 && (
+              <>
+                <span>{formatBucket(trend[0].bucket, interval!)}</span>
+                <span>{formatBucket(trend[trend.length - 1].bucket, interval!)}</span>
+              </>
+            )}
+          </div>
+
+          <div className="analytics-tables">
+            <div className="analytics-card">
+              <h3>Most failing tests</h3>
+              {analytics.most_failing_tests.length === 0 ? (
+                <div className="analytics-empty">No failures in this period 🎉</div>
+              ) : (
+                <table className="analytics-table">
+                  <tbody>
+                    {analytics.most_failing_tests.map((test) => (
+                      <tr key={`${test.file_path}|${test.suite_name}|${test.test_name}`}>
+                        <td>
+                          <div className="analytics-test-name">
+                            {test.test_name}
+                            {test.quarantined && <span className="analytics-badge">quarantined</span>}
+                          </div>
+                          <div className="analytics-test-file">{test.file_path}</div>
+                        </td>
+                        <td className="analytics-number">
+                          {test.failed_runs}/{test.runs}
+                          <div className="analytics-test-file">{test.failure_rate}%</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="analytics-card">
+              <h3>Slowest tests</h3>
+              <table className="analytics-table">
+                <tbody>
+                  {analytics.slowest_tests.map((test) => (
+                    <tr key={`${test.file_path}|${test.suite_name}|${test.test_name}`}>
+                      <td>
+                        <div className="analytics-test-name">{test.test_name}</div>
+                        <div className="analytics-test-file">{test.file_path}</div>
+                      </td>
+                      <td className="analytics-number">
+                        {formatDuration(test.avg_duration_ms)}
+                        <div className="analytics-test-file">p95 {formatDuration(test.p95_duration_ms)}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectAnalytics;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import Button from './common/Button';
+import type { ProjectMember, ProjectRole } from '../types';
+import '../styles/ProjectMembers.css';
+
+interface ProjectMembersProps {
+  projectId: string;
+  // Owners and admins can invite, change roles and remove members
+  canManage: boolean;
+}
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  maintainer: 'Maintainer',
+  runner: 'Runner',
+  viewer: 'Viewer'
+};
+
+const ProjectMembers: React.FC<ProjectMembersProps> = ({ projectId, canManage }) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [identifier, setIdentifier] = useState('');
+  const [role, setRole] = useState<ProjectRole>('runner');
+  const [adding, setAdding] = useState(false);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.projects.getMembers(projectId);
+      setMembers(response.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching project members:', err);
+      setError('Failed to load project members');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const errorMessage = (err: unknown, fallback: string) =>
+    isAxiosError<{ message?: string; errors?: Array<{ msg: string }> }>(err)
+      ? err.response?.data?.errors?.[0]?.msg || err.response?.data?.message || fallback
+      : fallback;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    try {
+      await api.projects.addMember(projectId, { identifier: identifier.trim(), role });
+      setIdentifier('');
+      setError(null);
+      await fetchMembers();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to add member'));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: ProjectMember, newRole: ProjectRole) => {
+    try {
+      await api.projects.updateMember(projectId, member.user_id, newRole);
+      setError(null);
+      await fetchMembers();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to change role'));
+    }
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    if (!window.confirm(`Remove ${member.username} from this project?`)) {
+      return;
+    }
+
+    try {
+      await api.projects.removeMember(projectId, member.user_id);
+      setError(null);
+      await fetchMembers();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to remove member'));
+    }
+  };
+
+  return (
+    <div className="project-members">
+      {error && <div className="member-error">{error}</div>}
+
+      {loading ? (
+        <div className="member-empty">Loading members...</div>
+      ) : members.length === 0 ? (
+        <div className="member-empty">No members yet. Admins can still see and run this project.</div>
+      ) : (
+        <div className="member-list">
+          {members.map((member) => (
+            <div key={member.id} className="member-row">
+              <div>
+                <div className="member-name">{member.full_name || member.username}</div>
+                <div className="member-meta">@{member.username} · {member.email}</div>
+              </div>
+              {canManage ? (
+                <div className="member-actions">
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as ProjectRole)}
+                  >
+                    {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <button className="member-remove" onClick={() => handleRemove(member)}>
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <span className={`member-role member-role-${member.role}`}>{ROLE_LABELS[member.role]}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <form className="member-form" onSubmit={handleAdd}>
+          <input
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            placeholder="Username or email"
+            required
+          />
+          <select value={role} onChange={(e) => setRole(e.target.value as ProjectRole)}>
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <Button type="submit" variant="primary" disabled={adding || !identifier.trim()}>
+            {adding ? 'Adding...' : 'Add Member'}
+          </Button>
+        </form>
+      )}
+
+      <p className="member-hint">
+        Owners manage members, maintainers edit tests and settings, runners start runs, viewers can only look.
+      </p>
+    </div>
+  );
+};
+
+export default ProjectMembers;
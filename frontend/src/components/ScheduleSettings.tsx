@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import Button from './common/Button';
+import type { TestSchedule, TestSuite, ProjectEnvironment, CreateTestScheduleDTO } from '../types';
+import '../styles/ScheduleSettings.css';
+
+interface ScheduleSettingsProps {
+  projectId: string;
+}
+
+const emptyForm = (): CreateTestScheduleDTO => ({
+  name: '',
+  cron_expression: '0 7 * * 1-5',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  browser: 'chromium',
+  workers: 1,
+  suite_id: null,
+  branch: '',
+  environment_id: null,
+  missed_run_policy: 'skip',
+  enabled: true
+});
+
+const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ projectId }) => {
+  const [schedules, setSchedules] = useState<TestSchedule[]>([]);
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [environments, setEnvironments] = useState<ProjectEnvironment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<CreateTestScheduleDTO>(emptyForm);
+  // null while creating a new schedule
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [schedulesResponse, suitesResponse, environmentsResponse] = await Promise.all([
+        api.schedules.getByProject(projectId),
+        api.testSuites.getByProject(projectId),
+        api.environments.getByProject(projectId)
+      ]);
+      setSchedules(schedulesResponse.data.data);
+      setSuites(suitesResponse.data.data || []);
+      setEnvironments(environmentsResponse.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching schedules:', err);
+      setError('Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const errorMessage = (err: unknown, fallback: string) =>
+    isAxiosError<{ message?: string; errors?: Array<{ msg: string }> }>(err)
+      ? err.response?.data?.errors?.[0]?.msg || err.response?.data?.message || fallback
+      : fallback;
+
+  const openCreateForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const openEditForm = (schedule: TestSchedule) => {
+    setForm({
+      name: schedule.name,
+      cron_expression: schedule.cron_expression,
+      timezone: schedule.timezone,
+      browser: schedule.browser,
+      workers: schedule.workers,
+      suite_id: schedule.suite_id,
+      branch: schedule.branch || '',
+      environment_id: schedule.environment_id,
+      missed_run_policy: schedule.missed_run_policy,
+      enabled: schedule.enabled
+    });
+    setEditingId(schedule.id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = {
+        ...form,
+        suite_id: form.suite_id || null,
+        branch: form.branch?.trim() || null,
+        environment_id: form.environment_id || null
+      };
+      if (editingId) {
+        await api.schedules.update(projectId, editingId, data);
+      } else {
+        await api.schedules.create(projectId, data);
+      }
+      setShowForm(false);
+      setError(null);
+      await fetchSchedules();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save schedule'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: TestSchedule) => {
+    try {
+      await api.schedules.update(projectId, schedule.id, { enabled: !schedule.enabled });
+      await fetchSchedules();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update schedule'));
+    }
+  };
+
+  const handleDelete = async (schedule: TestSchedule) => {
+    if (!window.confirm(`Delete the schedule "${schedule.name}"?`)) {
+      return;
+    }
+
+    try {
+      await api.schedules.delete(projectId, schedule.id);
+      await fetchSchedules();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete schedule'));
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+  return (
+    <div className="schedule-settings">
+      <div className="schedule-settings-header">
+        <p className="schedule-settings-hint">
+          Runs are queued automatically when the cron expression fires in the schedule's time zone.
+        </p>
+        {!showForm && (
+          <Button variant="primary" onClick={openCreateForm}>
+            <span>+</span>
+            New Schedule
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="schedule-error">{error}</div>}
+
+      {showForm && (
+        <form className="schedule-form" onSubmit={handleSubmit}>
+          <div className="schedule-form-grid">
+            <label>
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nightly regression"
+                required
+              />
+            </label>
+            <label>
+              Cron expression
+              <input
+                value={form.cron_expression}
+                onChange={(e) => setForm({ ...form, cron_expression: e.target.value })}
+                placeholder="0 7 * * 1-5"
+                required
+              />
+            </label>
+            <label>
+              Time zone
+              <input
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                placeholder="Europe/Berlin"
+              />
+            </label>
+            <label>
+              Browser
+              <select
+                value={form.browser}
+                onChange={(e) => setForm({ ...form, browser: e.target.value as CreateTestScheduleDTO['browser'] })}
+              >
+                <option value="chromium">Chromium</option>
+                <option value="firefox">Firefox</option>
+                <option value="webkit">WebKit</option>
+              </select>
+            </label>
+            <label>
+              Workers
+              <input
+                type="number"
+                min={1}
+                max={16}
+                value={form.workers}
+                onChange={(e) => setForm({ ...form, workers: parseInt(e.target.value) || 1 })}
+              />
+            </label>
+            <label>
+              Suite
+              <select
+                value={form.suite_id || ''}
+                onChange={(e) => setForm({ ...form, suite_id: e.target.value || null })}
+              >
+                <option value="">All tests</option>
+                {suites.map((suite) => (
+                  <option key={suite.id} value={suite.id}>{suite.name}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Branch
+              <input
+                value={form.branch || ''}
+                onChange={(e) => setForm({ ...form, branch: e.target.value })}
+                placeholder="Current checkout"
+              />
+            </label>
+            <label>
+              Environment
+              <select
+                value={form.environment_id || ''}
+                onChange={(e) => setForm({ ...form, environment_id: e.target.value || null })}
+              >
+                <option value="">Project default</option>
+                {environments.map((environment) => (
+                  <option key={environment.id} value={environment.id}>{environment.name}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Missed runs
+              <select
+                value={form.missed_run_policy}
+                onChange={(e) => setForm({ ...form, missed_run_policy: e.target.value as TestSchedule['missed_run_policy'] })}
+              >
+                <option value="skip">Skip them</option>
+                <option value="catch_up">Run once on startup</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="schedule-enabled">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+            />
+            Enabled
+          </label>
+
+          <div className="schedule-form-actions">
+            <Button type="button" variant="secondary" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save Schedule' : 'Create Schedule'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="schedule-empty">Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        <div className="schedule-empty">No schedules yet</div>
+      ) : (
+        <div className="schedule-list">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className={`schedule-item ${schedule.enabled ? '' : 'schedule-disabled'}`}>
+              <div className="schedule-info">
+                <div className="schedule-name">
+                  {schedule.name}
+                  {!schedule.enabled && <span className="schedule-badge">Paused</span>}
+                </div>
+                <div className="schedule-meta">
+                  <code>{schedule.cron_expression}</code>
+                  <span>{schedule.timezone}</span>
+                  <span>{schedule.browser}</span>
+                  <span>{schedule.suite_name || 'All tests'}</span>
+                  {schedule.branch && <span>⎇ {schedule.branch}</span>}
+                  {schedule.environment_name && <span>🌐 {schedule.environment_name}</span>}
+                  <span>{schedule.missed_run_policy === 'catch_up' ? 'Catches up missed runs' : 'Skips missed runs'}</span>
+                </div>
+                <div className="schedule-runs">
+                  <span>Next: {schedule.enabled ? formatDate(schedule.next_run_at) : '—'}</span>
+                  <span>
+                    Last: {formatDate(schedule.last_run_at)}
+                    {schedule.last_run_name && ` (${schedule.last_run_name}${schedule.last_run_status ? `, ${schedule.last_run_status}` : ''})`}
+                  </span>
+                </div>
+              </div>
+              <div className="schedule-actions">
+                <button className="schedule-action" onClick={() => handleToggle(schedule)}>
+                  {schedule.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button className="schedule-action" onClick={() => openEditForm(schedule)}>
+                  Edit
+                </button>
+                <button className="schedule-action schedule-action-danger" onClick={() => handleDelete(schedule)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleSettings;
@@ -1,5 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { isAxiosError } from 'axios';
 import api from '../services/api.service';
+import { API_BASE_URL } from '../services/api.config';
+import LiveRunProgress from './LiveRunProgress';
+import BrowserMatrix from './BrowserMatrix';
+import type { TestRunFilters } from '../types';
 import '../styles/TestRunHistory.css';
 
 interface TestRun {
@@ -12,10 +18,26 @@ interface TestRun {
   failed_tests: number;
   skipped_tests: number;
   flaky_tests: number;
+  quarantined_tests: number;
   duration_ms: number;
-  browser: string;
+  browser: string | null;
+  browsers?: string[] | null;
+  environment?: string | null;
   report_path: string;
   report_url: string;
+  error_message?: string;
+  selected_test_case_ids?: string[] | null;
+  test_targets?: string[] | null;
+  test_grep?: string | null;
+  branch?: string | null;
+  commit_sha?: string | null;
+  commit_message?: string | null;
+  commit_author_name?: string | null;
+  commit_author_email?: string | null;
+  working_copy_dirty?: boolean | null;
+  commit_url?: string | null;
+  trigger_source?: 'manual' | 'schedule' | 'webhook';
+  schedule_name?: string | null;
   start_time: string;
   end_time: string;
   created_at: string;
@@ -28,15 +50,24 @@ interface TestRun {
 interface TestRunHistoryProps {
   projectId: string;
   projectName: string;
+  // Bump to reload the list, e.g. after queueing a new run
+  refreshKey?: number;
 }
 
-const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName }) => {
+const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName, refreshKey }) => {
+  const navigate = useNavigate();
   const [testRuns, setTestRuns] = useState<TestRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedRun, setSelectedRun] = useState<string | null>(null);
   const [runDetails, setRunDetails] = useState<any>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [cancellingRuns, setCancellingRuns] = useState<Set<string>>(new Set());
+  // Run picked as the baseline for a comparison
+  const [compareBaseId, setCompareBaseId] = useState<string | null>(null);
+  // Filters being edited vs. the ones applied to the list
+  const [filterDraft, setFilterDraft] = useState<TestRunFilters>({});
+  const [filters, setFilters] = useState<TestRunFilters>({});
   const [pagination, setPagination] = useState({
     total: 0,
     limit: 10,
@@ -46,7 +77,7 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
 
   useEffect(() => {
     fetchTestRuns();
-  }, [projectId, pagination.offset]);
+  }, [projectId, pagination.offset, refreshKey, filters]);
 
   const fetchTestRuns = async () => {
     try {
@@ -54,7 +85,8 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
       const response = await api.executions.getProjectTestRunsDetailed(
         projectId,
         pagination.limit,
-        pagination.offset
+        pagination.offset,
+        filters
       );
 
       if (response.data.success) {
@@ -81,6 +113,27 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
     }
   };
 
+  const cancelRun = async (runId: string) => {
+    if (!confirm('Cancel this test run? Results collected so far will be kept.')) return;
+
+    try {
+      setCancellingRuns(prev => new Set(prev).add(runId));
+      const response = await api.executions.cancelTestRun(runId);
+      // A running test run reports its final status over the socket once Playwright stops
+      if (response.data.data.status === 'cancelled') {
+        await fetchTestRuns();
+      }
+    } catch (err) {
+      const message = isAxiosError<{ message?: string }>(err) ? err.response?.data?.message : undefined;
+      alert(message || 'Failed to cancel test run');
+      setCancellingRuns(prev => {
+        const next = new Set(prev);
+        next.delete(runId);
+        return next;
+      });
+    }
+  };
+
   const formatDuration = (ms: number): string => {
     if (ms < 1000) return `${ms}ms`;
     const seconds = Math.floor(ms / 1000);
@@ -105,8 +158,10 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
     switch (status) {
       case 'completed': return '#10b981';
       case 'failed': return '#ef4444';
+      case 'queued': return '#a855f7';
       case 'in_progress': return '#3b82f6';
       case 'cancelled': return '#6b7280';
+      case 'interrupted': return '#f59e0b';
       default: return '#6b7280';
     }
   };
@@ -115,12 +170,43 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
     switch (status) {
       case 'completed': return '✓';
       case 'failed': return '✗';
+      case 'queued': return '…';
       case 'in_progress': return '⟳';
       case 'cancelled': return '⊘';
+      case 'interrupted': return '!';
       default: return '?';
     }
   };
 
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPagination(prev => ({ ...prev, offset: 0 }));
+    setFilters({
+      branch: filterDraft.branch?.trim() || undefined,
+      commit: filterDraft.commit?.trim() || undefined,
+      author: filterDraft.author?.trim() || undefined
+    });
+  };
+
+  const clearFilters = () => {
+    setFilterDraft({});
+    setPagination(prev => ({ ...prev, offset: 0 }));
+    setFilters({});
+  };
+
+  const isFinished = (run: TestRun) => run.status !== 'queued' && run.status !== 'in_progress';
+
+  // Closest older green run in the loaded page, to compare a red run against
+  const lastGreenBefore = (index: number) =>
+    testRuns.slice(index + 1).find(run => run.status === 'completed' && run.failed_tests === 0);
+
+  const compareRuns = (runId: string, otherRunId: string) => {
+    setCompareBaseId(null);
+    navigate(`/runs/${runId}/compare/${otherRunId}`);
+  };
+
+  const hasFilters = Boolean(filters.branch || filters.commit || filters.author);
+
   const loadMore = () => {
     setPagination(prev => ({
       ...prev,
@@ -152,6 +238,28 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
         </div>
       </div>
 
+      <form className="run-filters" onSubmit={applyFilters}>
+        <input
+          value={filterDraft.branch || ''}
+          onChange={(e) => setFilterDraft({ ...filterDraft, branch: e.target.value })}
+          placeholder="Branch"
+        />
+        <input
+          value={filterDraft.commit || ''}
+          onChange={(e) => setFilterDraft({ ...filterDraft, commit: e.target.value })}
+          placeholder="Commit SHA"
+        />
+        <input
+          value={filterDraft.author || ''}
+          onChange={(e) => setFilterDraft({ ...filterDraft, author: e.target.value })}
+          placeholder="Author"
+        />
+        <button type="submit" className="btn-filter">Filter</button>
+        {hasFilters && (
+          <button type="button" className="btn-filter-clear" onClick={clearFilters}>Clear</button>
+        )}
+      </form>
+
       <div className="test-runs-timeline">
         {testRuns.map((run, index) => (
           <div key={run.id} className="test-run-card">
@@ -170,10 +278,57 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
                 </div>
                 <div className="run-meta">
                   <span className="run-date">{formatDate(run.created_at)}</span>
-                  <span className="run-browser">{run.browser}</span>
+                  <span className="run-browser">
+                    {run.browsers && run.browsers.length > 1 ? run.browsers.join(' · ') : run.browser}
+                  </span>
+                  {run.environment && <span className="run-environment">🌐 {run.environment}</span>}
+                  {run.branch && <span className="run-branch">⎇ {run.branch}</span>}
+                  {run.trigger_source === 'schedule' && (
+                    <span className="run-trigger">⏰ {run.schedule_name || 'Scheduled'}</span>
+                  )}
+                  {run.trigger_source === 'webhook' && (
+                    <span className="run-trigger">⚡ Push</span>
+                  )}
+                  {(run.test_targets || run.test_grep) && (
+                    <span
+                      className="run-scope"
+                      title={[...(run.test_targets || []), ...(run.test_grep ? [`--grep ${run.test_grep}`] : [])].join('\n')}
+                    >
+                      {run.selected_test_case_ids?.length
+                        ? `${run.selected_test_case_ids.length} selected test${run.selected_test_case_ids.length === 1 ? '' : 's'}`
+                        : 'Filtered run'}
+                    </span>
+                  )}
                 </div>
               </div>
 
+              {run.commit_sha && (
+                <div className="run-commit">
+                  {run.commit_url ? (
+                    <a href={run.commit_url} target="_blank" rel="noopener noreferrer" className="run-commit-sha" title={run.commit_sha}>
+                      {run.commit_sha.slice(0, 7)}
+                    </a>
+                  ) : (
+                    <code className="run-commit-sha" title={run.commit_sha}>{run.commit_sha.slice(0, 7)}</code>
+                  )}
+                  {run.commit_message && (
+                    <span className="run-commit-message" title={run.commit_message}>
+                      {run.commit_message.split('\n')[0]}
+                    </span>
+                  )}
+                  {run.commit_author_name && (
+                    <span className="run-commit-author" title={run.commit_author_email || undefined}>
+                      {run.commit_author_name}
+                    </span>
+                  )}
+                  {run.working_copy_dirty && (
+                    <span className="run-commit-dirty" title="The working copy had uncommitted changes when the run started">
+                      uncommitted changes
+                    </span>
+                  )}
+                </div>
+              )}
+
               <div className="run-stats-grid">
                 <div className="stat-item">
                   <div className="stat-label">Total Tests</div>
@@ -197,6 +352,12 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
                     <div className="stat-value">{run.flaky_tests}</div>
                   </div>
                 )}
+                {run.quarantined_tests > 0 && (
+                  <div className="stat-item stat-quarantined" title="Failures of quarantined tests - they don't fail the run">
+                    <div className="stat-label">Quarantined</div>
+                    <div className="stat-value">{run.quarantined_tests}</div>
+                  </div>
+                )}
                 <div className="stat-item">
                   <div className="stat-label">Duration</div>
                   <div className="stat-value">{formatDuration(run.duration_ms)}</div>
@@ -207,11 +368,21 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
                 </div>
               </div>
 
-              <div className="run-progress-bar">
-                <div className="progress-segment progress-passed" style={{ width: `${(run.passed_tests / run.total_tests) * 100}%` }} />
-                <div className="progress-segment progress-failed" style={{ width: `${(run.failed_tests / run.total_tests) * 100}%` }} />
-                <div className="progress-segment progress-skipped" style={{ width: `${(run.skipped_tests / run.total_tests) * 100}%` }} />
-              </div>
+              {run.error_message && (
+                <div className="run-error">{run.error_message}</div>
+              )}
+
+              {run.status === 'queued' || run.status === 'in_progress' ? (
+                <LiveRunProgress runId={run.id} runName={run.run_name} onFinished={() => fetchTestRuns()} />
+              ) : (
+                <div className="run-progress-bar">
+                  <div className="progress-segment progress-passed" style={{ width: `${(run.passed_tests / run.total_tests) * 100}%` }} />
+                  <div className="progress-segment progress-failed" style={{ width: `${(run.failed_tests / run.total_tests) * 100}%` }} />
+                  <div className="progress-segment progress-flaky" style={{ width: `${(run.flaky_tests / run.total_tests) * 100}%` }} />
+                  <div className="progress-segment progress-quarantined" style={{ width: `${(run.quarantined_tests / run.total_tests) * 100}%` }} />
+                  <div className="progress-segment progress-skipped" style={{ width: `${(run.skipped_tests / run.total_tests) * 100}%` }} />
+                </div>
+              )}
 
               <div className="run-actions">
                 <button
@@ -220,6 +391,39 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
                 >
                   View Details
                 </button>
+                {(run.status === 'queued' || run.status === 'in_progress') && (
+                  <button
+                    className="btn-cancel-run"
+                    onClick={() => cancelRun(run.id)}
+                    disabled={cancellingRuns.has(run.id)}
+                  >
+                    {cancellingRuns.has(run.id) ? 'Cancelling...' : 'Cancel'}
+                  </button>
+                )}
+                {isFinished(run) && compareBaseId === null && run.status === 'failed' && lastGreenBefore(index) && (
+                  <button
+                    className="btn-compare"
+                    onClick={() => compareRuns(run.id, lastGreenBefore(index)!.id)}
+                    title="Compare with the last green run"
+                  >
+                    Compare with #{lastGreenBefore(index)!.run_number}
+                  </button>
+                )}
+                {isFinished(run) && (
+                  compareBaseId === null ? (
+                    <button className="btn-compare" onClick={() => setCompareBaseId(run.id)}>
+                      Compare...
+                    </button>
+                  ) : compareBaseId === run.id ? (
+                    <button className="btn-compare btn-compare-active" onClick={() => setCompareBaseId(null)}>
+                      Baseline selected ✕
+                    </button>
+                  ) : (
+                    <button className="btn-compare" onClick={() => compareRuns(run.id, compareBaseId)}>
+                      Compare against baseline
+                    </button>
+                  )
+                )}
                 {run.report_url && (
                   <a
                     href={run.report_url}
@@ -242,38 +446,81 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
                   <div className="suites-list">
                     {runDetails.suites.map((suite: any) => (
                       <div key={suite.id} className="suite-item">
-                        <div className="suite-name">{suite.suite_name}</div>
+                        <div className="suite-name">
+                          {suite.suite_name}
+                          {suite.browser && <span className="suite-browser">{suite.browser}</span>}
+                        </div>
                         <div className="suite-file">{suite.file_path}</div>
                         <div className="suite-stats">
                           <span className="suite-stat passed">{suite.passed_tests} passed</span>
                           <span className="suite-stat failed">{suite.failed_tests} failed</span>
                           <span className="suite-stat skipped">{suite.skipped_tests} skipped</span>
+                          {suite.flaky_tests > 0 && <span className="suite-stat flaky">{suite.flaky_tests} flaky</span>}
+                          {suite.quarantined_tests > 0 && <span className="suite-stat quarantined">{suite.quarantined_tests} quarantined</span>}
                           <span className="suite-stat duration">{formatDuration(suite.duration_ms)}</span>
                         </div>
                       </div>
                     ))}
                   </div>
 
+                  {runDetails.testRun.browsers?.length > 1 && (
+                    <BrowserMatrix browsers={runDetails.testRun.browsers} cases={runDetails.cases} />
+                  )}
+
                   <div className="test-cases-section">
                     <h4>Test Cases ({runDetails.cases.length})</h4>
                     <div className="cases-list">
                       {runDetails.cases.map((testCase: any, idx: number) => (
-                        <div key={idx} className={`case-item case-${testCase.status}`}>
+                        <div key={idx} className={`case-item case-${testCase.status}${testCase.quarantined ? ' case-quarantined' : ''}`}>
                           <span className="case-icon">
-                            {testCase.status === 'passed' ? '✓' : testCase.status === 'failed' ? '✗' : '⊘'}
+                            {testCase.status === 'passed' ? '✓' : testCase.status === 'failed' ? '✗' : testCase.status === 'flaky' ? '⚠' : '⊘'}
                           </span>
                           <div className="case-info">
                             <div className="case-name">{testCase.test_name}</div>
                             <div className="case-meta">
                               <span className="case-suite">{testCase.suite_name}</span>
+                              {testCase.browser && <span className="case-browser">{testCase.browser}</span>}
                               <span className="case-file">{testCase.file_path}</span>
                               {testCase.duration_ms > 0 && (
                                 <span className="case-duration">{formatDuration(testCase.duration_ms)}</span>
                               )}
+                              {testCase.retry_count > 0 && (
+                                <span className="case-retries">{testCase.retry_count} {testCase.retry_count === 1 ? 'retry' : 'retries'}</span>
+                              )}
+                              {testCase.quarantined && <span className="case-quarantine-badge">Quarantined</span>}
                             </div>
                             {testCase.error_message && (
                               <div className="case-error">{testCase.error_message}</div>
                             )}
+                            {testCase.stack_trace && testCase.stack_trace !== testCase.error_message && (
+                              <details className="case-stack">
+                                <summary>Stack trace</summary>
+                                <pre>{testCase.stack_trace}</pre>
+                              </details>
+                            )}
+                            {(testCase.screenshot_path || testCase.video_path || testCase.trace_path) && (
+                              <div className="case-artifacts">
+                                {testCase.screenshot_path && (
+                                  <a href={`${API_BASE_URL}${testCase.screenshot_path}`} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                      className="case-screenshot"
+                                      src={`${API_BASE_URL}${testCase.screenshot_path}`}
+                                      alt={`Screenshot of ${testCase.test_name}`}
+                                    />
+                                  </a>
+                                )}
+                                {testCase.video_path && (
+                                  <a className="case-artifact-link" href={`${API_BASE_URL}${testCase.video_path}`} target="_blank" rel="noopener noreferrer">
+                                    🎬 Video
+                                  </a>
+                                )}
+                                {testCase.trace_path && (
+                                  <a className="case-artifact-link" href={`${API_BASE_URL}${testCase.trace_path}`} download>
+                                    🔍 Trace
+                                  </a>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -288,8 +535,14 @@ const TestRunHistory: React.FC<TestRunHistoryProps> = ({ projectId, projectName
 
       {testRuns.length === 0 && (
         <div className="no-runs-message">
-          <p>No test runs found for this project.</p>
-          <p>Run some tests to see them here!</p>
+          {hasFilters ? (
+            <p>No test runs match these filters.</p>
+          ) : (
+            <>
+              <p>No test runs found for this project.</p>
+              <p>Run some tests to see them here!</p>
+            </>
+          )}
         </div>
       )}
 
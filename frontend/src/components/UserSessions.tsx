@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import type { UserSession } from '../types';
+import '../styles/UserSessions.css';
+
+const UserSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.users.getSessions();
+      setSessions(response.data.data || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching sessions:', err);
+      setError('Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: UserSession) => {
+    if (!window.confirm(`Sign ${session.username} out of this session? They will have to log in again.`)) {
+      return;
+    }
+
+    try {
+      await api.users.revokeSession(session.id);
+      await fetchSessions();
+    } catch (err) {
+      setError(
+        isAxiosError<{ message?: string }>(err)
+          ? err.response?.data?.message || 'Failed to revoke session'
+          : 'Failed to revoke session'
+      );
+    }
+  };
+
+  return (
+    <div className="user-sessions">
+      {error && <div className="session-error">{error}</div>}
+
+      {loading ? (
+        <div className="session-empty">Loading sessions...</div>
+      ) : sessions.length === 0 ? (
+        <div className="session-empty">No active sessions.</div>
+      ) : (
+        <div className="session-list">
+          {sessions.map((session) => (
+            <div key={session.id} className="session-row">
+              <div>
+                <div className="session-user">{session.full_name || session.username}</div>
+                <div className="session-meta">
+                  <span>{session.user_agent || 'Unknown client'}</span>
+                  {session.ip_address && <span>{session.ip_address}</span>}
+                  <span>Signed in {new Date(session.created_at).toLocaleString()}</span>
+                  <span>Last active {new Date(session.last_used_at).toLocaleString()}</span>
+                </div>
+              </div>
+              <button className="session-revoke" onClick={() => handleRevoke(session)}>
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserSessions;
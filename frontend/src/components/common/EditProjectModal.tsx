@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import api from '../../services/api.service';
+import authService from '../../services/auth.service';
+import type { Project } from '../../types';
+import styles from './CreateProjectModal.module.css';
+
+interface EditProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  onProjectUpdated: () => void;
+}
+
+const EditProjectModal = ({ isOpen, onClose, project, onProjectUpdated }: EditProjectModalProps) => {
+  const [formData, setFormData] = useState({
+    name: project.name,
+    description: project.description || '',
+    base_url: project.base_url || '',
+    repo_url: project.repo_url || '',
+    default_branch: project.default_branch || 'main',
+    working_directory: project.working_directory || '',
+    playwright_config_path: project.playwright_config_path || '',
+    install_command: project.install_command || '',
+    max_concurrent_runs: project.max_concurrent_runs ? String(project.max_concurrent_runs) : ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  // The repository and install command decide what the server clones and runs, so only admins change them
+  const isAdmin = authService.getUser()?.role === 'admin';
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      setStatus('Saving project...');
+      // Empty fields are cleared on the server
+      await api.projects.update(project.id, {
+        name: formData.name.trim(),
+        description: formData.description,
+        base_url: formData.base_url.trim(),
+        repo_url: formData.repo_url.trim(),
+        default_branch: formData.default_branch.trim(),
+        working_directory: formData.working_directory.trim(),
+        playwright_config_path: formData.playwright_config_path.trim(),
+        install_command: formData.install_command.trim(),
+        max_concurrent_runs: formData.max_concurrent_runs ? parseInt(formData.max_concurrent_runs) : null
+      });
+
+      // Bring the checkout in line with a new repository or branch; pulling is limited to admins
+      const repositoryChanged = formData.repo_url.trim() !== (project.repo_url || '')
+        || formData.default_branch.trim() !== (project.default_branch || 'main');
+      if (formData.repo_url.trim() && repositoryChanged && isAdmin) {
+        setStatus('Pulling repository... This may take a few minutes.');
+        await api.executions.cloneRepository(project.id);
+      }
+
+      setStatus(null);
+      onProjectUpdated();
+      onClose();
+    } catch (err: unknown) {
+      console.error('Error updating project:', err);
+      const e = err as { response?: { data?: { message?: string; errors?: Array<{ msg: string }> } }; message?: string };
+      setError(e.response?.data?.errors?.[0]?.msg || e.response?.data?.message || e.message || 'Failed to update project');
+      setStatus(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Edit Project</h2>
+          <button className={styles.closeButton} onClick={onClose} disabled={loading}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className={styles.form}>
+          <div className={styles.formGroup}>
+            <label className={styles.label}>
+              Project Name <span className={styles.required}>*</span>
+            </label>
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              className={styles.input}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Description</label>
+            <textarea
+              name="description"
+              value={formData.description}
+              onChange={handleChange}
+              className={styles.textarea}
+              rows={3}
+              disabled={loading}
+            />
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Application URL</label>
+            <input
+              type="text"
+              name="base_url"
+              value={formData.base_url}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="https://staging.example.com"
+              disabled={loading}
+            />
+            <div className={styles.hint}>
+              The site under test. Environments can override it.
+            </div>
+          </div>
+
+          <div className={styles.separator}>
+            <span className={styles.separatorText}>Repository</span>
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Repository URL</label>
+            <input
+              type="text"
+              name="repo_url"
+              value={formData.repo_url}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="https://dev.azure.com/org/project/_git/repo"
+              disabled={loading || !isAdmin}
+            />
+            <div className={styles.hint}>
+              {isAdmin ? 'Credentials are managed under Repository Access.' : 'Only admins can change the repository.'}
+            </div>
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Default Branch</label>
+            <input
+              type="text"
+              name="default_branch"
+              value={formData.default_branch}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="main"
+              disabled={loading}
+            />
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Working Directory</label>
+            <input
+              type="text"
+              name="working_directory"
+              value={formData.working_directory}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="Repository root"
+              disabled={loading}
+            />
+            <div className={styles.hint}>
+              For monorepos: the folder with the Playwright tests, e.g. packages/e2e.
+            </div>
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Playwright Config</label>
+            <input
+              type="text"
+              name="playwright_config_path"
+              value={formData.playwright_config_path}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="Detected automatically"
+              disabled={loading}
+            />
+            <div className={styles.hint}>
+              Relative to the working directory.
+            </div>
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Install Command</label>
+            <input
+              type="text"
+              name="install_command"
+              value={formData.install_command}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="npm install"
+              disabled={loading || !isAdmin}
+            />
+            <div className={styles.hint}>
+              Runs in the working directory after every clone and pull.{!isAdmin && ' Only admins can change it.'}
+            </div>
+          </div>
+
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Concurrent Runs</label>
+            <input
+              type="number"
+              name="max_concurrent_runs"
+              min={1}
+              max={32}
+              value={formData.max_concurrent_runs}
+              onChange={handleChange}
+              className={styles.input}
+              placeholder="Server default"
+              disabled={loading}
+            />
+            <div className={styles.hint}>
+              How many runs of this project may execute at once. Each run gets its own checkout.
+            </div>
+          </div>
+
+          {status && (
+            <div className={styles.statusMessage}>
+              <div className={styles.statusIcon}>⏳</div>
+              {status}
+            </div>
+          )}
+
+          {error && (
+            <div className={styles.errorMessage}>
+              <div className={styles.errorIcon}>⚠️</div>
+              {error}
+            </div>
+          )}
+
+          <div className={styles.modalActions}>
+            <button
+              type="button"
+              onClick={onClose}
+              className={styles.cancelButton}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.submitButton}
+              disabled={loading || !formData.name.trim()}
+            >
+              {loading ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProjectModal;
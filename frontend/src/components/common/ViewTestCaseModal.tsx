@@ -1,4 +1,6 @@
-import type { TestCase } from '../../types';
+import { useEffect, useState } from 'react';
+import api from '../../services/api.service';
+import type { TestCase, TestCaseHistoryEntry } from '../../types';
 import styles from './Modal.module.css';
 
 interface ViewTestCaseModalProps {
@@ -7,11 +9,64 @@ interface ViewTestCaseModalProps {
   testCase: TestCase | null;
   onEdit?: () => void;
   onDelete?: () => void;
+  // Queue a run of just this test case
+  onRun?: () => void;
+  // A run of the test case is being queued
+  running?: boolean;
 }
 
-const ViewTestCaseModal = ({ isOpen, onClose, testCase, onEdit, onDelete }: ViewTestCaseModalProps) => {
+const HISTORY_LIMIT = 30;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+// Polyline points for a duration sparkline, oldest run on the left
+const sparklinePoints = (durations: number[], width: number, height: number) => {
+  const max = Math.max(...durations, 1);
+  const step = durations.length > 1 ? width / (durations.length - 1) : 0;
+  return durations
+    .map((duration, index) => `${(index * step).toFixed(1)},${(height - (duration / max) * (height - 2) - 1).toFixed(1)}`)
+    .join(' ');
+};
+
+const ViewTestCaseModal = ({ isOpen, onClose, testCase, onEdit, onDelete, onRun, running = false }: ViewTestCaseModalProps) => {
+  const [history, setHistory] = useState<TestCaseHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<TestCaseHistoryEntry | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !testCase) return;
+
+    const fetchHistory = async () => {
+      try {
+        setHistoryLoading(true);
+        const response = await api.executions.getExecutionHistory(testCase.id, HISTORY_LIMIT);
+        setHistory(response.data.data);
+      } catch (err) {
+        console.error('Error fetching test case history:', err);
+        setHistory([]);
+      } finally {
+        setHistoryLoading(false);
+      }
+    };
+
+    setSelectedEntry(null);
+    fetchHistory();
+  }, [isOpen, testCase]);
+
   if (!isOpen || !testCase) return null;
 
+  // The API returns newest first; charts read left to right in time
+  const chronological = [...history].reverse();
+  const durations = chronological.map(entry => entry.duration_ms || 0);
+  const passedRuns = history.filter(entry => entry.status === 'passed' || entry.status === 'flaky').length;
+  const executedRuns = history.filter(entry => entry.status !== 'skipped').length;
+  const averageDuration = durations.length > 0
+    ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+    : null;
+
   const getPriorityColor = (priority: string) => {
     const colors = {
       critical: '#ef4444',
@@ -88,6 +143,58 @@ const ViewTestCaseModal = ({ isOpen, onClose, testCase, onEdit, onDelete }: View
             </div>
           )}
 
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Run History</label>
+            {historyLoading ? (
+              <div className={styles.viewText}>Loading history...</div>
+            ) : history.length === 0 ? (
+              <div className={styles.viewText}>
+                {testCase.file_path ? 'This test has not run yet' : 'No history - this test case is not linked to a test file'}
+              </div>
+            ) : (
+              <div className={styles.history}>
+                <div className={styles.historySummary}>
+                  <span>Last {history.length} runs</span>
+                  <span>{executedRuns > 0 ? Math.round((passedRuns / executedRuns) * 100) : 0}% passed</span>
+                  <span>avg {formatDuration(averageDuration)}</span>
+                </div>
+                <div className={styles.historyStrip}>
+                  {chronological.map((entry) => (
+                    <button
+                      key={entry.id}
+                      className={`${styles.historyDot} ${styles[`history_${entry.status}`] || ''} ${selectedEntry?.id === entry.id ? styles.historyDotSelected : ''}`}
+                      title={`${entry.run_name || 'Run'} · ${entry.status} · ${formatDuration(entry.duration_ms)}`}
+                      onClick={() => setSelectedEntry(selectedEntry?.id === entry.id ? null : entry)}
+                    />
+                  ))}
+                </div>
+                {durations.length > 1 && (
+                  <svg className={styles.sparkline} viewBox="0 0 300 40" preserveAspectRatio="none">
+                    <polyline points={sparklinePoints(durations, 300, 40)} />
+                  </svg>
+                )}
+                {selectedEntry && (
+                  <div className={styles.historyDetail}>
+                    <div>
+                      <strong>{selectedEntry.run_name || 'Run'}</strong> · {selectedEntry.status} · {formatDuration(selectedEntry.duration_ms)}
+                      {selectedEntry.retry_count ? ` · ${selectedEntry.retry_count} retries` : ''}
+                    </div>
+                    <div className={styles.historyMeta}>
+                      {new Date(selectedEntry.start_time).toLocaleString()}
+                      {selectedEntry.browser && ` · ${selectedEntry.browser}`}
+                      {selectedEntry.branch && ` · ⎇ ${selectedEntry.branch}`}
+                      {selectedEntry.commit_sha && ` · ${selectedEntry.commit_sha.slice(0, 7)}`}
+                      {selectedEntry.quarantined && ' · quarantined'}
+                    </div>
+                    {selectedEntry.error_message && (
+                      <pre className={styles.historyError}>{selectedEntry.error_message}</pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           <div className={styles.formGroup}>
             <label className={styles.label}>Test Case ID</label>
             <div className={styles.viewText} style={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
@@ -116,6 +223,11 @@ const ViewTestCaseModal = ({ isOpen, onClose, testCase, onEdit, onDelete }: View
                 Edit Test Case
               </button>
             )}
+            {onRun && (
+              <button onClick={onRun} className={styles.submitButton} disabled={running}>
+                {running ? 'Queueing...' : '▶ Run Test'}
+              </button>
+            )}
           </div>
         </div>
       </div>
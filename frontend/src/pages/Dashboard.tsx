@@ -2,6 +2,7 @@ import { useState } from 'react';
 import Loading from '../components/common/Loading';
 import CreateProjectModal from '../components/common/CreateProjectModal';
 import ProjectCard from '../components/common/ProjectCard';
+import ProjectAnalytics from '../components/ProjectAnalytics';
 import Toast from '../components/common/Toast';
 import type { ToastType } from '../components/common/Toast';
 import { useProject } from '../contexts/ProjectContext';
@@ -15,7 +16,7 @@ interface ToastState {
 }
 
 const Dashboard = () => {
-  const { loading: projectsLoading, projects: allProjects, refreshProjects } = useProject();
+  const { loading: projectsLoading, projects: allProjects, currentProject, refreshProjects } = useProject();
   const [isCreateProjectModalOpen, setIsCreateProjectModalOpen] = useState(false);
   const [runningProjects, setRunningProjects] = useState<Set<string>>(new Set());
   const [toast, setToast] = useState<ToastState>({ show: false, message: '', type: 'info' });
@@ -159,6 +160,8 @@ const Dashboard = () => {
           </div>
         </div>
 
+        {currentProject && <ProjectAnalytics key={currentProject.id} projectId={currentProject.id} projectName={currentProject.name} />}
+
         <div className={styles.projectsGrid}>
           {allProjects.map((project) => (
             <div key={project.id} style={{ position: 'relative' }}>
@@ -72,9 +72,7 @@ const ProjectDetail = () => {
       console.log('[ProjectDetail] Test execution response:', response.data);
 
       if (response.data.success) {
-        alert(`Test execution completed!\n\nTotal Tests: ${response.data.data.totalTests}\nPassed: ${response.data.data.passedTests}\nFailed: ${response.data.data.failedTests}\nStatus: ${response.data.data.status}`);
-      } else {
-        alert('Test execution started! Check the test results page for updates.');
+        alert(`${response.data.data.runName} queued! Check the test results page for updates.`);
       }
 
       // Refresh project data
@@ -103,7 +101,7 @@ const ProjectDetail = () => {
       console.log('[ProjectDetail] Test suite execution response:', response.data);
 
       if (response.data.success) {
-        alert(`Test suite execution completed!\n\nTotal Tests: ${response.data.data.totalTests}\nPassed: ${response.data.data.passedTests}\nFailed: ${response.data.data.failedTests}`);
+        alert(`${response.data.data.runName} queued! Check the test results page for updates.`);
       }
 
       // Refresh test suites to get updated stats
@@ -3,7 +3,8 @@ import { useParams, useNavigate } from 'react-router-dom';
 import api from '../services/api.service';
 import Loading from '../components/common/Loading';
 import TestRunHistory from '../components/TestRunHistory';
-import type { Project, TestSuite, BrowserType } from '../types';
+import LiveRunProgress from '../components/LiveRunProgress';
+import type { Project, TestSuite, BrowserType, ProjectEnvironment, QueuedTestRun } from '../types';
 import styles from './ProjectDetail.module.css';
 
 interface TestRunStats {
@@ -14,6 +15,7 @@ interface TestRunStats {
   passed_tests: number;
   failed_tests: number;
   skipped_tests: number;
+  quarantined_tests?: number;
   duration_ms: number;
   browser: string;
   start_time: string;
@@ -22,6 +24,12 @@ interface TestRunStats {
   reportUrl?: string;
 }
 
+const BROWSER_OPTIONS: Array<{ value: BrowserType; label: string }> = [
+  { value: 'chromium', label: 'Chromium' },
+  { value: 'firefox', label: 'Firefox' },
+  { value: 'webkit', label: 'WebKit' }
+];
+
 const ProjectDetailEnhanced = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
@@ -32,9 +40,16 @@ const ProjectDetailEnhanced = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedBrowser, setSelectedBrowser] = useState<BrowserType>('chromium');
+  // More than one browser (or any device profile) makes a single multi-browser run
+  const [selectedBrowsers, setSelectedBrowsers] = useState<BrowserType[]>(['chromium']);
+  const [deviceProfiles, setDeviceProfiles] = useState('');
+  const [environments, setEnvironments] = useState<ProjectEnvironment[]>([]);
+  // Empty runs against the project's default environment
+  const [selectedEnvironmentId, setSelectedEnvironmentId] = useState('');
   const [runningTest, setRunningTest] = useState(false);
   const [showReport, setShowReport] = useState(false);
+  const [activeRun, setActiveRun] = useState<QueuedTestRun | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   useEffect(() => {
     if (projectId) {
@@ -49,9 +64,10 @@ const ProjectDetailEnhanced = () => {
       setLoading(true);
       setError(null);
 
-      const [projectResponse, suitesResponse] = await Promise.all([
+      const [projectResponse, suitesResponse, environmentsResponse] = await Promise.all([
         api.projects.getById(projectId),
-        api.testSuites.getByProject(projectId)
+        api.testSuites.getByProject(projectId),
+        api.environments.getByProject(projectId)
       ]);
 
       const projectData = projectResponse.data.data || projectResponse.data;
@@ -59,6 +75,7 @@ const ProjectDetailEnhanced = () => {
 
       setProject(projectData);
       setTestSuites(suitesData);
+      setEnvironments(environmentsResponse.data.data || []);
 
       // Fetch latest test run
       await fetchLatestReport();
@@ -127,16 +144,19 @@ const ProjectDetailEnhanced = () => {
     if (!projectId) return;
     setRunningTest(true);
     try {
+      const devices = deviceProfiles.split(',').map(device => device.trim()).filter(Boolean);
       const response = await api.executions.executeProject(projectId, {
-        browser: selectedBrowser,
+        browsers: selectedBrowsers,
+        devices: devices.length > 0 ? devices : undefined,
+        environment_id: selectedEnvironmentId || undefined,
         headless: true,
         workers: 4
       });
 
       if (response.data.success) {
-        const data = response.data.data;
-        alert(`✅ Test execution completed!\n\nTotal: ${data.totalTests}\nPassed: ${data.passedTests}\nFailed: ${data.failedTests}\nSkipped: ${data.skippedTests}`);
-        await fetchLatestReport();
+        // Follow the queued run live instead of waiting for it to finish
+        setActiveRun(response.data.data);
+        setHistoryRefreshKey(key => key + 1);
       }
     } catch (err: any) {
       const errorMsg = err.response?.data?.error || err.response?.data?.message || 'Failed to run tests';
@@ -146,6 +166,12 @@ const ProjectDetailEnhanced = () => {
     }
   };
 
+  const toggleBrowser = (browser: BrowserType) => {
+    setSelectedBrowsers(current =>
+      current.includes(browser) ? current.filter(selected => selected !== browser) : [...current, browser]
+    );
+  };
+
   if (loading) return <Loading message="Loading project details..." subtitle="Fetching project information" />;
   if (error) return (
     <div className={styles.errorContainer}>
@@ -201,21 +227,51 @@ const ProjectDetailEnhanced = () => {
             📥 Sync Tests
           </button>
           <div className={styles.browserSelector}>
-            <label htmlFor="browser">Browser:</label>
-            <select
-              id="browser"
-              value={selectedBrowser}
-              onChange={(e) => setSelectedBrowser(e.target.value as BrowserType)}
+            <label>Browsers:</label>
+            <div className={styles.browserOptions}>
+              {BROWSER_OPTIONS.map(({ value, label }) => (
+                <label
+                  key={value}
+                  className={`${styles.browserOption} ${selectedBrowsers.includes(value) ? styles.browserOptionActive : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedBrowsers.includes(value)}
+                    onChange={() => toggleBrowser(value)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={deviceProfiles}
+              onChange={(e) => setDeviceProfiles(e.target.value)}
+              placeholder="Devices, e.g. iPhone 13, Pixel 7"
+              title="Playwright device profiles to add to the run, separated by commas"
               className={styles.select}
-            >
-              <option value="chromium">Chromium</option>
-              <option value="firefox">Firefox</option>
-              <option value="webkit">WebKit</option>
-            </select>
+            />
+            {environments.length > 0 && (
+              <select
+                value={selectedEnvironmentId}
+                onChange={(e) => setSelectedEnvironmentId(e.target.value)}
+                title="Environment whose variables and secrets are passed to the run"
+                className={styles.select}
+              >
+                {!environments.some(environment => environment.is_default) && (
+                  <option value="">No environment</option>
+                )}
+                {environments.map((environment) => (
+                  <option key={environment.id} value={environment.is_default ? '' : environment.id}>
+                    {environment.name}{environment.is_default ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
           <button
             onClick={handleRunAllTests}
-            disabled={runningTest}
+            disabled={runningTest || selectedBrowsers.length === 0}
             className={styles.runAllButton}
           >
             {runningTest ? '⏳ Running...' : '▶ Run All Tests'}
@@ -223,6 +279,19 @@ const ProjectDetailEnhanced = () => {
         </div>
       </div>
 
+      {/* Live progress for the run queued from this page */}
+      {activeRun && (
+        <LiveRunProgress
+          key={activeRun.testRunId}
+          runId={activeRun.testRunId}
+          runName={activeRun.runName}
+          onFinished={() => {
+            fetchLatestReport();
+            setHistoryRefreshKey(key => key + 1);
+          }}
+        />
+      )}
+
       {/* Test Discovery Stats */}
       {testStats && (
         <div className={styles.statsCard}>
@@ -279,6 +348,14 @@ const ProjectDetailEnhanced = () => {
                 {latestRun.skipped_tests}
               </span>
             </div>
+            {!!latestRun.quarantined_tests && (
+              <div className={styles.statItem} title="Failures of quarantined tests - they don't fail the run">
+                <span className={styles.statLabel}>Quarantined</span>
+                <span className={styles.statValue} style={{ color: 'var(--gray-500)' }}>
+                  {latestRun.quarantined_tests}
+                </span>
+              </div>
+            )}
             <div className={styles.statItem}>
               <span className={styles.statLabel}>Duration</span>
               <span className={styles.statValue}>
@@ -353,7 +430,7 @@ const ProjectDetailEnhanced = () => {
                   </a>
                 </div>
                 <iframe
-                  src={`http://localhost:5000/api/v1/executions/run/${latestRun.id}/view-report`}
+                  src={latestRun.reportUrl}
                   style={{
                     width: '100%',
                     height: '800px',
@@ -373,7 +450,7 @@ const ProjectDetailEnhanced = () => {
       {/* Test Run History Section */}
       {project && (
         <div style={{ marginTop: '2rem', marginBottom: '2rem' }}>
-          <TestRunHistory projectId={project.id} projectName={project.name} />
+          <TestRunHistory projectId={project.id} projectName={project.name} refreshKey={historyRefreshKey} />
         </div>
       )}
 
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import api from '../services/api.service';
+import Button from '../components/common/Button';
+import Loading from '../components/common/Loading';
+import type { RunComparison as RunComparisonData, RunComparisonCategory, RunComparisonCase, RunComparisonRun } from '../types';
+import styles from './RunComparison.module.css';
+
+const CATEGORIES: Array<{ key: RunComparisonCategory; label: string; icon: string }> = [
+  { key: 'newlyFailing', label: 'Newly failing', icon: '✗' },
+  { key: 'newlyPassing', label: 'Newly passing', icon: '✓' },
+  { key: 'stillFailing', label: 'Still failing', icon: '!' },
+  { key: 'slower', label: 'Slower', icon: '🐢' },
+  { key: 'added', label: 'Added', icon: '+' },
+  { key: 'removed', label: 'Removed', icon: '−' }
+];
+
+const formatDuration = (ms: number | null | undefined): string => {
+  if (ms === null || ms === undefined) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const runBrowsers = (run: RunComparisonRun): string | null =>
+  run.browsers && run.browsers.length > 1 ? run.browsers.join(' · ') : run.browser;
+
+const RunComparison = () => {
+  const { runId, otherRunId } = useParams<{ runId: string; otherRunId: string }>();
+  const navigate = useNavigate();
+  const [comparison, setComparison] = useState<RunComparisonData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [category, setCategory] = useState<RunComparisonCategory>('newlyFailing');
+
+  useEffect(() => {
+    if (!runId || !otherRunId) return;
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await api.executions.compareTestRuns(runId, otherRunId);
+        const data = response.data.data;
+        setComparison(data);
+        // Open the first category that has something in it
+        setCategory(CATEGORIES.find(({ key }) => data.summary[key] > 0)?.key || 'newlyFailing');
+      } catch (err) {
+        setError(isAxiosError<{ message?: string }>(err)
+          ? err.response?.data?.message || err.message
+          : 'Failed to compare test runs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [runId, otherRunId]);
+
+  if (loading) return <Loading message="Comparing test runs..." subtitle="Matching test results" />;
+  if (error || !comparison) {
+    return (
+      <div className={styles.errorContainer}>
+        <div className={styles.errorIcon}>⚠️</div>
+        <h2 className={styles.errorTitle}>Error Comparing Test Runs</h2>
+        <p className={styles.errorMessage}>{error || 'Comparison not available'}</p>
+        <button onClick={() => navigate(-1)} className={styles.retryButton}>
+          Go Back
+        </button>
+      </div>
+    );
+  }
+
+  const { base, head, commits } = comparison;
+  const cases = comparison[category];
+
+  const renderRun = (run: RunComparisonRun, label: string) => (
+    <div className={styles.runCard}>
+      <div className={styles.runLabel}>{label}</div>
+      <div className={styles.runTitle}>
+        {run.run_name}
+        <span className={`${styles.runStatus} ${styles[`status_${run.status}`] || ''}`}>{run.status}</span>
+      </div>
+      <div className={styles.runMeta}>
+        <span>{new Date(run.start_time).toLocaleString()}</span>
+        {runBrowsers(run) && <span>{runBrowsers(run)}</span>}
+        {run.branch && <span>⎇ {run.branch}</span>}
+        <span>{formatDuration(run.duration_ms)}</span>
+      </div>
+      {run.commit_sha && (
+        <div className={styles.runCommit}>
+          {run.commit_url ? (
+            <a href={run.commit_url} target="_blank" rel="noopener noreferrer">{run.commit_sha.slice(0, 7)}</a>
+          ) : (
+            <code>{run.commit_sha.slice(0, 7)}</code>
+          )}
+          {run.commit_message && <span title={run.commit_message}>{run.commit_message.split('\n')[0]}</span>}
+          {run.commit_author_name && <span className={styles.commitAuthor}>{run.commit_author_name}</span>}
+        </div>
+      )}
+      <div className={styles.runTotals}>
+        <span className={styles.totalPassed}>{run.passed_tests} passed</span>
+        <span className={styles.totalFailed}>{run.failed_tests} failed</span>
+        {run.flaky_tests > 0 && <span className={styles.totalFlaky}>{run.flaky_tests} flaky</span>}
+        <span>{run.skipped_tests} skipped</span>
+      </div>
+    </div>
+  );
+
+  const renderStatus = (status: RunComparisonCase['head_status'], duration: number | null) =>
+    status ? (
+      <span className={`${styles.caseStatus} ${styles[`case_${status}`] || ''}`}>
+        {status} · {formatDuration(duration)}
+      </span>
+    ) : (
+      <span className={styles.caseMissing}>not run</span>
+    );
+
+  return (
+    <div>
+      <div className={styles.pageHeader}>
+        <div className={styles.breadcrumb}>
+          <a onClick={() => navigate('/')}>Home</a>
+          <span>›</span>
+          <a onClick={() => navigate(`/project/${comparison.projectId}`)}>{comparison.projectName}</a>
+          <span>›</span>
+          <span>Compare runs</span>
+        </div>
+        <div className={styles.headerTop}>
+          <div>
+            <h1 className={styles.pageTitle}>#{head.run_number} vs #{base.run_number}</h1>
+            <p className={styles.pageSubtitle}>What changed in {head.run_name} compared with {base.run_name}</p>
+          </div>
+          <Button variant="secondary" onClick={() => navigate(-1)}>
+            ← Back
+          </Button>
+        </div>
+      </div>
+
+      <div className={styles.runsGrid}>
+        {renderRun(base, 'Baseline')}
+        {renderRun(head, 'Compared run')}
+      </div>
+
+      {commits && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <h2 className={styles.sectionTitle}>
+              Commits
+              {commits.commits && ` (${commits.commits.length})`}
+            </h2>
+            {commits.compare_url && (
+              <a href={commits.compare_url} target="_blank" rel="noopener noreferrer" className={styles.externalLink}>
+                View diff ↗
+              </a>
+            )}
+          </div>
+          {commits.commits === null ? (
+            <p className={styles.muted}>
+              {commits.base_sha.slice(0, 7)}..{commits.head_sha.slice(0, 7)} - the commit list isn't available in the local clone.
+            </p>
+          ) : commits.commits.length === 0 ? (
+            <p className={styles.muted}>No new commits (the compared run is not ahead of the baseline).</p>
+          ) : (
+            <ul className={styles.commitList}>
+              {commits.commits.map((commit) => (
+                <li key={commit.sha}>
+                  <code>{commit.sha.slice(0, 7)}</code>
+                  <span className={styles.commitSubject}>{commit.subject}</span>
+                  <span className={styles.commitAuthor}>{commit.authorName}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className={styles.section}>
+        <div className={styles.tabs}>
+          {CATEGORIES.map(({ key, label, icon }) => (
+            <button
+              key={key}
+              className={`${styles.tab} ${category === key ? styles.tabActive : ''}`}
+              onClick={() => setCategory(key)}
+            >
+              <span>{icon}</span>
+              {label}
+              <span className={styles.tabCount}>{comparison.summary[key]}</span>
+            </button>
+          ))}
+        </div>
+
+        {cases.length === 0 ? (
+          <p className={styles.muted}>No tests in this category.</p>
+        ) : (
+          <table className={styles.caseTable}>
+            <thead>
+              <tr>
+                <th>Test</th>
+                <th>Baseline</th>
+                <th>Compared run</th>
+                {category === 'slower' && <th>Change</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {cases.map((testCase) => (
+                <tr key={`${testCase.browser}|${testCase.file_path}|${testCase.suite_name}|${testCase.test_name}`}>
+                  <td>
+                    <div className={styles.caseName}>{testCase.test_name}</div>
+                    <div className={styles.caseLocation}>
+                      {[testCase.browser, testCase.file_path, testCase.suite_name].filter(Boolean).join(' › ')}
+                    </div>
+                    {testCase.error_message && (category === 'newlyFailing' || category === 'stillFailing') && (
+                      <pre className={styles.caseError}>{testCase.error_message}</pre>
+                    )}
+                  </td>
+                  <td>{renderStatus(testCase.base_status, testCase.base_duration_ms)}</td>
+                  <td>
+                    {renderStatus(testCase.head_status, testCase.head_duration_ms)}
+                    {testCase.head_quarantined && <span className={styles.quarantined}>quarantined</span>}
+                  </td>
+                  {category === 'slower' && (
+                    <td className={styles.delta}>
+                      +{formatDuration(testCase.duration_delta_ms)} ({testCase.duration_delta_percent}%)
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunComparison;
@@ -5,19 +5,27 @@ import authService from '../services/auth.service';
 import Button from '../components/common/Button';
 import Loading from '../components/common/Loading';
 import EditProfileModal from '../components/common/EditProfileModal';
+import EditProjectModal from '../components/common/EditProjectModal';
+import ScheduleSettings from '../components/ScheduleSettings';
+import EnvironmentSettings from '../components/EnvironmentSettings';
+import RepositoryCredentials from '../components/RepositoryCredentials';
+import ProjectMembers from '../components/ProjectMembers';
+import ApiTokens from '../components/ApiTokens';
+import UserSessions from '../components/UserSessions';
 import { useProject } from '../contexts/ProjectContext';
-import type { User } from '../types';
+import type { Project, User } from '../types';
 import styles from './Settings.module.css';
 
 const Settings = () => {
   const navigate = useNavigate();
   const { currentProject, projects, setCurrentProject, refreshProjects } = useProject();
-  const [activeTab, setActiveTab] = useState<'profile' | 'project' | 'users'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'project' | 'environments' | 'schedules' | 'users'>('profile');
   const [loading, setLoading] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isEditProfileModalOpen, setIsEditProfileModalOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [currentUserData, setCurrentUserData] = useState<User | null>(authService.getUser());
 
   const isAdmin = currentUserData?.role === 'admin';
@@ -41,6 +49,12 @@ const Settings = () => {
     }
   };
 
+  const handleProjectUpdated = async () => {
+    setSuccess('Project updated successfully');
+    await refreshProjects();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   const handleDeleteProject = async (projectId: string) => {
     if (!window.confirm('Are you sure you want to delete this project? This action cannot be undone.')) {
       return;
@@ -133,6 +147,9 @@ const Settings = () => {
           {currentUserData?.created_at ? new Date(currentUserData.created_at).toLocaleDateString() : 'N/A'}
         </div>
       </div>
+
+      <h2 className={styles.sectionTitle} style={{ marginTop: '2rem' }}>API Tokens</h2>
+      <ApiTokens />
     </div>
   );
 
@@ -166,6 +183,12 @@ const Settings = () => {
                   {project.base_url && (
                     <div className={styles.projectUrl}>🔗 {project.base_url}</div>
                   )}
+                  {project.repo_url && (
+                    <div className={styles.projectUrl}>
+                      ⎇ {project.repo_url} ({project.default_branch || 'main'}
+                      {project.working_directory && `, ${project.working_directory}`})
+                    </div>
+                  )}
                 </div>
               </div>
               <div className={styles.projectMeta}>
@@ -181,17 +204,70 @@ const Settings = () => {
                 >
                   {currentProject?.id === project.id ? 'Current' : 'Switch To'}
                 </Button>
-                <button
-                  className={styles.deleteButton}
-                  onClick={() => handleDeleteProject(project.id)}
-                >
-                  Delete
-                </button>
+                <Button variant="secondary" onClick={() => setEditingProject(project)}>
+                  Edit
+                </Button>
+                {isAdmin && (
+                  <button
+                    className={styles.deleteButton}
+                    onClick={() => handleDeleteProject(project.id)}
+                  >
+                    Delete
+                  </button>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {currentProject && (
+        <>
+          <h2 className={styles.sectionTitle} style={{ marginTop: '2rem' }}>Repository Access · {currentProject.name}</h2>
+          <RepositoryCredentials key={currentProject.id} projectId={currentProject.id} />
+
+          <h2 className={styles.sectionTitle}>Members · {currentProject.name}</h2>
+          <ProjectMembers
+            key={`members-${currentProject.id}`}
+            projectId={currentProject.id}
+            canManage={isAdmin || currentProject.member_role === 'owner'}
+          />
+        </>
+      )}
+    </div>
+  );
+
+  const renderEnvironmentsTab = () => (
+    <div className={styles.tabContent}>
+      <h2 className={styles.sectionTitle}>
+        Environments{currentProject ? ` · ${currentProject.name}` : ''}
+      </h2>
+      {currentProject ? (
+        <EnvironmentSettings projectId={currentProject.id} />
+      ) : (
+        <div className={styles.emptyState}>
+          <div className={styles.emptyIllustration}>🌐</div>
+          <div className={styles.emptyTitle}>No Project Selected</div>
+          <div className={styles.emptyDescription}>Select a project to manage its environments</div>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderSchedulesTab = () => (
+    <div className={styles.tabContent}>
+      <h2 className={styles.sectionTitle}>
+        Schedules{currentProject ? ` · ${currentProject.name}` : ''}
+      </h2>
+      {currentProject ? (
+        <ScheduleSettings projectId={currentProject.id} />
+      ) : (
+        <div className={styles.emptyState}>
+          <div className={styles.emptyIllustration}>⏰</div>
+          <div className={styles.emptyTitle}>No Project Selected</div>
+          <div className={styles.emptyDescription}>Select a project to manage its scheduled runs</div>
+        </div>
+      )}
     </div>
   );
 
@@ -267,6 +343,9 @@ const Settings = () => {
             </table>
           </div>
         )}
+
+        <h2 className={styles.sectionTitle} style={{ marginTop: '2rem' }}>Active Sessions</h2>
+        <UserSessions />
       </div>
     );
   };
@@ -311,6 +390,20 @@ const Settings = () => {
             <span>📁</span>
             Projects
           </button>
+          <button
+            className={`${styles.tab} ${activeTab === 'environments' ? styles.active : ''}`}
+            onClick={() => setActiveTab('environments')}
+          >
+            <span>🌐</span>
+            Environments
+          </button>
+          <button
+            className={`${styles.tab} ${activeTab === 'schedules' ? styles.active : ''}`}
+            onClick={() => setActiveTab('schedules')}
+          >
+            <span>⏰</span>
+            Schedules
+          </button>
           {isAdmin && (
             <button
               className={`${styles.tab} ${activeTab === 'users' ? styles.active : ''}`}
@@ -325,6 +418,8 @@ const Settings = () => {
         <div className={styles.tabsContent}>
           {activeTab === 'profile' && renderProfileTab()}
           {activeTab === 'project' && renderProjectTab()}
+          {activeTab === 'environments' && renderEnvironmentsTab()}
+          {activeTab === 'schedules' && renderSchedulesTab()}
           {activeTab === 'users' && renderUsersTab()}
         </div>
       </div>
@@ -337,6 +432,16 @@ const Settings = () => {
           onProfileUpdated={handleProfileUpdated}
         />
       )}
+
+      {editingProject && (
+        <EditProjectModal
+          key={editingProject.id}
+          isOpen
+          onClose={() => setEditingProject(null)}
+          project={editingProject}
+          onProjectUpdated={handleProjectUpdated}
+        />
+      )}
     </div>
   );
 };
@@ -4,7 +4,7 @@ import api from '../services/api.service';
 import socketService from '../services/socket.service';
 import Loading from '../components/common/Loading';
 import { useProject } from '../contexts/ProjectContext';
-import type { TestRun, TestFilterType } from '../types';
+import type { TestRun, FlakyTest, TestFilterType, TestRunUpdate } from '../types';
 import styles from './TestResults.module.css';
 
 const TestResults = () => {
@@ -12,17 +12,25 @@ const TestResults = () => {
   const { currentProject } = useProject();
   const [loading, setLoading] = useState(true);
   const [testRuns, setTestRuns] = useState<TestRun[]>([]);
+  const [flakyTests, setFlakyTests] = useState<FlakyTest[]>([]);
   const [filter, setFilter] = useState<TestFilterType>('all');
   const [expandedTests, setExpandedTests] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
 
+  // Only refetch when a run changes state, not for every streamed test or log line
+  const handleRunUpdate = (update: TestRunUpdate) => {
+    if (update.type === 'status' || update.type === 'summary') {
+      fetchTestRuns();
+    }
+  };
+
   useEffect(() => {
     if (currentProject) {
       fetchTestRuns();
       socketService.connect();
-      socketService.onTestRunUpdate(() => fetchTestRuns());
+      socketService.onTestRunUpdate(handleRunUpdate);
     }
-    return () => { socketService.offTestRunUpdate(); };
+    return () => { socketService.offTestRunUpdate(handleRunUpdate); };
   }, [currentProject]);
 
   const fetchTestRuns = async () => {
@@ -31,8 +39,12 @@ const TestResults = () => {
     try {
       setLoading(true);
       setError(null);
-      const runsResponse = await api.executions.getProjectTestRuns(currentProject.id, 20);
+      const [runsResponse, flakyResponse] = await Promise.all([
+        api.executions.getProjectTestRuns(currentProject.id, 20),
+        api.projects.getFlakyTests(currentProject.id, 20)
+      ]);
       setTestRuns(runsResponse.data.data);
+      setFlakyTests(flakyResponse.data.data);
     } catch (err: any) {
       console.error('Error fetching test runs:', err);
       setError(err.response?.data?.message || 'Failed to load test results');
@@ -52,11 +64,15 @@ const TestResults = () => {
   };
 
   const getStatusIcon = (status: string) => {
-    return { completed: '✓', failed: '✗', in_progress: '⟳', cancelled: '⊘' }[status] || '?';
+    return { completed: '✓', failed: '✗', queued: '…', in_progress: '⟳', cancelled: '⊘', interrupted: '!' }[status] || '?';
   };
 
   const getStatusClass = (status: string) => {
-    return { completed: styles.passed, failed: styles.failed, in_progress: styles.running }[status] || styles.skipped;
+    return { completed: styles.passed, failed: styles.failed, queued: styles.running, in_progress: styles.running }[status] || styles.skipped;
+  };
+
+  const getCaseStatusClass = (status: string) => {
+    return { passed: styles.passed, failed: styles.failed, flaky: styles.flaky }[status] || styles.skipped;
   };
 
   const handleViewReport = async (runId: string) => {
@@ -151,9 +167,65 @@ const TestResults = () => {
                   {testRuns.filter(r => r.status === 'failed' || r.failed_tests > 0).length}
                 </span>
               </button>
+              <button
+                className={`${styles.filterBtn} ${filter === 'flaky' ? styles.active : ''}`}
+                onClick={() => setFilter('flaky')}
+              >
+                ⚠ Flaky
+                <span className={styles.filterCount}>{flakyTests.length}</span>
+              </button>
             </div>
           </div>
 
+          {filter === 'flaky' && (
+            flakyTests.length === 0 ? (
+              <div className={styles.flakyEmpty}>No flaky tests in recent runs</div>
+            ) : (
+              flakyTests.map((test) => (
+                <div key={`${test.file_path}::${test.suite_name}::${test.test_name}`} className={styles.testRow}>
+                  <div className={styles.testRowHeader}>
+                    <div className={`${styles.testStatusIndicator} ${styles.flaky}`}>⚠</div>
+
+                    <div className={styles.testMainInfo}>
+                      <div className={styles.testName}>{test.test_name}</div>
+                      <div className={styles.testPath}>
+                        {test.file_path || test.suite_name}
+                      </div>
+                    </div>
+
+                    <div className={styles.testMeta}>
+                      <div className={styles.testMetaItem}>
+                        <span className={styles.flakeRate}>{test.flake_rate}% flaky</span>
+                      </div>
+                      <div className={styles.testMetaItem} title="Runs where the test only passed on retry">
+                        <span>⚠ {test.flaky_runs} / {test.runs}</span>
+                      </div>
+                      {test.commit_flips > 0 && (
+                        <div className={styles.testMetaItem} title="Pass/fail flips between runs of the same commit">
+                          <span>⇄ {test.commit_flips}</span>
+                        </div>
+                      )}
+                      <div className={styles.testMetaItem}>
+                        <span>↻ {test.max_retries}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Most recent run first */}
+                  <div className={styles.flakyHistory}>
+                    {test.history.map((entry) => (
+                      <span
+                        key={entry.run_id}
+                        className={`${styles.historyDot} ${getCaseStatusClass(entry.status)}`}
+                        title={`${entry.run_name || entry.run_id.substring(0, 8)} · ${entry.status}${entry.retry_count ? ` after ${entry.retry_count} ${entry.retry_count === 1 ? 'retry' : 'retries'}` : ''}${entry.commit_sha ? ` · ${entry.commit_sha.substring(0, 7)}` : ''}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))
+            )
+          )}
+
           {filteredRuns.map((run) => (
             <div
               key={run.id}
@@ -183,6 +255,11 @@ const TestResults = () => {
                   <div className={styles.testMetaItem}>
                     <span>⊘ {run.skipped_tests}</span>
                   </div>
+                  {!!run.flaky_tests && (
+                    <div className={styles.testMetaItem}>
+                      <span>⚠ {run.flaky_tests}</span>
+                    </div>
+                  )}
                   <div className={styles.testMetaItem}>
                     <span>⏱️ {run.duration_ms ? `${(run.duration_ms / 1000).toFixed(2)}s` : 'N/A'}</span>
                   </div>
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { isAxiosError } from 'axios';
 import { useNavigate, useParams } from 'react-router-dom';
 import api from '../services/api.service';
 import Button from '../components/common/Button';
@@ -17,6 +18,8 @@ const TestSuiteDetail = () => {
   const [error, setError] = useState<string | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [selectedCase, setSelectedCase] = useState<TestCase | null>(null);
+  // Test case whose run is being queued
+  const [runningCaseId, setRunningCaseId] = useState<string | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -64,6 +67,19 @@ const TestSuiteDetail = () => {
     }
   };
 
+  const handleRunCase = async (caseId: string) => {
+    setRunningCaseId(caseId);
+    try {
+      await api.executions.executeTestCase(caseId, { browser: 'chromium', headless: true });
+      navigate('/results');
+    } catch (err) {
+      const message = isAxiosError<{ message?: string }>(err) ? err.response?.data?.message || err.message : String(err);
+      alert('Failed to run test: ' + message);
+    } finally {
+      setRunningCaseId(null);
+    }
+  };
+
   const getPriorityColor = (priority: string) => {
     const colors = {
       critical: 'var(--error-500)',
@@ -207,6 +223,13 @@ const TestSuiteDetail = () => {
                 </div>
 
                 <div className={styles.caseActions}>
+                  <button
+                    className={styles.actionButton}
+                    onClick={() => handleRunCase(testCase.id)}
+                    disabled={runningCaseId === testCase.id}
+                  >
+                    {runningCaseId === testCase.id ? 'Queueing...' : '▶ Run'}
+                  </button>
                   <button
                     className={styles.actionButton}
                     onClick={() => setSelectedCase(testCase)}
@@ -237,6 +260,8 @@ const TestSuiteDetail = () => {
         isOpen={!!selectedCase}
         onClose={() => setSelectedCase(null)}
         testCase={selectedCase}
+        onRun={selectedCase ? () => handleRunCase(selectedCase.id) : undefined}
+        running={!!selectedCase && runningCaseId === selectedCase.id}
         onDelete={selectedCase ? () => {
           handleDeleteCase(selectedCase.id);
           setSelectedCase(null);
@@ -5,7 +5,7 @@ import Button from '../components/common/Button';
 import Loading from '../components/common/Loading';
 import CreateTestSuiteModal from '../components/common/CreateTestSuiteModal';
 import { useProject } from '../contexts/ProjectContext';
-import type { TestSuite, BrowserType, EnvironmentType } from '../types';
+import type { TestSuite, BrowserType, ProjectEnvironment } from '../types';
 import styles from './TestSuites.module.css';
 
 const TestSuites = () => {
@@ -14,7 +14,9 @@ const TestSuites = () => {
   const [loading, setLoading] = useState(true);
   const [testSuites, setTestSuites] = useState<TestSuite[]>([]);
   const [browser, setBrowser] = useState<BrowserType>('chromium');
-  const [environment, setEnvironment] = useState<EnvironmentType>('production');
+  const [environments, setEnvironments] = useState<ProjectEnvironment[]>([]);
+  // Empty runs against the project's default environment
+  const [environmentId, setEnvironmentId] = useState('');
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -31,8 +33,13 @@ const TestSuites = () => {
     try {
       setLoading(true);
       setError(null);
-      const suitesResponse = await api.testSuites.getByProject(currentProject.id);
+      const [suitesResponse, environmentsResponse] = await Promise.all([
+        api.testSuites.getByProject(currentProject.id),
+        api.environments.getByProject(currentProject.id)
+      ]);
       setTestSuites(suitesResponse.data.data);
+      setEnvironments(environmentsResponse.data.data || []);
+      setEnvironmentId('');
     } catch (err: any) {
       console.error('Error fetching test suites:', err);
       setError(err.response?.data?.message || 'Failed to load test suites');
@@ -49,21 +56,20 @@ const TestSuites = () => {
       let response;
       if (suiteId) {
         // Run specific test suite with Playwright
-        response = await api.executions.executeTestSuite(suiteId, { browser, environment, headless: true });
+        response = await api.executions.executeTestSuite(suiteId, { browser, environment_id: environmentId || undefined, headless: true });
       } else {
         // Run all project tests with Playwright
         response = await api.executions.executeProject(currentProject.id, {
           browser,
+          environment_id: environmentId || undefined,
           headless: true,
           workers: 1
         });
       }
 
-      // Show success message with report link
-      const testRun = response.data;
-      const message = `Tests ${testRun.status === 'completed' ? 'completed successfully' : 'finished'}!\n\nTotal: ${testRun.total_tests}\nPassed: ${testRun.passed_tests}\nFailed: ${testRun.failed_tests}\n\nView results page for the HTML report.`;
-
-      alert(message);
+      // The run executes in the background - send the user to the results page to follow it
+      const queuedRun = response.data.data;
+      alert(`${queuedRun.runName} queued!\n\nView the results page for progress and the HTML report.`);
       navigate('/results');
     } catch (err: any) {
       console.error('Error running tests:', err);
@@ -92,7 +98,7 @@ const TestSuites = () => {
       </div>
       <div className={styles.actionBar}>
         <div className={styles.filterGroup}><span className={styles.filterLabel}>Browser:</span><select className={styles.selectInput} value={browser} onChange={(e) => setBrowser(e.target.value as BrowserType)}><option value="chromium">Chromium</option><option value="firefox">Firefox</option><option value="webkit">WebKit</option></select></div>
-        <div className={styles.filterGroup}><span className={styles.filterLabel}>Environment:</span><select className={styles.selectInput} value={environment} onChange={(e) => setEnvironment(e.target.value as EnvironmentType)}><option value="production">Production</option><option value="staging">Staging</option><option value="development">Development</option></select></div>
+        <div className={styles.filterGroup}><span className={styles.filterLabel}>Environment:</span><select className={styles.selectInput} value={environmentId} onChange={(e) => setEnvironmentId(e.target.value)}><option value="">Project default</option>{environments.map((env) => <option key={env.id} value={env.id}>{env.name}</option>)}</select></div>
         <div className={styles.actionBarRight}><Button variant="secondary" onClick={() => setIsCreateModalOpen(true)}><span>+</span>New Suite</Button><Button variant="primary" onClick={() => handleRunTests()} disabled={isRunning || testSuites.length === 0}><span>▶</span>{isRunning ? 'Running...' : 'Run All Tests'}</Button></div>
       </div>
       {testSuites.length === 0 ? (
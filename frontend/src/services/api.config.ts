@@ -25,16 +25,68 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Requests that must not trigger a refresh when they fail with 401
+const AUTH_ENDPOINTS = ['/users/login', '/users/register', '/users/refresh', '/users/logout'];
+
+// One refresh at a time: requests that fail together all wait for the same new token
+let refreshRequest: Promise<string | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new access token (and a new refresh token).
+ * Resolves to null when there is no session left to refresh.
+ */
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshRequest) {
+    const refreshToken = localStorage.getItem('auth_refresh_token');
+
+    refreshRequest = (refreshToken
+      ? axios
+          .post(`${apiClient.defaults.baseURL}/users/refresh`, { refreshToken })
+          .then((response) => {
+            const { token, refreshToken: nextRefreshToken } = response.data.data;
+            localStorage.setItem('auth_token', token);
+            localStorage.setItem('auth_refresh_token', nextRefreshToken);
+            return token as string;
+          })
+          .catch(() => null)
+      : Promise.resolve(null)
+    ).finally(() => {
+      refreshRequest = null;
+    });
+  }
+
+  return refreshRequest;
+};
+
 apiClient.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    // An expired access token: refresh it once and repeat the request
+    if (error.response?.status === 401 && request && !request._retried && !AUTH_ENDPOINTS.includes(request.url || '')) {
+      request._retried = true;
+      const token = await refreshAccessToken();
+
+      if (token) {
+        request.headers.Authorization = `Bearer ${token}`;
+        return apiClient(request);
+      }
+    }
+
     if (error.response) {
       const { status, data } = error.response;
       switch (status) {
         case 401:
+          // The session is over (expired, logged out elsewhere or revoked)
           localStorage.removeItem('auth_token');
+          localStorage.removeItem('auth_refresh_token');
+          localStorage.removeItem('auth_user');
+          if (!AUTH_ENDPOINTS.includes(request?.url || '') && window.location.pathname !== '/login') {
+            window.location.href = '/login';
+          }
           break;
         case 403:
           console.error('Forbidden: You do not have permission to access this resource');
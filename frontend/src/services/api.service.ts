@@ -1,14 +1,23 @@
 import apiClient, { API_BASE_URL } from './api.config';
 import axios from 'axios';
-import type { ApiResponse, Project, TestSuite, TestCase, TestRun, TestExecution, CreateProjectDTO, CreateTestSuiteDTO, CreateTestCaseDTO, ExecuteTestDTO } from '../types';
+import type { ApiResponse, Project, TestSuite, TestCase, TestRun, TestRunFilters, RunComparison, FlakyTest, ProjectAnalytics, AnalyticsQuery, TestSchedule, CreateTestScheduleDTO, ProjectEnvironment, CreateProjectEnvironmentDTO, ProjectCredential, SaveProjectCredentialDTO, ProjectMember, ProjectRole, AddProjectMemberDTO, TestCaseHistoryEntry, QueuedTestRun, CreateProjectDTO, CreateTestSuiteDTO, CreateTestCaseDTO, ExecuteTestDTO, ApiToken, CreatedApiToken, CreateApiTokenDTO, UserSession } from '../types';
 
 export const projectApi = {
   getAll: () => apiClient.get<ApiResponse<Project[]>>('/projects'),
   getById: (id: string) => apiClient.get<Project>(`/projects/${id}`),
   getStats: (id: string) => apiClient.get<any>(`/projects/${id}/stats`),
+  getFlakyTests: (id: string, runs?: number) => apiClient.get<ApiResponse<FlakyTest[]>>(`/projects/${id}/flaky-tests`, { params: { runs } }),
+  getAnalytics: (id: string, query?: AnalyticsQuery) => apiClient.get<ApiResponse<ProjectAnalytics>>(`/projects/${id}/analytics`, { params: query }),
   create: (data: CreateProjectDTO) => apiClient.post<Project>('/projects', data),
   update: (id: string, data: Partial<CreateProjectDTO>) => apiClient.put<Project>(`/projects/${id}`, data),
   delete: (id: string) => apiClient.delete(`/projects/${id}`),
+  getCredential: (id: string) => apiClient.get<ApiResponse<ProjectCredential | null>>(`/projects/${id}/credentials`),
+  saveCredential: (id: string, data: SaveProjectCredentialDTO) => apiClient.put<ApiResponse<ProjectCredential>>(`/projects/${id}/credentials`, data),
+  deleteCredential: (id: string) => apiClient.delete(`/projects/${id}/credentials`),
+  getMembers: (id: string) => apiClient.get<ApiResponse<ProjectMember[]>>(`/projects/${id}/members`),
+  addMember: (id: string, data: AddProjectMemberDTO) => apiClient.post<ApiResponse<ProjectMember>>(`/projects/${id}/members`, data),
+  updateMember: (id: string, userId: string, role: ProjectRole) => apiClient.put<ApiResponse<ProjectMember>>(`/projects/${id}/members/${userId}`, { role }),
+  removeMember: (id: string, userId: string) => apiClient.delete(`/projects/${id}/members/${userId}`),
 };
 
 export const testSuiteApi = {
@@ -28,17 +37,19 @@ export const testCaseApi = {
 };
 
 export const executionApi = {
-  executeTestCase: (testCaseId: string, data?: ExecuteTestDTO) => apiClient.post<TestExecution>(`/executions/test-case/${testCaseId}/execute`, data),
-  executeTestSuite: (suiteId: string, data?: ExecuteTestDTO) => apiClient.post<TestRun>(`/executions/suite/${suiteId}/execute`, data),
-  executeProject: (projectId: string, data?: { browser?: string; headless?: boolean; workers?: number }) => apiClient.post<TestRun>(`/executions/project/${projectId}/execute`, data),
-  cloneRepository: (projectId: string, data: { repoUrl: string; branch?: string }) => apiClient.post(`/executions/project/${projectId}/clone`, data),
+  executeTestCase: (testCaseId: string, data?: Pick<ExecuteTestDTO, 'browser' | 'environment_id' | 'headless'>) => apiClient.post<ApiResponse<QueuedTestRun>>(`/executions/test-case/${testCaseId}/execute`, data),
+  executeTestSuite: (suiteId: string, data?: ExecuteTestDTO) => apiClient.post<ApiResponse<QueuedTestRun>>(`/executions/suite/${suiteId}/execute`, data),
+  executeProject: (projectId: string, data?: { browser?: string; browsers?: string[]; devices?: string[]; environment_id?: string; headless?: boolean; workers?: number; test_case_ids?: string[] }) => apiClient.post<ApiResponse<QueuedTestRun>>(`/executions/project/${projectId}/execute`, data),
+  cloneRepository: (projectId: string, data: { repoUrl?: string; branch?: string } = {}) => apiClient.post(`/executions/project/${projectId}/clone`, data),
   getTestReport: (runId: string) => apiClient.get<{ reportPath: string; reportUrl: string }>(`/executions/run/${runId}/report`),
   getLatestReport: (projectId: string) => apiClient.get<any>(`/executions/project/${projectId}/latest-report`),
-  getExecutionHistory: (testCaseId: string, limit?: number) => apiClient.get<ApiResponse<TestExecution[]>>(`/executions/test-case/${testCaseId}/history`, { params: { limit } }),
+  getExecutionHistory: (testCaseId: string, limit?: number) => apiClient.get<ApiResponse<TestCaseHistoryEntry[]>>(`/executions/test-case/${testCaseId}/history`, { params: { limit } }),
   getTestRun: (runId: string) => apiClient.get<TestRun>(`/executions/run/${runId}`),
+  cancelTestRun: (runId: string) => apiClient.post<ApiResponse<{ testRunId: string; status: 'cancelled' | 'cancelling' }>>(`/executions/run/${runId}/cancel`),
   getProjectTestRuns: (projectId: string, limit?: number) => apiClient.get<ApiResponse<TestRun[]>>(`/executions/project/${projectId}/runs`, { params: { limit } }),
-  getProjectTestRunsDetailed: (projectId: string, limit?: number, offset?: number) => apiClient.get<any>(`/executions/project/${projectId}/runs/detailed`, { params: { limit, offset } }),
+  getProjectTestRunsDetailed: (projectId: string, limit?: number, offset?: number, filters?: TestRunFilters) => apiClient.get<any>(`/executions/project/${projectId}/runs/detailed`, { params: { limit, offset, ...filters } }),
   getTestRunDetailed: (runId: string) => apiClient.get<any>(`/executions/run/${runId}/detailed`),
+  compareTestRuns: (runId: string, otherRunId: string) => apiClient.get<ApiResponse<RunComparison>>(`/executions/run/${runId}/compare/${otherRunId}`),
   getTestRunSuites: (runId: string) => apiClient.get<any>(`/executions/run/${runId}/suites`),
   getTestRunCases: (runId: string, status?: string, suiteName?: string) => apiClient.get<any>(`/executions/run/${runId}/cases`, { params: { status, suiteName } }),
 };
@@ -49,6 +60,20 @@ export const testDiscoveryApi = {
   getTestStats: (projectId: string) => apiClient.get(`/test-discovery/project/${projectId}/stats`),
 };
 
+export const scheduleApi = {
+  getByProject: (projectId: string) => apiClient.get<ApiResponse<TestSchedule[]>>(`/projects/${projectId}/schedules`),
+  create: (projectId: string, data: CreateTestScheduleDTO) => apiClient.post<ApiResponse<TestSchedule>>(`/projects/${projectId}/schedules`, data),
+  update: (projectId: string, scheduleId: string, data: Partial<CreateTestScheduleDTO>) => apiClient.put<ApiResponse<TestSchedule>>(`/projects/${projectId}/schedules/${scheduleId}`, data),
+  delete: (projectId: string, scheduleId: string) => apiClient.delete(`/projects/${projectId}/schedules/${scheduleId}`),
+};
+
+export const environmentApi = {
+  getByProject: (projectId: string) => apiClient.get<ApiResponse<ProjectEnvironment[]>>(`/projects/${projectId}/environments`),
+  create: (projectId: string, data: CreateProjectEnvironmentDTO) => apiClient.post<ApiResponse<ProjectEnvironment>>(`/projects/${projectId}/environments`, data),
+  update: (projectId: string, environmentId: string, data: Partial<CreateProjectEnvironmentDTO>) => apiClient.put<ApiResponse<ProjectEnvironment>>(`/projects/${projectId}/environments/${environmentId}`, data),
+  delete: (projectId: string, environmentId: string) => apiClient.delete(`/projects/${projectId}/environments/${environmentId}`),
+};
+
 export const healthApi = {
   // Health endpoint is at root level, not under /api/v1
   check: () => axios.get(`${API_BASE_URL}/health`),
@@ -63,6 +88,11 @@ export const userApi = {
   delete: (id: string) => apiClient.delete(`/users/${id}`),
   changePassword: (id: string, data: { currentPassword: string; newPassword: string }) =>
     apiClient.post(`/users/${id}/change-password`, data),
+  getTokens: () => apiClient.get<ApiResponse<ApiToken[]>>('/users/me/tokens'),
+  createToken: (data: CreateApiTokenDTO) => apiClient.post<ApiResponse<CreatedApiToken>>('/users/me/tokens', data),
+  revokeToken: (tokenId: string) => apiClient.delete(`/users/me/tokens/${tokenId}`),
+  getSessions: () => apiClient.get<ApiResponse<UserSession[]>>('/users/sessions'),
+  revokeSession: (sessionId: string) => apiClient.delete(`/users/sessions/${sessionId}`),
 };
 
 const api = {
@@ -71,6 +101,8 @@ const api = {
   testCases: testCaseApi,
   executions: executionApi,
   testDiscovery: testDiscoveryApi,
+  schedules: scheduleApi,
+  environments: environmentApi,
   health: healthApi,
   users: userApi,
 };
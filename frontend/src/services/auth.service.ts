@@ -28,11 +28,15 @@ export interface AuthResponse {
   message: string;
   data: {
     user: User;
+    // Short-lived access token
     token: string;
+    // Used to get new access tokens (see api.config); replaced on every use
+    refreshToken: string;
   };
 }
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
 const USER_KEY = 'auth_user';
 
 class AuthService {
@@ -44,6 +48,7 @@ class AuthService {
 
     if (response.data.success && response.data.data.token) {
       this.setToken(response.data.data.token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, response.data.data.refreshToken);
       this.setUser(response.data.data.user);
     }
 
@@ -58,6 +63,7 @@ class AuthService {
 
     if (response.data.success && response.data.data.token) {
       this.setToken(response.data.data.token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, response.data.data.refreshToken);
       this.setUser(response.data.data.user);
     }
 
@@ -65,11 +71,23 @@ class AuthService {
   }
 
   /**
-   * Logout user
+   * Logout user: revoke the session on the server, then forget it locally
    */
-  logout(): void {
-    localStorage.removeItem(TOKEN_KEY);
-    localStorage.removeItem(USER_KEY);
+  async logout(): Promise<void> {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+
+    try {
+      if (refreshToken) {
+        await apiClient.post('/users/logout', { refreshToken });
+      }
+    } catch (error) {
+      // Logging out locally still works if the server can't be reached
+      console.error('Error revoking session:', error);
+    } finally {
+      localStorage.removeItem(TOKEN_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+      localStorage.removeItem(USER_KEY);
+    }
   }
 
   /**
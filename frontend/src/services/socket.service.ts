@@ -1,5 +1,7 @@
 import { io, Socket } from 'socket.io-client';
 import { API_BASE_URL } from './api.config';
+import authService from './auth.service';
+import type { TestRunUpdate } from '../types';
 
 class SocketService {
   private socket: Socket | null = null;
@@ -11,6 +13,8 @@ class SocketService {
     }
 
     this.socket = io(API_BASE_URL, {
+      // Read on every (re)connect, so a refreshed access token is picked up
+      auth: (callback) => callback({ token: authService.getToken() }),
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -50,15 +54,26 @@ class SocketService {
     }
   }
 
-  onTestRunUpdate(callback: (data: any) => void): void {
+  leaveExecutionRoom(executionId: string): void {
+    if (this.socket) {
+      this.socket.emit('leave-execution', executionId);
+    }
+  }
+
+  onTestRunUpdate(callback: (data: TestRunUpdate) => void): void {
     if (this.socket) {
       this.socket.on('test-run-update', callback);
     }
   }
 
-  offTestRunUpdate(): void {
+  // Pass the callback to remove only that listener, otherwise all listeners are removed
+  offTestRunUpdate(callback?: (data: TestRunUpdate) => void): void {
     if (this.socket) {
-      this.socket.off('test-run-update');
+      if (callback) {
+        this.socket.off('test-run-update', callback);
+      } else {
+        this.socket.off('test-run-update');
+      }
     }
   }
 
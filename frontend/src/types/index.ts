@@ -12,8 +12,22 @@ export interface Project {
   name: string;
   description?: string;
   base_url?: string;
+  repo_url?: string | null;
+  default_branch?: string | null;
+  // Repository subdirectory the tests are discovered and run in (monorepos)
+  working_directory?: string | null;
+  // Relative to the working directory; found automatically when empty
+  playwright_config_path?: string | null;
+  // Defaults to npm install when empty
+  install_command?: string | null;
+  // Runs executed at once; the server default when empty
+  max_concurrent_runs?: number | null;
+  // When an admin last approved repo_url and install_command; webhooks don't pull until then
+  repo_approved_at?: string | null;
   logo?: string; // Base64 image or URL
   created_by?: string;
+  // The current user's role in the project; not set for admins who aren't members
+  member_role?: ProjectRole | null;
   created_at: string;
   updated_at: string;
   // Stats from last run
@@ -21,8 +35,10 @@ export interface Project {
     total_tests: number;
     passed_tests: number;
     failed_tests: number;
+    // Failures of quarantined tests, not included in failed_tests
+    quarantined_tests?: number;
     run_date: string;
-    status: 'completed' | 'failed' | 'in_progress';
+    status: TestRun['status'];
   };
 }
 
@@ -54,6 +70,9 @@ export interface TestCase {
   test_script?: string;
   expected_result?: string;
   tags?: string[];
+  // Set for test cases discovered from the project's test files
+  file_path?: string | null;
+  line_number?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -81,24 +100,372 @@ export interface TestRun {
   project_id: string;
   suite_id?: string;
   run_name?: string;
-  status: 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  run_number?: number;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
   total_tests: number;
   passed_tests: number;
   failed_tests: number;
   skipped_tests: number;
+  flaky_tests?: number;
+  quarantined_tests?: number;
   start_time: string;
   end_time?: string;
   duration_ms?: number;
   triggered_by?: string;
+  // Name of the environment profile the run used
   environment?: string;
+  environment_id?: string | null;
+  // Single-browser runs only; multi-browser runs list theirs in browsers
+  browser?: string | null;
+  browsers?: string[] | null;
+  error_message?: string;
+  selected_test_case_ids?: string[] | null;
+  test_targets?: string[] | null;
+  test_grep?: string | null;
+  commit_sha?: string | null;
+  commit_message?: string | null;
+  commit_author_name?: string | null;
+  commit_author_email?: string | null;
+  commit_date?: string | null;
+  working_copy_dirty?: boolean | null;
+  // Link to the commit on GitHub/GitLab/Azure DevOps, when the repository URL allows it
+  commit_url?: string | null;
+  branch?: string | null;
+  trigger_source?: 'manual' | 'schedule' | 'webhook';
+  schedule_id?: string | null;
+  created_at: string;
+}
+
+// Result of one test case within a run (test_run_cases.status)
+export type TestRunCaseStatus = 'passed' | 'failed' | 'skipped' | 'flaky';
+
+export interface RunComparisonRun {
+  id: string;
+  run_name: string;
+  run_number: number;
+  status: TestRun['status'];
+  browser: string | null;
+  browsers: string[] | null;
+  total_tests: number;
+  passed_tests: number;
+  failed_tests: number;
+  skipped_tests: number;
+  flaky_tests: number;
+  quarantined_tests: number;
+  duration_ms: number | null;
+  start_time: string;
+  branch: string | null;
+  commit_sha: string | null;
+  commit_message: string | null;
+  commit_author_name: string | null;
+  commit_url: string | null;
+}
+
+export interface RunComparisonCase {
+  file_path: string | null;
+  suite_name: string | null;
+  test_name: string;
+  browser: string | null;
+  base_case_id: string | null;
+  base_status: TestRunCaseStatus | null;
+  base_duration_ms: number | null;
+  head_case_id: string | null;
+  head_status: TestRunCaseStatus | null;
+  head_duration_ms: number | null;
+  head_quarantined: boolean | null;
+  error_message: string | null;
+  // Only set on slower tests
+  duration_delta_ms?: number;
+  duration_delta_percent?: number;
+}
+
+export interface RunComparisonCommit {
+  sha: string;
+  authorName: string;
+  committedAt: string;
+  subject: string;
+}
+
+export interface RunComparison {
+  projectId: string;
+  projectName: string;
+  // The baseline run (otherRunId)
+  base: RunComparisonRun;
+  head: RunComparisonRun;
+  commits: {
+    base_sha: string;
+    head_sha: string;
+    compare_url: string | null;
+    // null when the commits aren't available in the backend's clone
+    commits: RunComparisonCommit[] | null;
+  } | null;
+  summary: Record<RunComparisonCategory, number>;
+  newlyFailing: RunComparisonCase[];
+  newlyPassing: RunComparisonCase[];
+  stillFailing: RunComparisonCase[];
+  added: RunComparisonCase[];
+  removed: RunComparisonCase[];
+  slower: RunComparisonCase[];
+}
+
+export type RunComparisonCategory = 'newlyFailing' | 'newlyPassing' | 'stillFailing' | 'added' | 'removed' | 'slower';
+
+export interface TestRunFilters {
+  branch?: string;
+  // Full or abbreviated commit SHA
+  commit?: string;
+  // Part of the commit author's name or email
+  author?: string;
+}
+
+export interface TestSchedule {
+  id: string;
+  project_id: string;
+  suite_id: string | null;
+  suite_name?: string | null;
+  name: string;
+  cron_expression: string;
+  timezone: string;
+  browser: BrowserType;
+  workers: number;
+  branch: string | null;
+  environment_id: string | null;
+  environment_name?: string | null;
+  // What to do with runs that came due while the server was down
+  missed_run_policy: 'skip' | 'catch_up';
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_name?: string | null;
+  last_run_status?: TestRun['status'] | null;
+  created_at: string;
+}
+
+export interface CreateTestScheduleDTO {
+  name: string;
+  cron_expression: string;
+  timezone?: string;
+  browser?: BrowserType;
+  workers?: number;
+  suite_id?: string | null;
+  branch?: string | null;
+  environment_id?: string | null;
+  missed_run_policy?: TestSchedule['missed_run_policy'];
+  enabled?: boolean;
+}
+
+export interface ProjectEnvironment {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  base_url: string | null;
+  variables: Record<string, string>;
+  // Names only: secret values are never sent back by the API
+  secret_keys: string[];
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateProjectEnvironmentDTO {
+  name: string;
+  description?: string | null;
+  base_url?: string | null;
+  variables?: Record<string, string>;
+  // Set or replace secrets; null removes one. Secrets left out are kept.
+  secrets?: Record<string, string | null>;
+  is_default?: boolean;
+}
+
+// One test from /projects/:id/flaky-tests, ranked by how often it flaked in recent runs
+export interface FlakyTest {
+  suite_name: string;
+  test_name: string;
+  file_path: string | null;
+  runs: number;
+  flaky_runs: number;
+  failed_runs: number;
+  commit_flips: number;
+  max_retries: number;
+  flake_rate: number;
+  history: FlakyTestRunStatus[];
+}
+
+// One run's result for a test case (GET /executions/test-case/:id/history), newest first
+export interface TestCaseHistoryEntry {
+  id: string;
+  test_run_id: string;
+  test_name: string;
+  status: TestRunCaseStatus;
+  duration_ms: number | null;
+  error_message: string | null;
+  retry_count: number | null;
+  quarantined: boolean | null;
+  created_at: string;
+  run_name: string | null;
+  run_number: number | null;
+  browser: string | null;
+  branch: string | null;
+  commit_sha: string | null;
+  start_time: string;
+}
+
+export interface FlakyTestRunStatus {
+  run_id: string;
+  run_name: string | null;
+  status: 'passed' | 'failed' | 'flaky';
+  retry_count: number | null;
+  commit_sha: string | null;
+  created_at: string;
+}
+
+export interface AnalyticsMetrics {
+  runs: number;
+  failed_runs: number;
+  total_tests: number;
+  passed_tests: number;
+  failed_tests: number;
+  flaky_tests: number;
+  skipped_tests: number;
+  // Passed (first try) / executed tests, null when nothing ran
+  pass_rate: number | null;
+  p50_duration_ms: number | null;
+  p95_duration_ms: number | null;
+}
+
+export interface AnalyticsTrendPoint extends AnalyticsMetrics {
+  bucket: string;
+}
+
+export interface AnalyticsSlowTest {
+  file_path: string | null;
+  suite_name: string | null;
+  test_name: string;
+  runs: number;
+  avg_duration_ms: number;
+  p95_duration_ms: number;
+  max_duration_ms: number;
+}
+
+export interface AnalyticsFailingTest {
+  file_path: string | null;
+  suite_name: string | null;
+  test_name: string;
+  runs: number;
+  failed_runs: number;
+  flaky_runs: number;
+  failure_rate: number;
+  quarantined: boolean;
+  last_failed_at: string | null;
+}
+
+export interface AnalyticsQuery {
+  interval?: 'day' | 'week';
+  days?: number;
   browser?: string;
+  branch?: string;
+}
+
+export interface ProjectAnalytics {
+  interval: 'day' | 'week';
+  days: number;
+  filters: { browser: string | null; branch: string | null };
+  available_filters: { browsers: string[]; branches: string[] };
+  summary: AnalyticsMetrics;
+  trend: AnalyticsTrendPoint[];
+  slowest_tests: AnalyticsSlowTest[];
+  most_failing_tests: AnalyticsFailingTest[];
+}
+
+// Returned by the execute endpoints (202) - the run itself executes in the background
+export interface QueuedTestRun {
+  testRunId: string;
+  runName: string;
+  runNumber: number;
+  status: TestRun['status'];
+}
+
+// Pushed to the `execution-<runId>` Socket.IO room while a run executes
+export interface TestRunUpdate {
+  runId: string;
+  timestamp: string;
+  type: 'status' | 'run-begin' | 'test-begin' | 'test-end' | 'log' | 'summary';
+  status?: string;
+  errorMessage?: string | null;
+  // run-begin
+  totalTests?: number;
+  workers?: number;
+  // test-begin / test-end
+  testId?: string;
+  title?: string;
+  titlePath?: string[];
+  file?: string;
+  line?: number;
+  retry?: number;
+  outcome?: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+  duration?: number;
+  error?: string;
+  // log
+  stream?: 'stdout' | 'stderr';
+  text?: string;
+  // summary
+  passedTests?: number;
+  failedTests?: number;
+  skippedTests?: number;
+  flakyTests?: number;
+  reportUrl?: string;
+}
+
+export type ProjectCredentialType = 'token' | 'basic' | 'ssh_key';
+
+// A project's repository credential as returned by the API: the secret itself is never sent back
+export interface ProjectCredential {
+  id: string;
+  project_id: string;
+  type: ProjectCredentialType;
+  username: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+export interface SaveProjectCredentialDTO {
+  type: ProjectCredentialType;
+  username?: string;
+  // Token, password or SSH private key
+  secret: string;
+}
+
+// From most to least access: owners manage members, maintainers edit, runners run, viewers read
+export type ProjectRole = 'owner' | 'maintainer' | 'runner' | 'viewer';
+
+export interface ProjectMember {
+  id: string;
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  username: string;
+  email: string;
+  full_name?: string | null;
+  created_at: string;
+}
+
+export interface AddProjectMemberDTO {
+  // Username or email of an existing user
+  identifier: string;
+  role: ProjectRole;
 }
 
 export interface CreateProjectDTO {
   name: string;
   description?: string;
   base_url?: string;
+  repo_url?: string;
+  default_branch?: string;
+  working_directory?: string;
+  playwright_config_path?: string;
+  install_command?: string;
+  max_concurrent_runs?: number | null;
   logo?: string;
 }
 
@@ -123,7 +490,12 @@ export interface ExecuteTestDTO {
   test_case_ids?: string[];
   suite_id?: string;
   browser?: 'chromium' | 'firefox' | 'webkit';
-  environment?: string;
+  // Several browsers (Playwright projects) in one run; overrides browser
+  browsers?: string[];
+  // Device profiles from Playwright's registry, e.g. 'iPhone 13'
+  devices?: string[];
+  // Environment profile to run against; defaults to the project's default environment
+  environment_id?: string;
   headless?: boolean;
 }
 
@@ -166,7 +538,7 @@ export interface TestStep {
 
 export type BrowserType = 'chromium' | 'firefox' | 'webkit';
 export type EnvironmentType = 'production' | 'staging' | 'development';
-export type TestFilterType = 'all' | 'passed' | 'failed' | 'skipped';
+export type TestFilterType = 'all' | 'passed' | 'failed' | 'skipped' | 'flaky';
 
 // User & Auth Types
 export interface User {
@@ -179,3 +551,42 @@ export interface User {
   created_at: string;
   updated_at: string;
 }
+
+// read: GET requests; run: also start and cancel runs; admin: everything the user can do
+export type ApiTokenScope = 'read' | 'run' | 'admin';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  // First characters of the token, to tell tokens apart
+  token_prefix: string;
+  scope: ApiTokenScope;
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Returned once, on creation: the only time the token itself is sent
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+export interface CreateApiTokenDTO {
+  name: string;
+  scope: ApiTokenScope;
+  expires_at?: string;
+}
+
+// An active login session, as listed for admins
+export interface UserSession {
+  id: string;
+  user_id: string;
+  username: string;
+  full_name?: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+}